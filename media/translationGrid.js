@@ -0,0 +1,198 @@
+// @ts-check
+/// <reference path="./webview.d.ts" />
+// Script of the translation grid webview: renders the keys x cultures grid sent by
+// the extension, filters and sorts it, and sends edited values back.
+(function () {
+  const vscode = acquireVsCodeApi();
+
+  const table = /** @type {HTMLTableElement} */ (document.getElementById('grid'));
+  const search = /** @type {HTMLInputElement} */ (document.getElementById('search'));
+  const statusFilter = /** @type {HTMLSelectElement} */ (document.getElementById('status'));
+  const summary = /** @type {HTMLElement} */ (document.getElementById('summary'));
+  const errors = /** @type {HTMLElement} */ (document.getElementById('errors'));
+
+  /** Filter and sort survive the webview being hidden */
+  const state = Object.assign({ search: '', status: 'all', sortColumn: '', sortDescending: false }, vscode.getState());
+  let grid;
+
+  search.value = state.search;
+  statusFilter.value = state.status;
+
+  search.addEventListener('input', () => {
+    state.search = search.value;
+    saveAndRender();
+  });
+  statusFilter.addEventListener('change', () => {
+    state.status = statusFilter.value;
+    saveAndRender();
+  });
+
+  window.addEventListener('message', (event) => {
+    if (event.data.type === 'grid') {
+      grid = event.data.grid;
+      render();
+    }
+  });
+
+  function saveAndRender() {
+    vscode.setState(state);
+    render();
+  }
+
+  /**
+   * Checks if a row passes the search text and the status filter
+   */
+  function isShown(row) {
+    const cells = grid.cultures.map(culture => row.cells[culture]);
+    const statusShown =
+      state.status === 'all' ||
+      (state.status === 'incomplete' && cells.some(cell => cell.status !== 'present')) ||
+      cells.some(cell => cell.status === state.status);
+
+    const text = state.search.toLowerCase();
+    return statusShown && (!text ||
+      row.key.toLowerCase().includes(text) ||
+      cells.some(cell => (cell.value || '').toLowerCase().includes(text)));
+  }
+
+  /**
+   * Sorts rows by the key or a culture's value, keeping the file order when unsorted
+   */
+  function sortRows(rows) {
+    if (!state.sortColumn) {
+      return rows;
+    }
+    const sortValue = row => state.sortColumn === 'key' ? row.key : (row.cells[state.sortColumn]?.value ?? '');
+    const sorted = [...rows].sort((a, b) => sortValue(a).localeCompare(sortValue(b)));
+    return state.sortDescending ? sorted.reverse() : sorted;
+  }
+
+  /**
+   * Cycles a column through ascending, descending and file order
+   */
+  function toggleSort(column) {
+    if (state.sortColumn !== column) {
+      state.sortColumn = column;
+      state.sortDescending = false;
+    } else if (!state.sortDescending) {
+      state.sortDescending = true;
+    } else {
+      state.sortColumn = '';
+    }
+    saveAndRender();
+  }
+
+  function render() {
+    if (!grid) {
+      return;
+    }
+
+    // Re-rendering replaces the inputs, so restore the focused one and what was typed in it afterwards
+    const focused = /** @type {HTMLTextAreaElement | null} */ (document.activeElement?.closest('textarea') ?? null);
+    const focusedCell = focused
+      ? { key: focused.dataset.key, culture: focused.dataset.culture, value: focused.value, selection: [focused.selectionStart, focused.selectionEnd] }
+      : undefined;
+
+    errors.replaceChildren(...Object.entries(grid.errors).map(([culture, message]) => {
+      const error = document.createElement('div');
+      error.className = 'error';
+      error.textContent = `${culture}: ${message}`;
+      return error;
+    }));
+
+    const header = document.createElement('tr');
+    header.append(createHeader('key', 'Key'));
+    grid.cultures.forEach(culture => {
+      header.append(createHeader(culture, culture === grid.defaultCulture ? `${culture} (default)` : culture));
+    });
+
+    const rows = sortRows(grid.rows.filter(isShown));
+    table.replaceChildren(header, ...rows.map(createRow));
+    summary.textContent = `${rows.length} of ${grid.rows.length} keys · ${grid.fileName}`;
+
+    if (focusedCell) {
+      const input = [...table.querySelectorAll('textarea')]
+        .find(candidate => candidate.dataset.key === focusedCell.key && candidate.dataset.culture === focusedCell.culture);
+      if (input) {
+        input.value = focusedCell.value;
+        input.focus();
+        input.setSelectionRange(focusedCell.selection[0], focusedCell.selection[1]);
+      }
+    }
+  }
+
+  function createHeader(column, label) {
+    const cell = document.createElement('th');
+    cell.textContent = label;
+    if (state.sortColumn === column) {
+      cell.textContent += state.sortDescending ? ' ▼' : ' ▲';
+    }
+    cell.title = 'Sort';
+    cell.addEventListener('click', () => toggleSort(column));
+    return cell;
+  }
+
+  function createRow(row) {
+    const tableRow = document.createElement('tr');
+
+    const keyCell = document.createElement('td');
+    keyCell.className = 'key';
+    keyCell.textContent = row.key;
+    keyCell.title = 'Double-click to open the default culture data file';
+    keyCell.addEventListener('dblclick', () => {
+      vscode.postMessage({ type: 'reveal', key: row.key, culture: grid.defaultCulture });
+    });
+    tableRow.append(keyCell);
+
+    grid.cultures.forEach(culture => tableRow.append(createCell(row.key, culture, row.cells[culture])));
+    return tableRow;
+  }
+
+  function createCell(key, culture, cell) {
+    const tableCell = document.createElement('td');
+    tableCell.className = cell.status;
+
+    const input = document.createElement('textarea');
+    input.rows = 1;
+    input.value = cell.value ?? '';
+    input.readOnly = !cell.editable;
+    input.placeholder = cell.status === 'missing' ? 'missing' : '';
+    input.title = cell.status === 'untranslated' ? 'Same value as the default culture' : '';
+    input.dataset.key = key;
+    input.dataset.culture = culture;
+
+    // Enter commits, Shift+Enter adds a line break and Escape reverts
+    input.addEventListener('keydown', (event) => {
+      if (event.key === 'Enter' && !event.shiftKey) {
+        event.preventDefault();
+        commit(input, cell);
+      } else if (event.key === 'Escape') {
+        input.value = cell.value ?? '';
+      }
+    });
+    input.addEventListener('blur', () => commit(input, cell));
+    input.addEventListener('dblclick', () => {
+      if (!cell.editable) {
+        vscode.postMessage({ type: 'reveal', key, culture });
+      }
+    });
+
+    tableCell.append(input);
+    return tableCell;
+  }
+
+  /**
+   * Sends a changed value, missing keys being added only once something was typed
+   */
+  function commit(input, cell) {
+    const unchanged = cell.status === 'missing' ? input.value === '' : input.value === (cell.value ?? '');
+    if (!cell.editable || unchanged) {
+      return;
+    }
+    cell.value = input.value;
+    cell.status = 'present';
+    vscode.postMessage({ type: 'edit', key: input.dataset.key, culture: input.dataset.culture, value: input.value });
+  }
+
+  vscode.postMessage({ type: 'ready' });
+}());
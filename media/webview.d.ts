@@ -0,0 +1,10 @@
+// Globals the webview host defines for the scripts of this folder.
+
+interface WebviewApi {
+  postMessage(message: unknown): void;
+  getState(): any;
+  setState(state: unknown): void;
+}
+
+/** Returns the API to talk to the extension, may only be called once per webview */
+declare function acquireVsCodeApi(): WebviewApi;
@@ -1,22 +1,315 @@
 <#
 This script will take a list of psm1 files that have Import-LocalizedData calls
 and attempt to extract the call and get the relevant localization data.
+
+Arguments of each call are evaluated statically. Only a safe subset of
+expressions is supported: constants, strings, $PSScriptRoot, $PSUICulture,
+$PSCulture, variables assigned from such expressions, Join-Path, Split-Path,
+string concatenation and -f. Calls that use anything else are reported as
+unresolved instead of failing the whole module.
+
+The output is a JSON array with one entry per call: the source file, the
+zero-based range of the call and of its enclosing function (null at script
+scope), the binding variable, the data file read for the culture with the
+culture that supplied it, and the data unless -ListDataFiles is set.
 #>
 [CmdletBinding()]
 param(
   [string]$ModuleFile,
   [CultureInfo]
-  $UICulture
+  $UICulture,
+  # Only report which data file each binding variable reads instead of importing it
+  [switch]
+  $ListDataFiles
 )
 
+# Parameters of Import-LocalizedData, in positional order first
+$importParameters = @('BindingVariable', 'UICulture', 'BaseDirectory', 'FileName', 'SupportedCommand')
+
+function Get-LastAssignment {
+  <#
+  Finds the last assignment to a variable before the given element
+  #>
+  [CmdletBinding()]
+  param(
+    [System.Management.Automation.Language.ScriptBlockAst]
+    $ScriptBlock,
+    [System.Management.Automation.Language.VariableExpressionAst]
+    $Element
+  )
+  $ScriptBlock.FindAll(
+    {
+      param($Ast)
+      $Ast -is [System.Management.Automation.Language.AssignmentStatementAst] -and
+      $Ast.Left -is [System.Management.Automation.Language.VariableExpressionAst] -and
+      $Ast.Left.VariablePath.UserPath -eq $Element.VariablePath.UserPath -and
+      $Ast.Extent.StartOffset -lt $Element.Extent.StartOffset
+    },
+    $true
+  ) | Select-Object -Last 1
+}
+
+function Resolve-StaticValue {
+  <#
+  Evaluates an expression without running it, throwing when it is outside the supported subset
+  #>
+  [CmdletBinding()]
+  param(
+    [System.Management.Automation.Language.Ast]
+    $Ast,
+    [System.Management.Automation.Language.ScriptBlockAst]
+    $ScriptBlock,
+    [string]
+    $ScriptRoot,
+    [string]
+    $CultureName
+  )
+  $resolve = {
+    param($Inner)
+    Resolve-StaticValue -Ast $Inner -ScriptBlock $ScriptBlock -ScriptRoot $ScriptRoot -CultureName $CultureName
+  }
+
+  switch ($Ast) {
+    { $_ -is [System.Management.Automation.Language.StringConstantExpressionAst] } {
+      return $Ast.Value
+    }
+    { $_ -is [System.Management.Automation.Language.ConstantExpressionAst] } {
+      return $Ast.Value
+    }
+    { $_ -is [System.Management.Automation.Language.ExpandableStringExpressionAst] } {
+      $text = $Ast.Value
+      foreach ($nested in $Ast.NestedExpressions) {
+        $text = $text.Replace($nested.Extent.Text, [string](& $resolve $nested))
+      }
+      return $text
+    }
+    { $_ -is [System.Management.Automation.Language.VariableExpressionAst] } {
+      switch ($Ast.VariablePath.UserPath) {
+        'PSScriptRoot' { return $ScriptRoot }
+        'PSUICulture' { return $CultureName }
+        'PSCulture' { return $CultureName }
+        'true' { return $true }
+        'false' { return $false }
+        'null' { return $null }
+      }
+      $assignment = Get-LastAssignment -ScriptBlock $ScriptBlock -Element $Ast
+      if (-not $assignment) {
+        throw "Cannot statically resolve variable '$($Ast.Extent.Text)'"
+      }
+      return & $resolve $assignment.Right
+    }
+    { $_ -is [System.Management.Automation.Language.CommandExpressionAst] } {
+      return & $resolve $Ast.Expression
+    }
+    { $_ -is [System.Management.Automation.Language.PipelineAst] } {
+      if ($Ast.PipelineElements.Count -ne 1) {
+        throw "Cannot statically resolve pipeline '$($Ast.Extent.Text)'"
+      }
+      return & $resolve $Ast.PipelineElements[0]
+    }
+    { $_ -is [System.Management.Automation.Language.ParenExpressionAst] } {
+      return & $resolve $Ast.Pipeline
+    }
+    { $_ -is [System.Management.Automation.Language.SubExpressionAst] } {
+      if ($Ast.SubExpression.Statements.Count -ne 1) {
+        throw "Cannot statically resolve subexpression '$($Ast.Extent.Text)'"
+      }
+      return & $resolve $Ast.SubExpression.Statements[0]
+    }
+    { $_ -is [System.Management.Automation.Language.ArrayLiteralAst] } {
+      return , @($Ast.Elements | ForEach-Object { & $resolve $_ })
+    }
+    { $_ -is [System.Management.Automation.Language.ArrayExpressionAst] } {
+      return , @($Ast.SubExpression.Statements | ForEach-Object { & $resolve $_ })
+    }
+    { $_ -is [System.Management.Automation.Language.HashtableAst] } {
+      $table = @{}
+      foreach ($pair in $Ast.KeyValuePairs) {
+        $table[[string](& $resolve $pair.Item1)] = & $resolve $pair.Item2
+      }
+      return $table
+    }
+    { $_ -is [System.Management.Automation.Language.BinaryExpressionAst] } {
+      $left = & $resolve $Ast.Left
+      $right = & $resolve $Ast.Right
+      switch ($Ast.Operator) {
+        'Plus' { return $left + $right }
+        'Format' { return [string]::Format([string]$left, [object[]]@($right)) }
+      }
+      throw "Cannot statically resolve operator '$($Ast.Operator)' in '$($Ast.Extent.Text)'"
+    }
+    { $_ -is [System.Management.Automation.Language.CommandAst] -and $_.GetCommandName() -in 'Join-Path', 'Split-Path' } {
+      $arguments = Get-CommandArgument -Command $Ast -ScriptBlock $ScriptBlock -ScriptRoot $ScriptRoot -CultureName $CultureName
+      switch ($Ast.GetCommandName()) {
+        'Join-Path' {
+          $parts = @($arguments['Path'], $arguments['ChildPath']) + @($arguments['AdditionalChildPath'] | Where-Object { $_ })
+          return [IO.Path]::Combine([string[]]$parts)
+        }
+        'Split-Path' {
+          if ($arguments['Leaf']) {
+            return Split-Path -Path $arguments['Path'] -Leaf
+          }
+          return Split-Path -Path $arguments['Path'] -Parent
+        }
+      }
+    }
+  }
+  throw "Cannot statically resolve '$($Ast.Extent.Text)'"
+}
+
+function Get-CommandArgument {
+  <#
+  Maps the named and positional arguments of a supported command to their static values
+  #>
+  [CmdletBinding()]
+  param(
+    [System.Management.Automation.Language.CommandAst]
+    $Command,
+    [System.Management.Automation.Language.ScriptBlockAst]
+    $ScriptBlock,
+    [string]
+    $ScriptRoot,
+    [string]
+    $CultureName,
+    # Parameter names, in positional order first
+    [string[]]
+    $ParameterNames
+  )
+  if (-not $ParameterNames) {
+    $ParameterNames = switch ($Command.GetCommandName()) {
+      'Join-Path' { 'Path', 'ChildPath', 'AdditionalChildPath' }
+      'Split-Path' { 'Path', 'Parent', 'Leaf' }
+      default { @() }
+    }
+  }
+  $positionalNames = switch ($Command.GetCommandName()) {
+    'Import-LocalizedData' { 'BindingVariable', 'UICulture' }
+    'Join-Path' { 'Path', 'ChildPath' }
+    'Split-Path' { 'Path' }
+  }
+
+  $arguments = @{}
+  $position = 0
+  $elements = @($Command.CommandElements | Select-Object -Skip 1)
+  for ($index = 0; $index -lt $elements.Count; $index++) {
+    $element = $elements[$index]
+
+    if ($element -is [System.Management.Automation.Language.CommandParameterAst]) {
+      # Parameter names may be abbreviated
+      $name = @($ParameterNames | Where-Object { $_ -like "$($element.ParameterName)*" })
+      if ($name.Count -ne 1) {
+        throw "Unsupported parameter '-$($element.ParameterName)'"
+      }
+      if ($element.Argument) {
+        $arguments[$name[0]] = Resolve-StaticValue -Ast $element.Argument -ScriptBlock $ScriptBlock -ScriptRoot $ScriptRoot -CultureName $CultureName
+      } elseif ($name[0] -in 'Parent', 'Leaf') {
+        $arguments[$name[0]] = $true
+      } else {
+        $index++
+        $arguments[$name[0]] = Resolve-StaticValue -Ast $elements[$index] -ScriptBlock $ScriptBlock -ScriptRoot $ScriptRoot -CultureName $CultureName
+      }
+      continue
+    }
+
+    if ($element -is [System.Management.Automation.Language.VariableExpressionAst] -and $element.Splatted) {
+      $assignment = Get-LastAssignment -ScriptBlock $ScriptBlock -Element $element
+      if (-not $assignment) {
+        throw "Cannot statically resolve splatted variable '$($element.Extent.Text)'"
+      }
+      $splat = Resolve-StaticValue -Ast $assignment.Right -ScriptBlock $ScriptBlock -ScriptRoot $ScriptRoot -CultureName $CultureName
+      foreach ($key in $splat.Keys) {
+        $name = @($ParameterNames | Where-Object { $_ -like "$key*" })
+        if ($name.Count -ne 1) {
+          throw "Unsupported parameter '$key' in splatted variable '$($element.Extent.Text)'"
+        }
+        $arguments[$name[0]] = $splat[$key]
+      }
+      continue
+    }
+
+    if ($position -ge @($positionalNames).Count) {
+      throw "Unexpected argument '$($element.Extent.Text)'"
+    }
+    $arguments[@($positionalNames)[$position]] = Resolve-StaticValue -Ast $element -ScriptBlock $ScriptBlock -ScriptRoot $ScriptRoot -CultureName $CultureName
+    $position++
+  }
+  return $arguments
+}
+
+function Get-SourceRange {
+  <#
+  Converts an extent to zero-based lines and characters
+  #>
+  [CmdletBinding()]
+  param(
+    [System.Management.Automation.Language.IScriptExtent]
+    $Extent
+  )
+  [ordered]@{
+    startLine      = $Extent.StartLineNumber - 1
+    startCharacter = $Extent.StartColumnNumber - 1
+    endLine        = $Extent.EndLineNumber - 1
+    endCharacter   = $Extent.EndColumnNumber - 1
+  }
+}
+
+function Get-CallScope {
+  <#
+  Gets the range of the function or script block enclosing a call, nothing at script scope
+  #>
+  [CmdletBinding()]
+  param(
+    [System.Management.Automation.Language.Ast]
+    $Call
+  )
+  for ($parent = $Call.Parent; $null -ne $parent; $parent = $parent.Parent) {
+    # The root script block has no parent
+    if ($parent -is [System.Management.Automation.Language.ScriptBlockAst] -and $null -ne $parent.Parent) {
+      return Get-SourceRange -Extent $parent.Parent.Extent
+    }
+  }
+  return $null
+}
+
+function Resolve-DataFile {
+  <#
+  Finds the data file Import-LocalizedData reads, walking the parent cultures down to the base directory
+  #>
+  [CmdletBinding()]
+  param(
+    [string]
+    $BaseDirectory,
+    [string]
+    $FileName,
+    [string]
+    $CultureName
+  )
+  for ($culture = [CultureInfo]$CultureName; -not [string]::IsNullOrEmpty($culture.Name); $culture = $culture.Parent) {
+    $filePath = Join-Path -Path (Join-Path -Path $BaseDirectory -ChildPath $culture.Name) -ChildPath $FileName
+    if (Test-Path -LiteralPath $filePath) {
+      return @{ culture = $culture.Name; filePath = $filePath }
+    }
+  }
+  $filePath = Join-Path -Path $BaseDirectory -ChildPath $FileName
+  if (Test-Path -LiteralPath $filePath) {
+    return @{ culture = ''; filePath = $filePath }
+  }
+  return $null
+}
+
 $resolvedPath = Resolve-Path $ModuleFile
 if ($null -eq $resolvedPath.Path) {
   Write-Warning "File not found: $ModuleFile"
   continue
 }
-$result = @{}
 $file = $resolvedPath.Path
 $parentDirectory = Split-Path -Path $file -Parent
+$cultureName = if ($null -ne $UICulture -and -not [String]::IsNullOrEmpty($UICulture.Name)) {
+  $UICulture.Name
+} else {
+  # Default to en-US when no UICulture is specified
+  'en-US'
+}
 # Get path variables
 if (Test-Path $file) {
   Write-Verbose "Processing file: $file"
@@ -38,117 +331,84 @@ if (Test-Path $file) {
   )
   if ($importLocalizedDataCalls.Count -eq 0) {
     Write-Warning "No Import-LocalizedData calls found in $file"
-    return @{}
+    return '[]'
   }
 
   try {
     Write-Verbose "Switching to $parentDirectory"
     Push-Location $parentDirectory
+    $calls = [System.Collections.Generic.List[object]]::new()
     foreach ($call in $importLocalizedDataCalls) {
-      # Here you can add logic to extract and process the localization data
-      $splat = @{}
-
-      function Get-VariableFromScriptBlock {
-        [CmdletBinding()]
-        [OutputType([hashtable])]
-        param(
-          [System.Management.Automation.Language.ScriptBlockAst]
-          $ScriptBlock,
-          [PSObject]
-          $Element
-        )
-        $lastAssignment = $ScriptBlock.FindAll(
-          {
-            param($Ast)
-            $Ast -is [System.Management.Automation.Language.AssignmentStatementAst] -and
-            $Ast.Left -is [System.Management.Automation.Language.VariableExpressionAst] -and
-            $Ast.Left.VariablePath.UserPath -eq $Element.VariablePath.UserPath -and
-            $Ast.Extent.StartLineNumber -le $Element.Extent.StartLineNumber
-          },
-          $true
-        ) | Select-Object -Last 1
-        if ($lastAssignment) {
-          if ($Element.Splatted) {
-            $return = @{}
-            # Append all the items of the lastAssignment to the current splat
-            foreach ($kv in $lastAssignment.Right.Expression.KeyValuePairs) {
-              # If the value is a variable, recurse
-              if ($kv.Item2.PipelineElements.Expression -is [System.Management.Automation.Language.VariableExpressionAst]) {
-                $return[$kv.Item1.Extent.Text] = Get-VariableFromScriptBlock -ScriptBlock $ScriptBlock -Element $kv.Item2.PipelineElements.Expression
-              } else {
-                $return[$kv.Item1.Extent.Text] = $kv.Item2.Extent.Text.Trim('"').Trim("'")
-              }
-            }
-            return $return
-          } else {
-            return $Element.Extent.Text.Trim('"').Trim("'")
-          }
-        }
+      $entry = [ordered]@{
+        sourceFile = $file
+        range      = Get-SourceRange -Extent $call.Extent
+        scope      = Get-CallScope -Call $call
       }
+      $bindingVariable = $null
+      try {
+        $splat = Get-CommandArgument -Command $call -ScriptBlock $scriptBlock -ScriptRoot $parentDirectory -CultureName $cultureName -ParameterNames $importParameters
 
-      # We go over each command element and extract the value
-      $parameterName = $null
-      foreach ($element in $call.CommandElements[1..$call.CommandElements.Count]) {
-        Write-Verbose "Checking: $($element.Extent.Text)"
-        switch ($element) {
-          { $_ -is [System.Management.Automation.Language.CommandParameterAst] } {
-            # This is the command
-            $parameterName = $element.Extent.Text.Trim('-')
-            continue
-          }
-          { $_ -is [System.Management.Automation.Language.CommandExpressionAst] } {
-            # This is an expression, we can ignore it for now
-            continue
-          }
-          { $_ -is [System.Management.Automation.Language.ParameterAst] } {
-            # This is a parameter
-            $parameterName = $element.Extent.Text.Trim('-')
-            continue
-          }
-          { $_ -is [System.Management.Automation.Language.StringConstantExpressionAst] } {
-            # Handle string constants
-            # Remove quotes
-            $splat[$parameterName] = $element.Extent.Text.Trim('"').Trim("'")
-            continue
-          }
-          { $_ -is [System.Management.Automation.Language.VariableExpressionAst] } {
-            # Handle variables
-            $variableValue = Get-VariableFromScriptBlock -ScriptBlock $scriptBlock -Element $element
-            if ($variableValue -is [hashtable]) {
-              # If the variable is a hashtable, merge it into splat
-              $splat += $variableValue
-            } else {
-              $splat[$parameterName] = $variableValue
-            }
-            continue
-          }
-          default {
-            # Handle other cases
-            throw "Unhandled case: $($element.GetType().Name)"
-          }
+        # Without -BindingVariable the data is returned, usually to an assignment
+        $bindingVariable = $splat['BindingVariable']
+        $assignment = $call.Parent.Parent
+        if (-not $bindingVariable -and
+          $assignment -is [System.Management.Automation.Language.AssignmentStatementAst] -and
+          $assignment.Left -is [System.Management.Automation.Language.VariableExpressionAst]) {
+          $bindingVariable = $assignment.Left.VariablePath.UserPath
         }
-      }
-      # Execute the Import-LocalizedData command with the extracted arguments
-      if ($splat.BindingVariable) {
-        Write-Verbose "Binding variable found: $($splat.BindingVariable)"
-        $bindingVariable = $splat.BindingVariable
+        if (-not $bindingVariable) {
+          throw 'Cannot determine the variable that receives the data'
+        }
+        Write-Verbose "Binding variable found: $bindingVariable"
         $splat.Remove('BindingVariable')
+
+        # Import-LocalizedData defaults FileName to the calling script's name
+        $fileName = if ($splat['FileName']) { $splat['FileName'] } else { [IO.Path]::GetFileNameWithoutExtension($file) }
+        if (-not $fileName.EndsWith('.psd1', [StringComparison]::OrdinalIgnoreCase)) {
+          $fileName = "$fileName.psd1"
+        }
+        # The declared base directory is relative to the script, and defaults to its folder
+        $baseDirectory = if ($splat['BaseDirectory']) {
+          [IO.Path]::GetFullPath([IO.Path]::Combine($parentDirectory, $splat['BaseDirectory']))
+        } else {
+          $parentDirectory
+        }
+      } catch {
+        Write-Warning "Could not statically resolve Import-LocalizedData at ${file}:$($call.Extent.StartLineNumber): $_"
+        if ($bindingVariable) {
+          $entry['bindingVariable'] = $bindingVariable
+        }
+        $entry['unresolved'] = $true
+        $entry['reason'] = "$_"
+        $calls.Add($entry)
+        continue
       }
-      if ($null -ne $UICulture -and -not [String]::IsNullOrEmpty($UICulture.Name)) {
-        $splat['UICulture'] = $UICulture.Name
+
+      # A culture declared in the script wins over the requested one
+      if ($splat['UICulture']) {
+        $entry['uiCulture'] = [string]$splat['UICulture']
       } else {
-        # Default to en-US when no UICulture is specified
-        $splat['UICulture'] = 'en-US'
-      }
-      # Override the base directory if its set
-      $splat['BaseDirectory'] = $parentDirectory
-      # Override error action
-      $splat['ErrorAction'] = 'Continue'
-      Write-Verbose "Running command with splat: $($splat | ConvertTo-Json)"
-      $data = Import-LocalizedData @splat
-      $result[$bindingVariable] = $data
-    }
-    return $result | ConvertTo-Json
+        $splat['UICulture'] = $cultureName
+      }
+      $dataFile = Resolve-DataFile -BaseDirectory $baseDirectory -FileName $fileName -CultureName $splat['UICulture']
+      $entry['bindingVariable'] = $bindingVariable
+      $entry['fileName'] = $fileName
+      $entry['baseDirectory'] = $baseDirectory
+      $entry['filePath'] = $dataFile.filePath
+      $entry['culture'] = $dataFile.culture
+
+      # Like Import-LocalizedData, a missing data file leaves the binding variable unset
+      if (-not $ListDataFiles -and $dataFile) {
+        $splat['FileName'] = $fileName
+        $splat['BaseDirectory'] = $baseDirectory
+        # Override error action
+        $splat['ErrorAction'] = 'Continue'
+        Write-Verbose "Running command with splat: $($splat | ConvertTo-Json)"
+        $entry['data'] = Import-LocalizedData @splat
+      }
+      $calls.Add($entry)
+    }
+    return ConvertTo-Json -InputObject @($calls) -Depth 10
   } catch {
     Write-Error "Error processing ${file}: $_"
     throw $_
@@ -159,4 +419,4 @@ if (Test-Path $file) {
   }
 } else {
   Write-Warning "File not found: $file"
-}
\ No newline at end of file
+}
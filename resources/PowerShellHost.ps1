@@ -0,0 +1,90 @@
+<#
+Long-lived PowerShell worker for the extension.
+Reads one JSON request per line from stdin and writes one JSON response per line
+to stdout:
+  request:  {"id": 1, "command": "parse", "parameters": {"ModuleFile": "..."}}
+  response: {"id": 1, "output": "...", "error": null}
+#>
+[CmdletBinding()]
+param()
+
+$ErrorActionPreference = 'Stop'
+$utf8 = [Text.UTF8Encoding]::new($false)
+[Console]::InputEncoding = $utf8
+[Console]::OutputEncoding = $utf8
+$parserPath = Join-Path -Path $PSScriptRoot -ChildPath 'LocalizationParser.ps1'
+
+function Write-Response {
+  param(
+    [long]$Id,
+    [string]$Output,
+    [string]$ErrorMessage
+  )
+  $response = [ordered]@{
+    id     = $Id
+    output = $Output
+    error  = $ErrorMessage
+  }
+  [Console]::Out.WriteLine(($response | ConvertTo-Json -Compress))
+  [Console]::Out.Flush()
+}
+
+function Invoke-Request {
+  param(
+    [string]$Command,
+    [hashtable]$Parameters
+  )
+  switch ($Command) {
+    'version' {
+      return $PSVersionTable.PSVersion.ToString()
+    }
+    'parse' {
+      $records = do {
+        # The parser may `continue` on missing files; the loop keeps that from reaching the read loop
+        & $parserPath @Parameters *>&1
+      } while ($false)
+
+      $errors = @($records | Where-Object { $_ -is [System.Management.Automation.ErrorRecord] })
+      if ($errors.Count -gt 0) {
+        $message = ($errors | ForEach-Object { $_.ToString() }) -join [Environment]::NewLine
+        throw $message
+      }
+
+      $output = @($records | Where-Object {
+          $_ -isnot [System.Management.Automation.WarningRecord] -and
+          $_ -isnot [System.Management.Automation.VerboseRecord] -and
+          $_ -isnot [System.Management.Automation.InformationRecord] -and
+          $_ -isnot [System.Management.Automation.DebugRecord]
+        })
+      if ($output.Count -eq 1 -and $output[0] -is [string]) {
+        return $output[0]
+      }
+      return ConvertTo-Json -InputObject $output[-1] -Depth 10 -Compress
+    }
+    default {
+      throw "Unknown command: $Command"
+    }
+  }
+}
+
+while ($null -ne ($line = [Console]::In.ReadLine())) {
+  if ([string]::IsNullOrWhiteSpace($line)) {
+    continue
+  }
+
+  $id = 0
+  try {
+    # -AsHashtable is not available in Windows PowerShell
+    $request = $line | ConvertFrom-Json
+    $id = $request.id
+    $parameters = @{}
+    if ($request.parameters) {
+      foreach ($property in $request.parameters.PSObject.Properties) {
+        $parameters[$property.Name] = $property.Value
+      }
+    }
+    Write-Response -Id $id -Output (Invoke-Request -Command $request.command -Parameters $parameters)
+  } catch {
+    Write-Response -Id $id -ErrorMessage $_.ToString()
+  }
+}
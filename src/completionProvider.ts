@@ -0,0 +1,127 @@
+import * as vscode from 'vscode';
+import { Logger } from './logger';
+import { ConfigurationManager } from './configuration';
+import { LocalizationService } from './localizationService';
+import { Utils } from './utils';
+import { CultureResolver } from './cultureResolver';
+import { DataFileObject, DataFileValue, LocalizationDataSource } from './types';
+
+/**
+ * Completes localization keys after `$BindingVariable.`, and nested entries after `$BindingVariable.Key.`
+ */
+export class LocalizationCompletionProvider implements vscode.CompletionItemProvider {
+  public static readonly triggerCharacters = ['.'];
+  private static readonly MEMBER_ACCESS_PATTERN =
+    /\$(?:\{(?:(?:script|global|local|private):)?([A-Za-z_][A-Za-z0-9_]*)\}|(?:(?:script|global|local|private):)?([A-Za-z_][A-Za-z0-9_]*))((?:\.[A-Za-z_][A-Za-z0-9_]*)*)\.([A-Za-z0-9_]*)$/i;
+
+  private logger: Logger;
+
+  constructor(private localizationService: LocalizationService) {
+    this.logger = Logger.getInstance();
+    this.logger.info('LocalizationCompletionProvider initialized');
+  }
+
+  /**
+   * Provides every key of the default culture for the binding variable before the cursor
+   */
+  public async provideCompletionItems(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    token: vscode.CancellationToken
+  ): Promise<vscode.CompletionItem[] | undefined> {
+    try {
+      if (Utils.isPowerShellDataFile(document.uri.fsPath)) {
+        return undefined;
+      }
+
+      const linePrefix = document.lineAt(position.line).text.substring(0, position.character);
+      const match = LocalizationCompletionProvider.MEMBER_ACCESS_PATTERN.exec(linePrefix);
+      if (!match) {
+        return undefined;
+      }
+
+      const [, bracedName, name, parentPath, typedKey] = match;
+      const dataSources = await this.localizationService.getDataSources(document.uri.fsPath, position.line);
+      // Variable names ignore case, e.g. `$localizedData.` completes `$LocalizedData`
+      const variableName = dataSources ? Utils.getDeclaredVariableName(bracedName ?? name, Object.keys(dataSources)) : undefined;
+      const source = variableName ? dataSources![variableName] : undefined;
+      if (!variableName || !source || token.isCancellationRequested) {
+        return undefined;
+      }
+
+      const defaultCulture = ConfigurationManager.getDefaultCulture(document.uri);
+      const data = await this.localizationService.getLocalizationData(document.uri.fsPath, defaultCulture, position.line);
+      const values = data?.[variableName];
+      const range = new vscode.Range(position.line, position.character - typedKey.length, position.line, position.character);
+
+      // After `$BindingVariable.Key.`, offer the entries of the nested table
+      const items = parentPath
+        ? this.createNestedItems(Utils.resolvePropertyPath(values, parentPath.split('.').slice(1)), range)
+        : await this.createKeyItems(source, defaultCulture, values, range);
+
+      this.logger.debug(`Offering ${items.length} localization key completion(s) for $${variableName}`);
+      return items;
+    } catch (error) {
+      this.logger.error('Failed to provide localization key completions', error as Error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Creates the items of every key of the default culture, noting the cultures that lack them
+   */
+  private async createKeyItems(
+    source: LocalizationDataSource,
+    defaultCulture: string,
+    values: DataFileObject | undefined,
+    range: vscode.Range
+  ): Promise<vscode.CompletionItem[]> {
+    const cultureKeys = await this.localizationService.getCultureKeys(source);
+    // Without a default culture data file, offer the keys of every culture
+    const keys = cultureKeys.get(defaultCulture)
+      ?? new Set([...cultureKeys.values()].flatMap(cultureKeySet => [...cultureKeySet]));
+
+    return [...keys].sort().map(key => {
+      const missingCultures = [...cultureKeys.entries()]
+        .filter(([, cultureKeySet]) => !cultureKeySet.has(key))
+        .map(([culture]) => CultureResolver.getDisplayName(culture));
+      return this.createItem(key, values?.[key], missingCultures, range);
+    });
+  }
+
+  /**
+   * Creates the items of the entries of a nested table
+   */
+  private createNestedItems(table: DataFileValue | undefined, range: vscode.Range): vscode.CompletionItem[] {
+    if (!table || typeof table !== 'object' || Array.isArray(table)) {
+      return [];
+    }
+    return Object.keys(table).sort().map(key => this.createItem(key, table[key], [], range));
+  }
+
+  /**
+   * Creates the completion item of a key
+   */
+  private createItem(key: string, value: unknown, missingCultures: string[], range: vscode.Range): vscode.CompletionItem {
+    const description = missingCultures.length > 0 ? `missing: ${missingCultures.join(', ')}` : undefined;
+    const item = new vscode.CompletionItem({ label: key, description }, vscode.CompletionItemKind.Property);
+    item.range = range;
+
+    if (value !== undefined && value !== null) {
+      const text = typeof value === 'object' ? JSON.stringify(value, null, 2) : String(value);
+      item.detail = Utils.truncateString(text.replace(/\s+/g, ' '), 80);
+      item.documentation = new vscode.MarkdownString().appendCodeblock(text, 'text');
+    }
+
+    if (missingCultures.length > 0) {
+      const documentation = item.documentation instanceof vscode.MarkdownString
+        ? item.documentation
+        : new vscode.MarkdownString();
+      documentation.appendMarkdown(`\n\n$(warning) Missing from: ${missingCultures.join(', ')}`);
+      documentation.supportThemeIcons = true;
+      item.documentation = documentation;
+    }
+
+    return item;
+  }
+}
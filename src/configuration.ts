@@ -1,4 +1,5 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
 import { ExtensionConfig, LogLevel } from './types';
 import { CONFIGURATION_BASENAME } from './utils';
 
@@ -8,10 +9,10 @@ import { CONFIGURATION_BASENAME } from './utils';
 export class ConfigurationManager {
 
   /**
-   * Gets the current extension configuration
+   * Gets the current extension configuration, including the workspace folder settings of a resource
    */
-  public static getConfiguration(): ExtensionConfig {
-    const config = vscode.workspace.getConfiguration(CONFIGURATION_BASENAME);
+  public static getConfiguration(resource?: vscode.Uri): ExtensionConfig {
+    const config = vscode.workspace.getConfiguration(CONFIGURATION_BASENAME, resource);
     return {
       enableInlineValues: config.get<boolean>('enableInlineValues', false), // Disabled by default since we're using decorations now
       enableDecorations: config.get<boolean>('enableDecorations', true),
@@ -22,7 +23,12 @@ export class ConfigurationManager {
         '**/.git/**'
       ]),
       logLevel: config.get<LogLevel>('logLevel', 'info'),
-      uiCulture: config.get<string>('uiCulture', 'en-US')
+      uiCulture: config.get<string>('uiCulture', 'en-US'),
+      enableDiagnostics: config.get<boolean>('enableDiagnostics', true),
+      defaultCulture: config.get<string>('defaultCulture', 'en-US'),
+      moduleDefaultCultures: config.get<Record<string, string>>('moduleDefaultCultures', {}),
+      powerShellFallback: config.get<boolean>('powerShellFallback', true),
+      todoPrefix: config.get<string>('todoPrefix', 'TODO: ')
     };
   }
 
@@ -55,18 +61,108 @@ export class ConfigurationManager {
   }
 
   /**
-   * Gets the current UI culture
+   * Gets the current UI culture, as set for the workspace folder of a resource
    */
-  public static getUICulture(): string {
-    return this.getConfiguration().uiCulture;
+  public static getUICulture(resource?: vscode.Uri): string {
+    return this.getConfiguration(resource).uiCulture;
   }
 
   /**
-   * Sets the UI culture
+   * Checks if diagnostics are enabled
    */
-  public static async setUICulture(culture: string): Promise<void> {
-    const config = vscode.workspace.getConfiguration(CONFIGURATION_BASENAME);
-    await config.update('uiCulture', culture, vscode.ConfigurationTarget.Global);
+  public static isDiagnosticsEnabled(): boolean {
+    return this.getConfiguration().enableDiagnostics;
+  }
+
+  /**
+   * Gets the default culture that other cultures are compared against
+   * A resource inside a module listed in `moduleDefaultCultures` gets the culture of that module
+   */
+  public static getDefaultCulture(resource?: vscode.Uri): string {
+    const config = this.getConfiguration(resource);
+    const moduleCulture = resource
+      ? this.findModuleCulture(
+        config.moduleDefaultCultures,
+        resource.fsPath,
+        vscode.workspace.getWorkspaceFolder(resource)?.uri.fsPath
+      )
+      : undefined;
+    return moduleCulture ?? config.defaultCulture;
+  }
+
+  /**
+   * Finds the culture of the innermost module containing a file
+   * Module paths are folders, manifests or root modules, relative to the workspace folder or absolute
+   */
+  public static findModuleCulture(
+    moduleCultures: Record<string, string>,
+    filePath: string,
+    workspaceFolderPath?: string
+  ): string | undefined {
+    let culture: string | undefined;
+    let matchedLength = -1;
+
+    for (const [modulePath, moduleCulture] of Object.entries(moduleCultures)) {
+      if (!path.isAbsolute(modulePath) && !workspaceFolderPath) {
+        continue;
+      }
+
+      let moduleFolder = path.resolve(workspaceFolderPath ?? '', modulePath);
+      if (/\.ps[dm]1$/i.test(moduleFolder)) {
+        moduleFolder = path.dirname(moduleFolder);
+      }
+
+      const relative = path.relative(moduleFolder, filePath);
+      const isInside = !relative.startsWith('..') && !path.isAbsolute(relative);
+      if (isInside && moduleFolder.length > matchedLength) {
+        culture = moduleCulture;
+        matchedLength = moduleFolder.length;
+      }
+    }
+
+    return culture;
+  }
+
+  /**
+   * Checks if PowerShell may load the data files the native parser cannot read
+   */
+  public static isPowerShellFallbackEnabled(): boolean {
+    return this.getConfiguration().powerShellFallback;
+  }
+
+  /**
+   * Gets the prefix marking values stubbed from the default culture
+   */
+  public static getTodoPrefix(resource?: vscode.Uri): string {
+    return this.getConfiguration(resource).todoPrefix;
+  }
+
+  /**
+   * Sets the UI culture where it applies to a resource, returning where it was written
+   */
+  public static async setUICulture(culture: string, resource?: vscode.Uri): Promise<vscode.ConfigurationTarget> {
+    const config = vscode.workspace.getConfiguration(CONFIGURATION_BASENAME, resource);
+    const target = this.getUICultureTarget(config, resource);
+    await config.update('uiCulture', culture, target);
+    return target;
+  }
+
+  /**
+   * Picks where to write the UI culture: the resource's folder when it already sets one or
+   * belongs to a multi-root workspace, otherwise the workspace, or the user settings without one
+   */
+  private static getUICultureTarget(config: vscode.WorkspaceConfiguration, resource?: vscode.Uri): vscode.ConfigurationTarget {
+    const workspaceFolder = resource ? vscode.workspace.getWorkspaceFolder(resource) : undefined;
+    if (workspaceFolder && config.inspect<string>('uiCulture')?.workspaceFolderValue !== undefined) {
+      return vscode.ConfigurationTarget.WorkspaceFolder;
+    }
+    if (!vscode.workspace.workspaceFolders?.length) {
+      return vscode.ConfigurationTarget.Global;
+    }
+    // Multi-root workspaces are saved in a .code-workspace file, so each folder keeps its own culture
+    return workspaceFolder && vscode.workspace.workspaceFile
+      ? vscode.ConfigurationTarget.WorkspaceFolder
+      : vscode.ConfigurationTarget.Workspace;
   }
 
   /**
@@ -0,0 +1,62 @@
+import { REGEX_PATTERNS } from './utils';
+
+/**
+ * Culture name handling matching the CultureInfo resolution used by Import-LocalizedData
+ */
+export class CultureResolver {
+  /**
+   * Name of the invariant culture, whose data file sits directly in the base directory
+   */
+  public static readonly INVARIANT_CULTURE = '';
+
+  /**
+   * Parents that do not follow from dropping the last subtag, keyed by lower-case name
+   */
+  private static readonly SPECIAL_PARENTS: Record<string, string> = {
+    'zh-cn': 'zh-Hans',
+    'zh-sg': 'zh-Hans',
+    'zh-hk': 'zh-Hant',
+    'zh-mo': 'zh-Hant',
+    'zh-tw': 'zh-Hant'
+  };
+
+  /**
+   * Checks if a name is a culture name, with optional script and region subtags
+   */
+  public static isValidCultureName(name: string): boolean {
+    return REGEX_PATTERNS.CULTURE_NAME.test(name);
+  }
+
+  /**
+   * Gets the parent of a culture, the invariant culture for neutral cultures
+   */
+  public static getParentCulture(culture: string): string {
+    const specialParent = this.SPECIAL_PARENTS[culture.toLowerCase()];
+    if (specialParent) {
+      return specialParent;
+    }
+
+    const separator = culture.lastIndexOf('-');
+    return separator > 0 ? culture.substring(0, separator) : this.INVARIANT_CULTURE;
+  }
+
+  /**
+   * Gets the cultures searched for a data file, from the culture itself down to the invariant culture
+   * e.g. `sr-Latn-RS` searches `sr-Latn-RS`, `sr-Latn`, `sr` and then the base directory
+   */
+  public static getFallbackChain(culture: string): string[] {
+    const chain: string[] = [];
+    for (let current = culture; current !== this.INVARIANT_CULTURE; current = this.getParentCulture(current)) {
+      chain.push(current);
+    }
+    chain.push(this.INVARIANT_CULTURE);
+    return chain;
+  }
+
+  /**
+   * Gets the name shown for a culture
+   */
+  public static getDisplayName(culture: string): string {
+    return culture === this.INVARIANT_CULTURE ? 'invariant' : culture;
+  }
+}
@@ -0,0 +1,226 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { Logger } from './logger';
+import { ConfigurationManager } from './configuration';
+import { LocalizationService } from './localizationService';
+import { PowerShellModuleScanner } from './moduleScanner';
+import { LocalizationKeyScanner } from './localizationKeyScanner';
+import { LocalizationDataFileParser } from './dataFileParser';
+import { TranslationGridEditorProvider } from './translationGridEditor';
+import { CultureResolver } from './cultureResolver';
+import { CultureScaffoldValueMode, DataFileObject, LocalizationDataSource } from './types';
+
+/**
+ * Value mode offered by the picker
+ */
+interface ValueModeQuickPickItem extends vscode.QuickPickItem {
+  mode: CultureScaffoldValueMode;
+}
+
+/**
+ * Adds a culture to a module by copying the default culture's data files
+ *
+ * Every data file read by an `Import-LocalizedData` call of the module gets a
+ * copy in the new culture folder. The copy keeps the layout of the default
+ * culture's file and only its string values change, if at all.
+ */
+export class LocalizationCultureScaffolder {
+  public static readonly ADD_CULTURE_COMMAND = 'powershellLocalization.addCulture';
+
+  private logger: Logger;
+
+  constructor(
+    private localizationService: LocalizationService,
+    private moduleScanner: PowerShellModuleScanner
+  ) {
+    this.logger = Logger.getInstance();
+    this.logger.info('LocalizationCultureScaffolder initialized');
+  }
+
+  /**
+   * Prompts for a module, a culture and a value mode, then creates the culture's data files
+   */
+  public async addCulture(modulePath?: string): Promise<void> {
+    try {
+      modulePath ??= await this.pickModule();
+      if (!modulePath) {
+        return;
+      }
+
+      const calls = await this.localizationService.getLocalizationCalls(modulePath);
+      const sources = [...new Map((calls ?? []).map(call => [
+        path.join(path.resolve(call.baseDirectory), call.fileName),
+        { baseDirectory: call.baseDirectory, fileName: call.fileName }
+      ])).values()];
+      if (sources.length === 0) {
+        vscode.window.showInformationMessage('No Import-LocalizedData calls were found in this module.');
+        return;
+      }
+
+      const defaultCulture = ConfigurationManager.getDefaultCulture(vscode.Uri.file(modulePath));
+      const culture = await this.promptForCulture(sources, defaultCulture);
+      const mode = culture ? await this.pickValueMode(modulePath) : undefined;
+      if (!culture || !mode) {
+        return;
+      }
+
+      await this.createDataFiles(sources, culture, defaultCulture, mode, ConfigurationManager.getTodoPrefix(vscode.Uri.file(modulePath)));
+    } catch (error) {
+      this.logger.error('Failed to add culture to module', error as Error);
+      vscode.window.showErrorMessage(`Failed to add culture: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Creates the data files of a culture from the default culture, skipping the ones that already exist
+   */
+  private async createDataFiles(
+    sources: LocalizationDataSource[],
+    culture: string,
+    defaultCulture: string,
+    mode: CultureScaffoldValueMode,
+    todoPrefix: string
+  ): Promise<void> {
+    const edit = new vscode.WorkspaceEdit();
+    const created: string[] = [];
+    const skipped: string[] = [];
+
+    for (const source of sources) {
+      const filePath = path.join(source.baseDirectory, culture, source.fileName);
+      // The data file Import-LocalizedData reads for the default culture, fallbacks included
+      const template = this.localizationService.resolveCultureDataFile(source, defaultCulture);
+      const text = template ? await this.localizationService.readDocumentText(template.filePath) : null;
+      if (fs.existsSync(filePath) || text === null) {
+        skipped.push(source.fileName);
+        continue;
+      }
+
+      const contents = LocalizationCultureScaffolder.scaffoldDataFile(text, mode, todoPrefix);
+      edit.createFile(vscode.Uri.file(filePath), { ignoreIfExists: true, contents: Buffer.from(contents, 'utf8') });
+      created.push(filePath);
+    }
+
+    if (created.length === 0) {
+      vscode.window.showWarningMessage(`No ${culture} data file was created: ${skipped.join(', ')} already exist or have no ${defaultCulture} data file.`);
+      return;
+    }
+
+    if (!await vscode.workspace.applyEdit(edit)) {
+      vscode.window.showErrorMessage(`Failed to create the ${culture} data files.`);
+      return;
+    }
+
+    await vscode.window.showTextDocument(vscode.Uri.file(created[0]));
+    const skippedNote = skipped.length > 0 ? ` Skipped ${skipped.join(', ')}.` : '';
+    vscode.window.showInformationMessage(`Added ${culture} with ${created.length} data file(s).${skippedNote}`);
+    this.logger.info(`Added culture ${culture}: ${created.join(', ')}`);
+  }
+
+  /**
+   * Builds a new culture's data file from the default culture's text, keeping its layout
+   * Only top-level string values change; values that cannot be read are copied as they are
+   */
+  public static scaffoldDataFile(text: string, mode: CultureScaffoldValueMode, todoPrefix: string): string {
+    if (mode === 'copy') {
+      return text;
+    }
+
+    let values: DataFileObject = {};
+    try {
+      values = LocalizationDataFileParser.parse(text);
+    } catch {
+      // Data files the native parser cannot read keep their values
+    }
+
+    const lineStarts = [0];
+    for (let index = 0; index < text.length; index++) {
+      if (text[index] === '\n') {
+        lineStarts.push(index + 1);
+      }
+    }
+
+    // Replace from the end so earlier offsets stay valid
+    let result = text;
+    for (const entry of LocalizationKeyScanner.findEntries(text).reverse()) {
+      const value = values[entry.key];
+      if (typeof value !== 'string') {
+        continue;
+      }
+
+      const replacement = TranslationGridEditorProvider.formatValueReplacement(
+        text,
+        entry,
+        mode === 'blank' ? '' : `${todoPrefix}${value}`
+      );
+      const start = lineStarts[entry.valueLine] + entry.valueCharacter;
+      const end = lineStarts[entry.endLine] + entry.endCharacter;
+      result = result.substring(0, start) + replacement + result.substring(end);
+    }
+
+    return result;
+  }
+
+  /**
+   * Asks which module receives the culture when the workspace has several
+   */
+  private async pickModule(): Promise<string | undefined> {
+    const items: (vscode.QuickPickItem & { modulePath: string })[] = [];
+    const visitedRoots = new Set<string>();
+
+    for (const moduleInfo of await this.moduleScanner.getModulesWithLocalization()) {
+      const module = await this.localizationService.resolveModule(moduleInfo.filePath);
+      if (!module || visitedRoots.has(module.rootPath)) {
+        continue;
+      }
+      visitedRoots.add(module.rootPath);
+      items.push({
+        label: path.basename(module.rootPath),
+        description: vscode.workspace.asRelativePath(module.rootPath),
+        modulePath: moduleInfo.filePath
+      });
+    }
+
+    if (items.length <= 1) {
+      return items[0]?.modulePath;
+    }
+    const picked = await vscode.window.showQuickPick(items, { placeHolder: 'Select the module to add a culture to' });
+    return picked?.modulePath;
+  }
+
+  /**
+   * Prompts for the new culture, refusing the default culture and cultures the module already has
+   */
+  private async promptForCulture(sources: LocalizationDataSource[], defaultCulture: string): Promise<string | undefined> {
+    return vscode.window.showInputBox({
+      prompt: `Enter the culture to add, its data files are copied from ${defaultCulture}`,
+      placeHolder: 'e.g., de-DE, fr-CA, zh-Hans',
+      validateInput: (value) => {
+        if (!CultureResolver.isValidCultureName(value)) {
+          return 'Invalid culture format. Use format like "en-US", "fr-CA", "zh-Hans", "sr-Latn-RS"';
+        }
+        if (value.toLowerCase() === defaultCulture.toLowerCase()) {
+          return `${value} is the default culture`;
+        }
+        if (sources.every(source => fs.existsSync(path.join(source.baseDirectory, value, source.fileName)))) {
+          return `The module already has every ${value} data file`;
+        }
+        return null;
+      }
+    });
+  }
+
+  /**
+   * Asks what the new culture's values start as
+   */
+  private async pickValueMode(modulePath: string): Promise<CultureScaffoldValueMode | undefined> {
+    const todoPrefix = ConfigurationManager.getTodoPrefix(vscode.Uri.file(modulePath));
+    const items: ValueModeQuickPickItem[] = [
+      { label: `Mark with "${todoPrefix.trim()}"`, description: 'Prefix every default culture value', mode: 'todo' },
+      { label: 'Copy', description: 'Keep the default culture values', mode: 'copy' },
+      { label: 'Blank', description: 'Empty every value', mode: 'blank' }
+    ];
+    const picked = await vscode.window.showQuickPick(items, { placeHolder: 'Select the values of the new culture' });
+    return picked?.mode;
+  }
+}
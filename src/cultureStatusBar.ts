@@ -0,0 +1,177 @@
+import * as vscode from 'vscode';
+import { Logger } from './logger';
+import { ConfigurationManager } from './configuration';
+import { LocalizationService } from './localizationService';
+import { CultureResolver } from './cultureResolver';
+import { CultureCoverage } from './types';
+import { POWERSHELL_LANGUAGE_ID } from './utils';
+
+/**
+ * Culture offered by the picker, or the entry asking for any other culture
+ */
+interface CultureQuickPickItem extends vscode.QuickPickItem {
+  culture?: string;
+}
+
+/**
+ * Shows the UI culture in the status bar and picks a new one among the cultures of the active module
+ *
+ * Each culture is listed with the share of the module's keys it defines, the
+ * default culture's keys being the reference.
+ */
+export class LocalizationCultureStatusBar {
+  public static readonly SWITCH_UI_CULTURE_COMMAND = 'powershellLocalization.switchUICulture';
+
+  private logger: Logger;
+  private statusBarItem: vscode.StatusBarItem;
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(private localizationService: LocalizationService) {
+    this.logger = Logger.getInstance();
+    this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
+    this.statusBarItem.name = 'PowerShell Localization UI Culture';
+    this.statusBarItem.command = LocalizationCultureStatusBar.SWITCH_UI_CULTURE_COMMAND;
+    this.logger.info('LocalizationCultureStatusBar initialized');
+  }
+
+  /**
+   * Shows the status bar item while a PowerShell file of a module with localization is active
+   */
+  public activate(): void {
+    this.disposables.push(
+      vscode.window.onDidChangeActiveTextEditor(() => this.update())
+    );
+    this.update();
+  }
+
+  /**
+   * Refreshes the culture shown and whether the item is visible
+   */
+  public async update(): Promise<void> {
+    const filePath = this.getActiveFilePath();
+    const uiCulture = ConfigurationManager.getUICulture(filePath ? vscode.Uri.file(filePath) : undefined);
+    this.statusBarItem.text = `$(globe) ${CultureResolver.getDisplayName(uiCulture)}`;
+    this.statusBarItem.tooltip = `PowerShell Localization UI culture: ${CultureResolver.getDisplayName(uiCulture)}. Click to switch.`;
+
+    const calls = filePath ? await this.localizationService.getLocalizationCalls(filePath) : null;
+    // The active editor may have changed while the calls were loading
+    if (filePath !== this.getActiveFilePath()) {
+      return;
+    }
+
+    if (calls && calls.length > 0) {
+      this.statusBarItem.show();
+    } else {
+      this.statusBarItem.hide();
+    }
+  }
+
+  /**
+   * Asks for a UI culture, listing the cultures of the module owning a resource with their key coverage
+   */
+  public async pickCulture(resource?: vscode.Uri): Promise<string | undefined> {
+    const coverage = resource ? await this.getCultureCoverage(resource.fsPath) : [];
+    if (coverage.length === 0) {
+      return this.promptForCulture(resource);
+    }
+
+    const uiCulture = ConfigurationManager.getUICulture(resource);
+    const defaultCulture = ConfigurationManager.getDefaultCulture(resource);
+    const items: CultureQuickPickItem[] = coverage.map(entry => ({
+      label: `${entry.culture === uiCulture ? '$(check) ' : ''}${CultureResolver.getDisplayName(entry.culture)}`,
+      description: `${LocalizationCultureStatusBar.formatCoverage(entry)} of keys`,
+      detail: entry.culture === defaultCulture ? 'Default culture' : undefined,
+      culture: entry.culture
+    }));
+    items.push({ label: '$(edit) Other culture...', alwaysShow: true });
+
+    const picked = await vscode.window.showQuickPick(items, {
+      placeHolder: `Select the UI culture (current: ${CultureResolver.getDisplayName(uiCulture)})`,
+      matchOnDescription: true
+    });
+    if (!picked) {
+      return undefined;
+    }
+    return picked.culture ?? this.promptForCulture(resource);
+  }
+
+  /**
+   * Computes the key coverage of every culture folder of the module owning a file
+   */
+  public async getCultureCoverage(filePath: string): Promise<CultureCoverage[]> {
+    const calls = await this.localizationService.getLocalizationCalls(filePath);
+    const sources = new Map((calls ?? []).map(call => [`${call.baseDirectory}|${call.fileName}`, call]));
+
+    const sourceKeys: Map<string, Set<string>>[] = [];
+    for (const source of sources.values()) {
+      sourceKeys.push(await this.localizationService.getCultureKeys(source));
+    }
+    return LocalizationCultureStatusBar.computeCoverage(sourceKeys, ConfigurationManager.getDefaultCulture(vscode.Uri.file(filePath)));
+  }
+
+  /**
+   * Computes how many of the reference keys each culture defines, over the data files of a module
+   * The reference is the default culture's keys, or every culture's keys for data files it lacks
+   */
+  public static computeCoverage(sourceKeys: Map<string, Set<string>>[], defaultCulture: string): CultureCoverage[] {
+    const cultures = [...new Set(sourceKeys.flatMap(cultureKeys => [...cultureKeys.keys()]))]
+      .filter(culture => CultureResolver.isValidCultureName(culture))
+      .sort((a, b) => a.localeCompare(b));
+
+    return cultures.map(culture => {
+      let presentKeys = 0;
+      let totalKeys = 0;
+      for (const cultureKeys of sourceKeys) {
+        const referenceKeys = cultureKeys.get(defaultCulture)
+          ?? new Set([...cultureKeys.values()].flatMap(keys => [...keys]));
+        const keys = cultureKeys.get(culture) ?? new Set<string>();
+        presentKeys += [...referenceKeys].filter(key => keys.has(key)).length;
+        totalKeys += referenceKeys.size;
+      }
+      return { culture, presentKeys, totalKeys };
+    });
+  }
+
+  /**
+   * Formats a coverage as a whole percentage, never rounding up to 100%
+   */
+  public static formatCoverage(coverage: CultureCoverage): string {
+    if (coverage.totalKeys === 0) {
+      return '100%';
+    }
+    return `${Math.floor((coverage.presentKeys / coverage.totalKeys) * 100)}%`;
+  }
+
+  /**
+   * Prompts for any culture name
+   */
+  private async promptForCulture(resource?: vscode.Uri): Promise<string | undefined> {
+    return vscode.window.showInputBox({
+      prompt: 'Enter UI Culture (e.g., en-US, fr-CA, zh-Hans, sr-Latn-RS)',
+      value: ConfigurationManager.getUICulture(resource),
+      validateInput: (value) => {
+        if (!CultureResolver.isValidCultureName(value)) {
+          return 'Invalid culture format. Use format like "en-US", "fr-CA", "zh-Hans", "sr-Latn-RS"';
+        }
+        return null;
+      }
+    });
+  }
+
+  /**
+   * Gets the file of the active editor when it is a PowerShell file
+   */
+  public getActiveFilePath(): string | undefined {
+    const document = vscode.window.activeTextEditor?.document;
+    return document?.languageId === POWERSHELL_LANGUAGE_ID && document.uri.scheme === 'file' ? document.uri.fsPath : undefined;
+  }
+
+  /**
+   * Disposes of all resources
+   */
+  public dispose(): void {
+    this.disposables.forEach(disposable => disposable.dispose());
+    this.statusBarItem.dispose();
+    this.logger.debug('LocalizationCultureStatusBar disposed');
+  }
+}
@@ -0,0 +1,478 @@
+import { DataFileObject, DataFileValue } from './types';
+import { ESCAPE_SEQUENCES } from './utils';
+
+/**
+ * Parses PowerShell culture data files (.psd1) without running PowerShell
+ *
+ * Supports the restricted language subset found in data files:
+ * - Hashtable literals, nested hashtables and arrays
+ * - Single/double-quoted strings and here-strings with their escape rules
+ * - Numbers, `$true`, `$false` and `$null`
+ * - `ConvertFrom-StringData` over any string form
+ * - Line and block comments
+ *
+ * Anything else (variable expansion, operators, other commands) throws, so the
+ * caller can fall back to PowerShell.
+ */
+export class LocalizationDataFileParser {
+  private static readonly BAREWORD_PATTERN = /[A-Za-z_][\w.-]*/y;
+  private static readonly NUMBER_PATTERN = /-?\d+(?:\.\d+)?(?![\w.])/y;
+  private static readonly STRING_DATA_COMMAND = /ConvertFrom-StringData(?![\w-])/iy;
+  private static readonly STRING_DATA_PARAMETER = /-StringData(?![\w-])/iy;
+  private static readonly CONSTANT_VARIABLES: Record<string, DataFileValue> = {
+    'true': true,
+    'false': false,
+    'null': null
+  };
+  private static readonly REGEX_ESCAPE_SEQUENCES: Record<string, string> = {
+    'a': '\x07', 'b': '\b', 'e': '\x1b', 'f': '\f', 'n': '\n', 'r': '\r', 't': '\t', 'v': '\v'
+  };
+
+  private index = 0;
+
+  private constructor(private readonly text: string) {}
+
+  /**
+   * Parses the content of a data file into the hashtable it evaluates to
+   */
+  public static parse(text: string): DataFileObject {
+    const parser = new LocalizationDataFileParser(text.replace(/^\uFEFF/, ''));
+    parser.skipBlanks(true);
+    const value = parser.parseExpression();
+    parser.skipBlanks(true);
+
+    if (parser.index < parser.text.length) {
+      parser.fail('Unexpected content after the data');
+    }
+    if (!LocalizationDataFileParser.isObject(value)) {
+      parser.fail('The data file does not evaluate to a hashtable');
+    }
+    return value as DataFileObject;
+  }
+
+  /**
+   * Parses `ConvertFrom-StringData` input into its key/value pairs
+   */
+  public static parseStringData(stringData: string): DataFileObject {
+    const result: DataFileObject = {};
+    const seenKeys = new Set<string>();
+
+    for (const rawLine of stringData.split('\n')) {
+      const line = rawLine.trim();
+      if (line.length === 0 || line.startsWith('#')) {
+        continue;
+      }
+
+      const separator = line.indexOf('=');
+      if (separator <= 0) {
+        throw new Error(`Invalid ConvertFrom-StringData line: ${line}`);
+      }
+
+      const key = line.substring(0, separator).trim();
+      if (seenKeys.has(key.toLowerCase())) {
+        throw new Error(`Duplicate ConvertFrom-StringData key: ${key}`);
+      }
+      seenKeys.add(key.toLowerCase());
+      result[key] = this.regexUnescape(line.substring(separator + 1).trim());
+    }
+
+    return result;
+  }
+
+  /**
+   * Parses a value, collecting comma-separated values into an array
+   */
+  private parseExpression(): DataFileValue {
+    const first = this.parseValue();
+    this.skipBlanks(false);
+    if (this.peek() !== ',') {
+      return first;
+    }
+
+    const items = [first];
+    while (this.peek() === ',') {
+      this.index++;
+      this.skipBlanks(true);
+      items.push(this.parseValue());
+      this.skipBlanks(false);
+    }
+    return items;
+  }
+
+  /**
+   * Parses a single value
+   */
+  private parseValue(): DataFileValue {
+    const char = this.peek();
+    const next = this.text[this.index + 1];
+
+    if (char === '@' && next === '{') {
+      return this.parseHashtable();
+    }
+    if (char === '@' && next === '(') {
+      this.index += 2;
+      return this.parseArray(')');
+    }
+    if (char === '@' && (next === '\'' || next === '"')) {
+      return this.parseHereString();
+    }
+    if (char === '(') {
+      this.index++;
+      this.skipBlanks(true);
+      const value = this.parseExpression();
+      this.skipBlanks(true);
+      this.expect(')');
+      return value;
+    }
+    if (char === '\'') {
+      return this.parseSingleQuotedString();
+    }
+    if (char === '"') {
+      return this.parseDoubleQuotedString();
+    }
+    if (char === '$') {
+      return this.parseConstantVariable();
+    }
+    if (this.match(LocalizationDataFileParser.STRING_DATA_COMMAND)) {
+      return this.parseStringDataCommand();
+    }
+
+    const number = this.match(LocalizationDataFileParser.NUMBER_PATTERN);
+    if (number !== undefined) {
+      return Number(number);
+    }
+
+    return this.fail(`Unsupported value starting with '${char ?? 'end of file'}'`);
+  }
+
+  /**
+   * Parses a hashtable literal `@{ Key = Value; ... }`
+   */
+  private parseHashtable(): DataFileObject {
+    this.index += 2;
+    const result: DataFileObject = {};
+    const seenKeys = new Set<string>();
+
+    for (;;) {
+      this.skipSeparators();
+      if (this.peek() === '}') {
+        this.index++;
+        return result;
+      }
+      if (this.index >= this.text.length) {
+        this.fail('Missing closing brace of hashtable');
+      }
+
+      const key = this.parseKey();
+      // Hashtable keys are case-insensitive in PowerShell
+      if (seenKeys.has(key.toLowerCase())) {
+        this.fail(`Duplicate key '${key}' in hashtable`);
+      }
+      seenKeys.add(key.toLowerCase());
+
+      this.skipBlanks(false);
+      this.expect('=');
+      this.skipBlanks(true);
+      result[key] = this.parseExpression();
+
+      this.skipBlanks(false);
+      const terminator = this.peek();
+      if (terminator !== ';' && terminator !== '\n' && terminator !== '}') {
+        this.fail(`Unexpected '${terminator ?? 'end of file'}' after the value of '${key}'`);
+      }
+    }
+  }
+
+  /**
+   * Parses an array subexpression `@( ... )`
+   */
+  private parseArray(closing: string): DataFileValue[] {
+    const items: DataFileValue[] = [];
+
+    for (;;) {
+      this.skipSeparators();
+      if (this.peek() === closing) {
+        this.index++;
+        return items;
+      }
+      if (this.index >= this.text.length) {
+        this.fail('Missing closing parenthesis of array');
+      }
+
+      const value = this.parseExpression();
+      if (Array.isArray(value)) {
+        items.push(...value);
+      } else {
+        items.push(value);
+      }
+    }
+  }
+
+  /**
+   * Parses a hashtable key: a bareword, a quoted string or a number
+   */
+  private parseKey(): string {
+    const char = this.peek();
+    if (char === '\'') {
+      return this.parseSingleQuotedString();
+    }
+    if (char === '"') {
+      return this.parseDoubleQuotedString();
+    }
+
+    const bareword = this.match(LocalizationDataFileParser.BAREWORD_PATTERN)
+      ?? this.match(LocalizationDataFileParser.NUMBER_PATTERN);
+    if (bareword === undefined) {
+      return this.fail(`Invalid hashtable key starting with '${char ?? 'end of file'}'`);
+    }
+    return bareword;
+  }
+
+  /**
+   * Parses `ConvertFrom-StringData [-StringData] <string>`
+   */
+  private parseStringDataCommand(): DataFileObject {
+    this.skipBlanks(false);
+    if (this.match(LocalizationDataFileParser.STRING_DATA_PARAMETER)) {
+      this.skipBlanks(false);
+    }
+
+    const stringData = this.parseValue();
+    if (typeof stringData !== 'string') {
+      this.fail('ConvertFrom-StringData expects a string');
+    }
+    return LocalizationDataFileParser.parseStringData(stringData as string);
+  }
+
+  /**
+   * Parses `$true`, `$false` or `$null`
+   */
+  private parseConstantVariable(): DataFileValue {
+    const start = this.index;
+    this.index++;
+    const name = this.match(LocalizationDataFileParser.BAREWORD_PATTERN)?.toLowerCase();
+    if (name === undefined || !(name in LocalizationDataFileParser.CONSTANT_VARIABLES)) {
+      this.index = start;
+      return this.fail('Variables are not supported in data files');
+    }
+    return LocalizationDataFileParser.CONSTANT_VARIABLES[name];
+  }
+
+  /**
+   * Parses a single-quoted string, where `''` is an escaped quote
+   */
+  private parseSingleQuotedString(): string {
+    const start = this.index;
+    let value = '';
+    this.index++;
+
+    while (this.index < this.text.length) {
+      const char = this.text[this.index];
+      if (char === '\'') {
+        if (this.text[this.index + 1] === '\'') {
+          value += '\'';
+          this.index += 2;
+          continue;
+        }
+        this.index++;
+        return value;
+      }
+      value += char;
+      this.index++;
+    }
+
+    this.index = start;
+    return this.fail('Unterminated string');
+  }
+
+  /**
+   * Parses a double-quoted string, where backticks escape and `""` is an escaped quote
+   */
+  private parseDoubleQuotedString(): string {
+    const start = this.index;
+    let value = '';
+    this.index++;
+
+    while (this.index < this.text.length) {
+      const char = this.text[this.index];
+      if (char === '"') {
+        if (this.text[this.index + 1] === '"') {
+          value += '"';
+          this.index += 2;
+          continue;
+        }
+        this.index++;
+        return value;
+      }
+      value += this.readExpandableChar();
+    }
+
+    this.index = start;
+    return this.fail('Unterminated string');
+  }
+
+  /**
+   * Parses a here-string, whose content spans from the line after `@'` or `@"` to the line before `'@` or `"@`
+   */
+  private parseHereString(): string {
+    const quote = this.text[this.index + 1];
+    const bodyStart = this.text.indexOf('\n', this.index);
+    if (bodyStart === -1 || this.text.substring(this.index + 2, bodyStart).trim().length > 0) {
+      return this.fail('Here-string header must end the line');
+    }
+
+    // The terminator must start a line; an empty here-string has it on the next line
+    const bodyEnd = this.text.indexOf(`\n${quote}@`, bodyStart);
+    if (bodyEnd === -1) {
+      return this.fail('Unterminated here-string');
+    }
+
+    const body = this.text.substring(bodyStart + 1, Math.max(bodyStart + 1, bodyEnd))
+      .replace(/\r$/, '')
+      .replace(/\r\n/g, '\n');
+    this.index = bodyEnd + 3;
+
+    if (quote === '\'') {
+      return body;
+    }
+
+    const inner = new LocalizationDataFileParser(body);
+    let value = '';
+    while (inner.index < body.length) {
+      value += inner.readExpandableChar();
+    }
+    return value;
+  }
+
+  /**
+   * Reads one character of an expandable string, resolving backtick escapes
+   */
+  private readExpandableChar(): string {
+    const char = this.text[this.index];
+    const next = this.text[this.index + 1];
+
+    if (char === '`' && next !== undefined) {
+      if (next === 'u' && this.text[this.index + 2] === '{') {
+        const end = this.text.indexOf('}', this.index);
+        const codePoint = parseInt(this.text.substring(this.index + 3, end), 16);
+        if (end === -1 || isNaN(codePoint)) {
+          this.fail('Invalid unicode escape sequence');
+        }
+        this.index = end + 1;
+        return String.fromCodePoint(codePoint);
+      }
+      this.index += 2;
+      return ESCAPE_SEQUENCES[next] ?? next;
+    }
+
+    // Variable expansion and subexpressions need PowerShell
+    if (char === '$' && next !== undefined && /[\w({:?^$]/.test(next)) {
+      this.fail('Variable expansion is not supported in data files');
+    }
+
+    this.index++;
+    return char;
+  }
+
+  /**
+   * Skips blanks and comments, and line breaks when `lineBreaks` is set
+   * A backtick at the end of a line continues the line
+   */
+  private skipBlanks(lineBreaks: boolean): void {
+    while (this.index < this.text.length) {
+      const char = this.text[this.index];
+      const next = this.text[this.index + 1];
+
+      if (char === ' ' || char === '\t' || char === '\r' || (lineBreaks && char === '\n')) {
+        this.index++;
+      } else if (char === '`' && (next === '\n' || (next === '\r' && this.text[this.index + 2] === '\n'))) {
+        this.index += next === '\r' ? 3 : 2;
+      } else if (char === '<' && next === '#') {
+        const end = this.text.indexOf('#>', this.index + 2);
+        this.index = end === -1 ? this.text.length : end + 2;
+      } else if (char === '#') {
+        const end = this.text.indexOf('\n', this.index);
+        this.index = end === -1 ? this.text.length : end;
+      } else {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Skips blanks, comments, line breaks and statement separators
+   */
+  private skipSeparators(): void {
+    this.skipBlanks(true);
+    while (this.peek() === ';') {
+      this.index++;
+      this.skipBlanks(true);
+    }
+  }
+
+  /**
+   * Consumes a sticky pattern at the current position
+   */
+  private match(pattern: RegExp): string | undefined {
+    pattern.lastIndex = this.index;
+    const match = pattern.exec(this.text);
+    if (!match) {
+      return undefined;
+    }
+    this.index += match[0].length;
+    return match[0];
+  }
+
+  /**
+   * Consumes an expected character
+   */
+  private expect(char: string): void {
+    if (this.peek() !== char) {
+      this.fail(`Expected '${char}' but found '${this.peek() ?? 'end of file'}'`);
+    }
+    this.index++;
+  }
+
+  /**
+   * Gets the character at the current position
+   */
+  private peek(): string | undefined {
+    return this.text[this.index];
+  }
+
+  /**
+   * Throws a parse error with the line and column of the current position
+   */
+  private fail(message: string): never {
+    const before = this.text.substring(0, this.index);
+    const line = before.split('\n').length;
+    const column = this.index - before.lastIndexOf('\n');
+    throw new Error(`${message} (line ${line}, column ${column})`);
+  }
+
+  /**
+   * Unescapes ConvertFrom-StringData values like .NET `Regex.Unescape`
+   */
+  private static regexUnescape(value: string): string {
+    return value.replace(/\\(?:x([0-9A-Fa-f]{2})|u([0-9A-Fa-f]{4})|([0-7]{1,3})|c([A-Za-z])|(.))/g,
+      (_match, hex, unicode, octal, control, other) => {
+        if (hex || unicode) {
+          return String.fromCharCode(parseInt(hex ?? unicode, 16));
+        }
+        if (octal) {
+          return String.fromCharCode(parseInt(octal, 8));
+        }
+        if (control) {
+          return String.fromCharCode(control.toUpperCase().charCodeAt(0) - 64);
+        }
+        return this.REGEX_ESCAPE_SEQUENCES[other] ?? other;
+      });
+  }
+
+  /**
+   * Checks if a value is a hashtable
+   */
+  private static isObject(value: DataFileValue): value is DataFileObject {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
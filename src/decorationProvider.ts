@@ -1,26 +1,50 @@
 import * as vscode from 'vscode';
-import { LocalizationData } from './types';
+import { DataFileValue, LineDecoration, LocalizationCall } from './types';
 import { Logger } from './logger';
-import { PowerShellExecutor } from './powershellExecutor';
 import { ConfigurationManager } from './configuration';
-import { POWERSHELL_LANGUAGE_ID } from './utils';
-import path from 'path/win32';
-import fs from 'fs';
+import { LocalizationService } from './localizationService';
+import { CultureResolver } from './cultureResolver';
+import { IncrementalLineCache } from './incrementalLineCache';
+import { DOCUMENT_CHANGE_DEBOUNCE_MS, POWERSHELL_LANGUAGE_ID, Utils } from './utils';
+
+/**
+ * Decorations computed for a document, valid for one set of calls and UI culture
+ */
+interface DocumentDecorations {
+  calls: LocalizationCall[];
+  uiCulture: string;
+  bindingVarRegex: RegExp;
+  lines: IncrementalLineCache<LineDecoration[]>;
+  // Bumped by every update so a newer one stops the background pass of an older one
+  generation: number;
+}
 
 /**
  * Provides decorations for PowerShell localization variables in real-time
+ *
+ * Decorations are kept per line and only the lines touched by an edit are
+ * recomputed, the visible ones first and the rest of the document in chunks.
  */
 export class LocalizationDecorationProvider {
+  /**
+   * Lines computed between two yields to the event loop in the background pass
+   */
+  private static readonly BACKGROUND_CHUNK_SIZE = 2000;
+
   private logger: Logger;
-  private powershellExecutor: PowerShellExecutor;
-  private localizationCache: Map<string, LocalizationData> = new Map();
   private decorationType: vscode.TextEditorDecorationType;
   private disposables: vscode.Disposable[] = [];
-  private timeout: NodeJS.Timeout | undefined;
+  private timeouts: Map<string, NodeJS.Timeout> = new Map();
+  private documentDecorations: Map<string, DocumentDecorations> = new Map();
 
-  constructor() {
+  /**
+   * @param getVisibleEditors - Lists the editors to decorate, the visible ones of the window by default
+   */
+  constructor(
+    private localizationService: LocalizationService,
+    private getVisibleEditors: () => readonly vscode.TextEditor[] = () => vscode.window.visibleTextEditors
+  ) {
     this.logger = Logger.getInstance();
-    this.powershellExecutor = new PowerShellExecutor();
 
     // Create decoration type for localization hints
     this.decorationType = vscode.window.createTextEditorDecorationType({
@@ -37,277 +61,286 @@ export class LocalizationDecorationProvider {
   }
 
   /**
-   * Activates the decoration provider
+   * Activates the decoration provider, registering its listeners only once
    */
   public activate(): void {
-    // Listen to active editor changes
+    // Configuration changes activate again, a second edit listener would shift the cached lines twice
+    if (this.disposables.length > 0) {
+      this.triggerUpdateAll();
+      return;
+    }
+
+    // Listen to editors being shown, including split views
+    this.disposables.push(
+      vscode.window.onDidChangeVisibleTextEditors((editors) => {
+        editors.forEach(editor => this.triggerUpdateDecorations(editor.document));
+      })
+    );
+
+    // Scrolling reveals lines the background pass may not have reached yet
     this.disposables.push(
-      vscode.window.onDidChangeActiveTextEditor(() => {
-        this.triggerUpdateDecorations();
+      vscode.window.onDidChangeTextEditorVisibleRanges((event) => {
+        this.triggerUpdateDecorations(event.textEditor.document);
       })
     );
 
-    // Listen to document changes
     this.disposables.push(
       vscode.workspace.onDidChangeTextDocument((event) => {
-        if (vscode.window.activeTextEditor && event.document === vscode.window.activeTextEditor.document) {
-          this.triggerUpdateDecorations();
-        }
+        this.handleDocumentChange(event);
       })
     );
 
-    // Update decorations for the currently active editor
-    this.triggerUpdateDecorations();
+    this.disposables.push(
+      vscode.workspace.onDidCloseTextDocument((document) => {
+        this.documentDecorations.delete(document.uri.toString());
+      })
+    );
+
+    // Update decorations for the currently visible editors
+    this.triggerUpdateAll();
   }
 
   /**
-   * Triggers decoration updates with debouncing
+   * Shifts the computed lines along with an edit and recomputes the edited ones
    */
-  private triggerUpdateDecorations(): void {
-    if (this.timeout) {
-      clearTimeout(this.timeout);
+  public handleDocumentChange(event: vscode.TextDocumentChangeEvent): void {
+    const decorations = this.documentDecorations.get(event.document.uri.toString());
+    for (const change of decorations ? event.contentChanges : []) {
+      decorations!.lines.applyChange(change.range.start.line, change.range.end.line, change.text);
     }
+    this.triggerUpdateDecorations(event.document);
+  }
 
-    this.timeout = setTimeout(() => {
-      this.updateDecorations();
-    }, 500); // 500ms debounce
+  /**
+   * Triggers decoration updates for every visible document
+   */
+  private triggerUpdateAll(): void {
+    new Set(this.getVisibleEditors().map(editor => editor.document))
+      .forEach(document => this.triggerUpdateDecorations(document));
   }
 
   /**
-   * Updates decorations for the active editor
+   * Triggers a decoration update for a visible document with debouncing
    */
-  private async updateDecorations(): Promise<void> {
-    const activeEditor = vscode.window.activeTextEditor;
-    if (!activeEditor) {
+  private triggerUpdateDecorations(document: vscode.TextDocument): void {
+    if (!this.getVisibleEditors().some(editor => editor.document === document)) {
+      return;
+    }
+
+    const key = document.uri.toString();
+    const timeout = this.timeouts.get(key);
+    if (timeout) {
+      clearTimeout(timeout);
+    }
+
+    this.timeouts.set(key, setTimeout(() => {
+      this.timeouts.delete(key);
+      this.updateDecorations(document);
+    }, DOCUMENT_CHANGE_DEBOUNCE_MS));
+  }
+
+  /**
+   * Updates decorations for every editor showing a document
+   */
+  private async updateDecorations(document: vscode.TextDocument): Promise<void> {
+    const key = document.uri.toString();
+    const editors = this.getVisibleEditors().filter(editor => editor.document === document);
+    if (editors.length === 0 || document.isClosed) {
       return;
     }
 
     try {
       // Check if decorations are enabled
       if (!ConfigurationManager.isDecorationEnabled()) {
-        activeEditor.setDecorations(this.decorationType, []);
+        this.documentDecorations.delete(key);
+        editors.forEach(editor => editor.setDecorations(this.decorationType, []));
         return;
       }
 
       // Only process PowerShell files
-      if (activeEditor.document.languageId !== POWERSHELL_LANGUAGE_ID) {
+      if (document.languageId !== POWERSHELL_LANGUAGE_ID) {
         return;
       }
 
-      this.logger.debug(`Updating decorations for: ${activeEditor.document.uri.fsPath}`);
+      this.logger.debug(`Updating decorations for: ${document.uri.fsPath}`);
 
-      const localizationData = await this.getLocalizationData(activeEditor.document.uri.fsPath);
-      if (!localizationData || Object.keys(localizationData).length === 0) {
-        activeEditor.setDecorations(this.decorationType, []);
+      const calls = await this.localizationService.getLocalizedCalls(document.uri.fsPath);
+      if (!calls || calls.length === 0) {
+        this.documentDecorations.delete(key);
+        editors.forEach(editor => editor.setDecorations(this.decorationType, []));
         return;
       }
 
-      const decorations = this.createDecorations(activeEditor.document, localizationData);
-      activeEditor.setDecorations(this.decorationType, decorations);
+      const decorations = this.getDocumentDecorations(document, calls);
+      const generation = ++decorations.generation;
 
-      this.logger.debug(`Applied ${decorations.length} decorations`);
+      // Visible lines first, so what the user looks at is current right away
+      for (const range of editors.flatMap(editor => editor.visibleRanges)) {
+        this.computeLines(document, decorations, decorations.lines.getDirtyLines(range.start.line, range.end.line));
+      }
+      this.applyDecorations(document, decorations);
+
+      // Then the rest of the document, yielding between chunks to keep the editor responsive
+      let dirtyLines = decorations.lines.getDirtyLines();
+      while (dirtyLines.length > 0) {
+        await new Promise(resolve => setImmediate(resolve));
+        if (decorations.generation !== generation || this.documentDecorations.get(key) !== decorations) {
+          return;
+        }
+
+        this.computeLines(document, decorations, dirtyLines.slice(0, LocalizationDecorationProvider.BACKGROUND_CHUNK_SIZE));
+        dirtyLines = decorations.lines.getDirtyLines();
+        if (dirtyLines.length === 0) {
+          this.applyDecorations(document, decorations);
+        }
+      }
     } catch (error) {
       this.logger.error('Failed to update decorations', error as Error);
     }
   }
 
   /**
-   * Creates decorations for localization variables in the document
+   * Gets the decorations of a document, starting over when its calls, culture or line count changed
    */
-  private createDecorations(
-    document: vscode.TextDocument,
-    localizationData: LocalizationData
-  ): vscode.DecorationOptions[] {
-    const decorations: vscode.DecorationOptions[] = [];
-
-    // Get the binding variable names from localization data
-    const bindingVariableNames = Object.keys(localizationData);
-
-    if (bindingVariableNames.length === 0) {
-      return [];
+  private getDocumentDecorations(document: vscode.TextDocument, calls: LocalizationCall[]): DocumentDecorations {
+    const key = document.uri.toString();
+    const uiCulture = ConfigurationManager.getUICulture(document.uri);
+    const existing = this.documentDecorations.get(key);
+    if (existing && existing.calls === calls && existing.uiCulture === uiCulture && existing.lines.lineCount === document.lineCount) {
+      return existing;
     }
 
     // Create regex pattern that specifically matches the binding variables
-    const escapedVarNames = bindingVariableNames.map(name => name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
-    const bindingVarPattern = `\\$(${escapedVarNames.join('|')})(?:\\.([A-Za-z_][A-Za-z0-9_]*))?`;
-    const bindingVarRegex = new RegExp(bindingVarPattern, 'g');
-
-    for (let lineIndex = 0; lineIndex < document.lineCount; lineIndex++) {
-      const textLine = document.lineAt(lineIndex);
-      let match: RegExpExecArray | null;
-
-      // Reset regex lastIndex for each line
-      bindingVarRegex.lastIndex = 0;
-
-      while ((match = bindingVarRegex.exec(textLine.text)) !== null) {
-        const varName = match[1];
-        const propName = match[2];
-
-        let value: string | null = null;
-        let hintText = '';
-
-        if (propName) {
-          // Property access: $bindingVar.key
-          value = this.getPropertyValue(localizationData, varName, propName);
-          if (value !== null) {
-            hintText = `"${value}"`;
-          }
-        } else {
-          // Plain binding variable usage: $bindingVar
-          const varValue = this.getVariableValue(localizationData, varName);
-          if (varValue !== null) {
-            hintText = `{${varValue}}`;
-          }
-        }
-
-        if (hintText) {
-          const range = new vscode.Range(
-            lineIndex,
-            match.index + match[0].length,
-            lineIndex,
-            match.index + match[0].length
-          );
-
-          decorations.push({
-            range,
-            renderOptions: {
-              after: {
-                contentText: ` // ${hintText}`,
-                color: new vscode.ThemeColor('editorCodeLens.foreground')
-              }
-            }
-          });
-        }
-      }
-    }
-
+    const bindingVariableNames = [...new Set(calls.map(call => call.bindingVariable))];
+    const decorations: DocumentDecorations = {
+      calls,
+      uiCulture,
+      bindingVarRegex: Utils.createBindingVariableRegex(bindingVariableNames),
+      lines: new IncrementalLineCache(document.lineCount),
+      generation: existing?.generation ?? 0
+    };
+    this.documentDecorations.set(key, decorations);
     return decorations;
   }
 
   /**
-   * Gets localization data for the given file path, using cache when available
+   * Computes the decorations of the given lines
    */
-  private async getLocalizationData(filePath: string): Promise<LocalizationData | null> {
-    // Cache key should be the parent directory
-    const cacheKey = path.dirname(filePath);
-
-    // Check cache first
-    if (this.localizationCache.has(cacheKey)) {
-      this.logger.debug(`Using cached localization data for: ${cacheKey}`);
-      return this.localizationCache.get(cacheKey)!;
-    }
-
-    try {
-      // Find the module file that corresponds to this document
-      const modulePath = await this.findModuleForFile(filePath);
-      if (!modulePath) {
-        this.logger.warn(`No module found for file: ${filePath}`);
-        return null;
-      }
-
-      const localizationData = await this.powershellExecutor.parseLocalizationData(modulePath, ConfigurationManager.getUICulture());
-
-      // Cache the result
-      this.localizationCache.set(cacheKey, localizationData);
-
-      return localizationData;
-    } catch (error) {
-      this.logger.error(`Failed to get localization data for ${filePath}`, error as Error);
-      return null;
+  private computeLines(document: vscode.TextDocument, decorations: DocumentDecorations, lines: number[]): void {
+    for (const line of lines) {
+      decorations.lines.set(line, LocalizationDecorationProvider.createLineDecorations(
+        document.lineAt(line).text,
+        line,
+        decorations.calls,
+        decorations.bindingVarRegex,
+        document.uri.fsPath,
+        decorations.uiCulture
+      ));
     }
   }
 
   /**
-   * Finds the module file (.psm1) that corresponds to the given file
+   * Sets the computed decorations on every editor showing the document
    */
-  private async findModuleForFile(filePath: string): Promise<string | null> {
-    // For now, use the first .psm1 file found in the workspace
-    // This could be enhanced to find the specific module that relates to the current file
-    const psm1Files = await vscode.workspace.findFiles('**/*.psm1');
-
-    if (psm1Files.length === 0) {
-      this.logger.warn(`No PowerShell module files found in workspace for: ${filePath}`);
-      return null;
+  private applyDecorations(document: vscode.TextDocument, decorations: DocumentDecorations): void {
+    const options: vscode.DecorationOptions[] = [];
+    for (const [line, lineDecorations] of decorations.lines.entries()) {
+      for (const decoration of lineDecorations) {
+        options.push({
+          range: new vscode.Range(line, decoration.character, line, decoration.character),
+          renderOptions: {
+            after: {
+              contentText: decoration.contentText,
+              color: new vscode.ThemeColor('editorCodeLens.foreground')
+            }
+          }
+        });
+      }
     }
 
-    // Filter to only psm1 with Import-LocalizedData calls
-    const filteredPsm1Files = psm1Files.filter(file => {
-      const content = fs.readFileSync(file.fsPath, 'utf8');
-      return content.includes('Import-LocalizedData');
-    });
+    this.getVisibleEditors()
+      .filter(editor => editor.document === document)
+      .forEach(editor => editor.setDecorations(this.decorationType, options));
 
-    // Return the first module file for now
-    return filteredPsm1Files[0]?.fsPath || null;
+    this.logger.debug(`Applied ${options.length} decorations`);
   }
 
   /**
-   * Gets the value of a property from localization data
+   * Creates the decorations of one line
    */
-  private getPropertyValue(localizationData: LocalizationData, varName: string, propName: string): string | null {
-    const variable = localizationData[varName];
-    if (!variable || typeof variable !== 'object' || variable === null) {
-      return null;
-    }
+  public static createLineDecorations(
+    lineText: string,
+    line: number,
+    calls: LocalizationCall[],
+    bindingVarRegex: RegExp,
+    filePath: string,
+    uiCulture: string
+  ): LineDecoration[] {
+    const decorations: LineDecoration[] = [];
+
+    for (const match of Utils.findBindingVariableMatches(lineText, bindingVarRegex)) {
+      // The call whose scope encloses the usage supplies the data
+      const call = LocalizationService.selectCall(calls, match.variableName, filePath, line);
+
+      // Follow `$bindingVar.Key.Nested` or `$bindingVar['Key']` down to the value
+      const value = call?.data
+        ? Utils.resolvePropertyPath(call.data, match.path.map(segment => segment.name))
+        : undefined;
+      let hintText = this.getHintText(value);
+
+      // Name the culture that supplied the value when the current one fell back to another
+      if (hintText && typeof call?.culture === 'string' && call.culture !== uiCulture) {
+        hintText += ` (${CultureResolver.getDisplayName(call.culture)})`;
+      }
 
-    if (Object.prototype.hasOwnProperty.call(variable, propName)) {
-      return variable[propName];
+      if (hintText) {
+        decorations.push({ character: match.end, contentText: ` // ${hintText}` });
+      }
     }
 
-    return null;
+    return decorations;
   }
 
   /**
-   * Gets the value of a variable from localization data (shows all key-value pairs)
+   * Formats a value for the decoration, nothing for missing values and empty tables
    */
-  private getVariableValue(localizationData: LocalizationData, varName: string): string | null {
-    const variable = localizationData[varName];
-    if (!variable || typeof variable !== 'object' || variable === null) {
-      return null;
+  private static getHintText(value: DataFileValue | undefined): string {
+    if (value === undefined) {
+      return '';
     }
-
-    // Show all key-value pairs for this variable as a string
-    const entries = Object.entries(variable);
-    if (entries.length === 0) {
-      return null;
+    if (value !== null && typeof value === 'object' && Object.keys(value).length === 0) {
+      return '';
     }
-
-    // Limit the display to avoid clutter
-    const maxEntries = 3;
-    const displayEntries = entries.slice(0, maxEntries);
-    const result = displayEntries.map(([k, v]) => `${k}: "${v}"`).join(', ');
-
-    if (entries.length > maxEntries) {
-      return `${result}, ...${entries.length - maxEntries} more`;
-    }
-
-    return result;
+    return Utils.formatLocalizationValue(value);
   }
 
   /**
    * Clears the localization cache
    */
   public clearCache(): void {
-    this.localizationCache.clear();
-    this.logger.debug('Localization cache cleared');
-    this.triggerUpdateDecorations();
+    this.localizationService.clearCache();
+    this.documentDecorations.clear();
+    this.triggerUpdateAll();
   }
 
   /**
-   * Clears cache for a specific file
+   * Clears the cache entries computed from a file, refreshing when any was evicted
    */
-  public clearCacheForFile(filePath: string): void {
-    this.localizationCache.delete(filePath);
-    this.logger.debug(`Cleared cache for file: ${filePath}`);
-    this.triggerUpdateDecorations();
+  public async clearCacheForFile(filePath: string): Promise<number> {
+    const evicted = await this.localizationService.clearCacheForFile(filePath);
+    if (evicted > 0) {
+      this.triggerUpdateAll();
+    }
+    return evicted;
   }
 
   /**
    * Disposes of all resources
    */
   public dispose(): void {
-    if (this.timeout) {
-      clearTimeout(this.timeout);
-    }
+    this.timeouts.forEach(timeout => clearTimeout(timeout));
+    this.timeouts.clear();
+    this.documentDecorations.clear();
 
     this.disposables.forEach(disposable => disposable.dispose());
     this.decorationType.dispose();
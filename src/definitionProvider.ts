@@ -0,0 +1,43 @@
+import * as vscode from 'vscode';
+import { Logger } from './logger';
+import { LocalizationService } from './localizationService';
+
+/**
+ * Provides Go to Definition from `$BindingVariable.Key` to the key in each culture data file
+ */
+export class LocalizationDefinitionProvider implements vscode.DefinitionProvider {
+  private logger: Logger;
+
+  constructor(private localizationService: LocalizationService) {
+    this.logger = Logger.getInstance();
+    this.logger.info('LocalizationDefinitionProvider initialized');
+  }
+
+  /**
+   * Provides the locations of the key under the cursor in every culture that defines it
+   */
+  public async provideDefinition(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    token: vscode.CancellationToken
+  ): Promise<vscode.Location[] | undefined> {
+    try {
+      const target = await this.localizationService.findKeyAt(document, position);
+      if (!target || token.isCancellationRequested) {
+        return undefined;
+      }
+
+      const definitions = await this.localizationService.getKeyDefinitions(target.sources, target.key);
+      this.logger.debug(`Found ${definitions.length} definition(s) for key ${target.key}`);
+
+      return definitions.map(definition => {
+        const start = new vscode.Position(definition.line, definition.character);
+        const end = start.translate(0, target.key.length);
+        return new vscode.Location(vscode.Uri.file(definition.filePath), new vscode.Range(start, end));
+      });
+    } catch (error) {
+      this.logger.error('Failed to provide localization definition', error as Error);
+      return undefined;
+    }
+  }
+}
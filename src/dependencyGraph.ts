@@ -0,0 +1,75 @@
+import * as path from 'path';
+
+/**
+ * Tracks the files each localization cache entry was computed from
+ *
+ * A change to a file affects the entries that read it, and the creation or
+ * deletion of a folder affects the entries that read anything inside it, such
+ * as a new culture folder or a deleted module.
+ */
+export class LocalizationDependencyGraph {
+  private dependencies: Map<string, Set<string>> = new Map();
+  private dependents: Map<string, Set<string>> = new Map();
+
+  /**
+   * Records the files an entry depends on, replacing its previous dependencies
+   */
+  public setDependencies(key: string, filePaths: string[]): void {
+    this.removeEntry(key);
+
+    const normalizedPaths = new Set(filePaths.map(filePath => LocalizationDependencyGraph.normalize(filePath)));
+    this.dependencies.set(key, normalizedPaths);
+    for (const filePath of normalizedPaths) {
+      if (!this.dependents.has(filePath)) {
+        this.dependents.set(filePath, new Set());
+      }
+      this.dependents.get(filePath)!.add(key);
+    }
+  }
+
+  /**
+   * Forgets an entry and its dependencies
+   */
+  public removeEntry(key: string): void {
+    for (const filePath of this.dependencies.get(key) ?? []) {
+      const keys = this.dependents.get(filePath);
+      keys?.delete(key);
+      if (keys?.size === 0) {
+        this.dependents.delete(filePath);
+      }
+    }
+    this.dependencies.delete(key);
+  }
+
+  /**
+   * Gets the entries depending on a file, or on any file inside a folder
+   */
+  public getDependents(changedPath: string): string[] {
+    const normalizedPath = LocalizationDependencyGraph.normalize(changedPath);
+    const folderPrefix = normalizedPath.endsWith(path.sep) ? normalizedPath : normalizedPath + path.sep;
+
+    const keys = new Set<string>();
+    for (const [filePath, dependents] of this.dependents) {
+      if (filePath === normalizedPath || filePath.startsWith(folderPrefix)) {
+        dependents.forEach(key => keys.add(key));
+      }
+    }
+    return [...keys];
+  }
+
+  /**
+   * Forgets every entry
+   */
+  public clear(): void {
+    this.dependencies.clear();
+    this.dependents.clear();
+  }
+
+  /**
+   * Normalizes a path for comparison, ignoring case where the file system does
+   */
+  private static normalize(filePath: string): string {
+    const resolved = path.resolve(filePath);
+    return process.platform === 'win32' ? resolved.toLowerCase() : resolved;
+  }
+}
@@ -0,0 +1,272 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { Logger } from './logger';
+import { ConfigurationManager } from './configuration';
+import { LocalizationService } from './localizationService';
+import { FormatStringAnalyzer } from './formatStringAnalyzer';
+import { CultureResolver } from './cultureResolver';
+import { BindingVariableMatch, FormatStringUsage, LocalizationCall } from './types';
+import {
+  DOCUMENT_CHANGE_DEBOUNCE_MS,
+  EXTENSION_NAME,
+  POWERSHELL_LANGUAGE_ID,
+  Utils
+} from './utils';
+
+/**
+ * Reports `$BindingVariable.Key` usages whose key is missing from the culture data files
+ *
+ * Keys missing from the default culture are errors, keys missing from any other
+ * culture that ships a data file are warnings. Values used as format strings are
+ * checked in every culture against the number of arguments passed.
+ */
+export class LocalizationDiagnosticsProvider {
+  private logger: Logger;
+  private diagnosticCollection: vscode.DiagnosticCollection;
+  private disposables: vscode.Disposable[] = [];
+  private timeouts: Map<string, NodeJS.Timeout> = new Map();
+
+  constructor(private localizationService: LocalizationService) {
+    this.logger = Logger.getInstance();
+    this.diagnosticCollection = vscode.languages.createDiagnosticCollection('powershellLocalization');
+    this.logger.info('LocalizationDiagnosticsProvider initialized');
+  }
+
+  /**
+   * Activates the diagnostics provider
+   */
+  public activate(): void {
+    this.disposables.push(
+      vscode.workspace.onDidOpenTextDocument((document) => {
+        this.triggerUpdateDiagnostics(document);
+      })
+    );
+
+    // Listen to document changes, using the same debounce as decorations
+    this.disposables.push(
+      vscode.workspace.onDidChangeTextDocument((event) => {
+        this.triggerUpdateDiagnostics(event.document);
+      })
+    );
+
+    this.disposables.push(
+      vscode.workspace.onDidCloseTextDocument((document) => {
+        this.diagnosticCollection.delete(document.uri);
+      })
+    );
+
+    this.refreshAll();
+  }
+
+  /**
+   * Recomputes diagnostics for every open PowerShell document
+   */
+  public refreshAll(): void {
+    vscode.workspace.textDocuments.forEach(document => this.triggerUpdateDiagnostics(document));
+  }
+
+  /**
+   * Triggers a diagnostics update for a document with debouncing
+   */
+  private triggerUpdateDiagnostics(document: vscode.TextDocument): void {
+    if (document.languageId !== POWERSHELL_LANGUAGE_ID || Utils.isPowerShellDataFile(document.uri.fsPath)) {
+      return;
+    }
+
+    const key = document.uri.toString();
+    const timeout = this.timeouts.get(key);
+    if (timeout) {
+      clearTimeout(timeout);
+    }
+
+    this.timeouts.set(key, setTimeout(() => {
+      this.timeouts.delete(key);
+      this.updateDiagnostics(document);
+    }, DOCUMENT_CHANGE_DEBOUNCE_MS));
+  }
+
+  /**
+   * Updates diagnostics for a document
+   */
+  private async updateDiagnostics(document: vscode.TextDocument): Promise<void> {
+    try {
+      if (!ConfigurationManager.isDiagnosticsEnabled() || document.isClosed) {
+        this.diagnosticCollection.delete(document.uri);
+        return;
+      }
+
+      const diagnostics = await this.createDiagnostics(document);
+      this.diagnosticCollection.set(document.uri, diagnostics);
+
+      this.logger.debug(`Reported ${diagnostics.length} localization diagnostic(s) for: ${document.uri.fsPath}`);
+    } catch (error) {
+      this.logger.error('Failed to update localization diagnostics', error as Error);
+    }
+  }
+
+  /**
+   * Creates diagnostics for every usage of a key that is missing from a culture
+   */
+  public async createDiagnostics(document: vscode.TextDocument): Promise<vscode.Diagnostic[]> {
+    const calls = await this.localizationService.getLocalizationCalls(document.uri.fsPath);
+    if (!calls || calls.length === 0) {
+      return [];
+    }
+
+    const defaultCulture = ConfigurationManager.getDefaultCulture(document.uri);
+    // Calls in different scopes may bind the same variable, so the data file is picked per usage line
+    const cultureKeysByDataFile = new Map<string, Map<string, Set<string>>>();
+    const diagnostics: vscode.Diagnostic[] = [];
+    const callsByCulture = new Map<string, LocalizationCall[]>();
+    const bindingVarRegex = Utils.createBindingVariableRegex([...new Set(calls.map(call => call.bindingVariable))]);
+
+    for (let lineIndex = 0; lineIndex < document.lineCount; lineIndex++) {
+      const textLine = document.lineAt(lineIndex);
+
+      for (const match of Utils.findBindingVariableMatches(textLine.text, bindingVarRegex)) {
+        if (!match.key || match.keyStart === undefined || match.keyEnd === undefined) {
+          continue;
+        }
+
+        const call = LocalizationService.selectCall(calls, match.variableName, document.uri.fsPath, lineIndex)!;
+        const dataFileKey = path.join(call.baseDirectory, call.fileName);
+        let cultureKeys = cultureKeysByDataFile.get(dataFileKey);
+        if (!cultureKeys) {
+          cultureKeys = LocalizationDiagnosticsProvider.toLowerCaseKeys(await this.localizationService.getCultureKeys(call));
+          cultureKeysByDataFile.set(dataFileKey, cultureKeys);
+        }
+        if (cultureKeys.size === 0) {
+          continue;
+        }
+
+        const range = new vscode.Range(lineIndex, match.keyStart, lineIndex, match.keyEnd);
+        const defaultKeys = cultureKeys.get(defaultCulture);
+        const key = match.key.toLowerCase();
+
+        if (defaultKeys && !defaultKeys.has(key)) {
+          diagnostics.push(this.createDiagnostic(
+            range,
+            `Localization key '${match.key}' is not defined in the default culture (${defaultCulture}) for $${match.variableName}.`,
+            vscode.DiagnosticSeverity.Error
+          ));
+          continue;
+        }
+
+        const missingCultures = [...cultureKeys.entries()]
+          .filter(([culture, keys]) => culture !== defaultCulture && !keys.has(key))
+          .map(([culture]) => CultureResolver.getDisplayName(culture));
+
+        if (missingCultures.length > 0) {
+          diagnostics.push(this.createDiagnostic(
+            range,
+            `Localization key '${match.key}' is missing from culture(s): ${missingCultures.join(', ')}.`,
+            vscode.DiagnosticSeverity.Warning
+          ));
+        }
+
+        const usage = FormatStringAnalyzer.findUsage(textLine.text, match);
+        if (usage && !usage.spread) {
+          const diagnostic = await this.createFormatDiagnostic(
+            document, lineIndex, match, usage, [...cultureKeys.keys()], callsByCulture
+          );
+          if (diagnostic) {
+            diagnostics.push(diagnostic);
+          }
+        }
+      }
+    }
+
+    return diagnostics;
+  }
+
+  /**
+   * Lowercases the keys of each culture, since PowerShell looks keys up ignoring case
+   */
+  private static toLowerCaseKeys(cultureKeys: Map<string, Set<string>>): Map<string, Set<string>> {
+    return new Map([...cultureKeys].map(([culture, keys]) => [culture, new Set([...keys].map(key => key.toLowerCase()))]));
+  }
+
+  /**
+   * Creates a diagnostic when the format arguments do not match the placeholders of any culture
+   *
+   * Too few arguments make the format fail at runtime and are errors, too many mean a
+   * translation dropped a placeholder and are warnings.
+   */
+  private async createFormatDiagnostic(
+    document: vscode.TextDocument,
+    line: number,
+    match: BindingVariableMatch,
+    usage: FormatStringUsage,
+    cultures: string[],
+    callsByCulture: Map<string, LocalizationCall[]>
+  ): Promise<vscode.Diagnostic | undefined> {
+    const mismatches: string[] = [];
+    let severity = vscode.DiagnosticSeverity.Warning;
+
+    for (const culture of cultures.sort()) {
+      let calls = callsByCulture.get(culture);
+      if (!calls) {
+        calls = await this.localizationService.getLocalizedCalls(document.uri.fsPath, culture) ?? [];
+        callsByCulture.set(culture, calls);
+      }
+
+      // Only the culture's own data file counts, fallbacks are checked under their own culture
+      const call = LocalizationService.selectCall(calls, match.variableName, document.uri.fsPath, line);
+      if (call?.culture !== culture) {
+        continue;
+      }
+
+      const value = Utils.resolvePropertyPath(call.data ?? undefined, match.path.map(segment => segment.name));
+      if (typeof value !== 'string') {
+        continue;
+      }
+
+      const expected = FormatStringAnalyzer.getExpectedArgumentCount(value);
+      if (expected !== usage.args.length) {
+        mismatches.push(`${expected} in ${culture}`);
+        if (expected > usage.args.length) {
+          severity = vscode.DiagnosticSeverity.Error;
+        }
+      }
+    }
+
+    if (mismatches.length === 0) {
+      return undefined;
+    }
+
+    const keyPath = match.path.map(segment => segment.name).join('.');
+    return this.createDiagnostic(
+      new vscode.Range(line, match.keyStart!, line, match.end),
+      `Localization key '${keyPath}' is formatted with ${usage.args.length} argument(s) but expects ${mismatches.join(', ')}.`,
+      severity,
+      'formatArguments'
+    );
+  }
+
+  /**
+   * Creates a diagnostic attributed to this extension
+   */
+  private createDiagnostic(
+    range: vscode.Range,
+    message: string,
+    severity: vscode.DiagnosticSeverity,
+    code: string = 'missingKey'
+  ): vscode.Diagnostic {
+    const diagnostic = new vscode.Diagnostic(range, message, severity);
+    diagnostic.source = EXTENSION_NAME;
+    diagnostic.code = code;
+    return diagnostic;
+  }
+
+  /**
+   * Disposes of all resources
+   */
+  public dispose(): void {
+    this.timeouts.forEach(timeout => clearTimeout(timeout));
+    this.timeouts.clear();
+
+    this.disposables.forEach(disposable => disposable.dispose());
+    this.diagnosticCollection.dispose();
+    this.logger.debug('LocalizationDiagnosticsProvider disposed');
+  }
+}
@@ -4,7 +4,28 @@ import { ConfigurationManager } from './configuration';
 import { PowerShellModuleScanner } from './moduleScanner';
 import { PowerShellExecutor } from './powershellExecutor';
 import { LocalizationDecorationProvider } from './decorationProvider';
-import { POWERSHELL_LANGUAGE_ID, POWERSHELL_MODULE_EXTENSION, POWERSHELL_DATA_EXTENSION } from './utils';
+import { LocalizationService } from './localizationService';
+import { LocalizationDiskCache } from './localizationDiskCache';
+import { LocalizationDefinitionProvider } from './definitionProvider';
+import { LocalizationReferenceProvider } from './referenceProvider';
+import { LocalizationRenameProvider } from './renameProvider';
+import { LocalizationDiagnosticsProvider } from './diagnosticsProvider';
+import { LocalizationParityChecker } from './parityChecker';
+import { LocalizationUnusedKeysProvider } from './unusedKeysProvider';
+import { LocalizationHoverProvider } from './hoverProvider';
+import { LocalizationCompletionProvider } from './completionProvider';
+import { LocalizationExtractStringProvider } from './extractStringProvider';
+import { LocalizationExplorerNode, LocalizationExplorerProvider } from './localizationExplorer';
+import { TranslationGridEditorProvider } from './translationGridEditor';
+import { LocalizationCultureStatusBar } from './cultureStatusBar';
+import { LocalizationCultureScaffolder } from './cultureScaffolder';
+import {
+  POWERSHELL_DATA_EXTENSION,
+  POWERSHELL_LANGUAGE_ID,
+  POWERSHELL_MODULE_EXTENSION,
+  POWERSHELL_SCRIPT_EXTENSION,
+  Utils
+} from './utils';
 
 /**
  * Main extension manager that coordinates all components
@@ -13,14 +34,55 @@ export class ExtensionManager {
   private logger: Logger;
   private moduleScanner: PowerShellModuleScanner;
   private powershellExecutor: PowerShellExecutor;
+  private localizationService: LocalizationService;
   private decorationProvider: LocalizationDecorationProvider;
+  private definitionProvider: LocalizationDefinitionProvider;
+  private referenceProvider: LocalizationReferenceProvider;
+  private renameProvider: LocalizationRenameProvider;
+  private diagnosticsProvider: LocalizationDiagnosticsProvider;
+  private parityChecker: LocalizationParityChecker;
+  private unusedKeysProvider: LocalizationUnusedKeysProvider;
+  private hoverProvider: LocalizationHoverProvider;
+  private completionProvider: LocalizationCompletionProvider;
+  private extractStringProvider: LocalizationExtractStringProvider;
+  private localizationExplorer: LocalizationExplorerProvider;
+  private translationGridEditor: TranslationGridEditorProvider;
+  private cultureStatusBar: LocalizationCultureStatusBar;
+  private cultureScaffolder: LocalizationCultureScaffolder;
   private disposables: vscode.Disposable[] = [];
 
   constructor(private context: vscode.ExtensionContext) {
     this.logger = Logger.getInstance();
     this.moduleScanner = new PowerShellModuleScanner();
     this.powershellExecutor = new PowerShellExecutor();
-    this.decorationProvider = new LocalizationDecorationProvider();
+    // The service shares the executor so a single PowerShell host serves the extension
+    // Parsed results are persisted in the workspace storage, when a workspace is open
+    this.localizationService = new LocalizationService(
+      this.powershellExecutor,
+      context.storageUri ? new LocalizationDiskCache(context.storageUri.fsPath) : undefined
+    );
+    this.decorationProvider = new LocalizationDecorationProvider(this.localizationService);
+    this.definitionProvider = new LocalizationDefinitionProvider(this.localizationService);
+    this.referenceProvider = new LocalizationReferenceProvider(this.localizationService);
+    this.renameProvider = new LocalizationRenameProvider(this.localizationService);
+    this.diagnosticsProvider = new LocalizationDiagnosticsProvider(this.localizationService);
+    this.parityChecker = new LocalizationParityChecker(this.localizationService, this.moduleScanner);
+    this.unusedKeysProvider = new LocalizationUnusedKeysProvider(this.localizationService);
+    this.hoverProvider = new LocalizationHoverProvider(this.localizationService);
+    this.completionProvider = new LocalizationCompletionProvider(this.localizationService);
+    this.extractStringProvider = new LocalizationExtractStringProvider(this.localizationService);
+    this.localizationExplorer = new LocalizationExplorerProvider(
+      this.localizationService,
+      this.moduleScanner,
+      this.extractStringProvider
+    );
+    this.translationGridEditor = new TranslationGridEditorProvider(
+      context.extensionUri,
+      this.localizationService,
+      this.extractStringProvider
+    );
+    this.cultureStatusBar = new LocalizationCultureStatusBar(this.localizationService);
+    this.cultureScaffolder = new LocalizationCultureScaffolder(this.localizationService, this.moduleScanner);
   }
 
   /**
@@ -30,14 +92,14 @@ export class ExtensionManager {
     this.logger.info('PowerShell Localization extension starting...');
 
     try {
-      // Check if PowerShell is available
-      const isPowerShellAvailable = await this.powershellExecutor.isPowerShellAvailable();
-      if (!isPowerShellAvailable) {
-        this.logger.error('PowerShell is not available on this system');
-        vscode.window.showErrorMessage(
-          'PowerShell Localization: PowerShell (pwsh) is not available. Please install PowerShell Core.'
-        );
-        return;
+      // PowerShell is only needed for calls and data files the native parsers cannot read,
+      // so the host starts in the background and the extension works without it
+      if (ConfigurationManager.isPowerShellFallbackEnabled()) {
+        void this.powershellExecutor.isPowerShellAvailable().then(isPowerShellAvailable => {
+          if (!isPowerShellAvailable) {
+            this.logger.warn('PowerShell is not available, only localization the native parsers can read is shown');
+          }
+        });
       }
 
       // Scan for modules with localization
@@ -51,6 +113,21 @@ export class ExtensionManager {
       // Register the decoration provider
       await this.registerDecorationProvider();
 
+      // Register language feature providers
+      this.registerLanguageProviders();
+
+      // Register the diagnostics provider
+      this.registerDiagnosticsProvider();
+
+      // Register the Localization Explorer view
+      this.registerLocalizationExplorer();
+
+      // Register the translation grid editor
+      this.registerTranslationGridEditor();
+
+      // Show the UI culture in the status bar
+      this.registerCultureStatusBar();
+
       // Set up configuration change listener
       this.setupConfigurationListener();
 
@@ -81,11 +158,105 @@ export class ExtensionManager {
     }
 
     this.decorationProvider.activate();
-    this.disposables.push(this.decorationProvider);
+    if (!this.disposables.includes(this.decorationProvider)) {
+      this.disposables.push(this.decorationProvider);
+    }
 
     this.logger.info('Registered PowerShell decoration provider');
   }
 
+  /**
+   * Registers language feature providers for PowerShell files
+   */
+  private registerLanguageProviders(): void {
+    const selector: vscode.DocumentSelector = { language: POWERSHELL_LANGUAGE_ID };
+
+    const definitionDisposable = vscode.languages.registerDefinitionProvider(selector, this.definitionProvider);
+    const referenceDisposable = vscode.languages.registerReferenceProvider(selector, this.referenceProvider);
+    const renameDisposable = vscode.languages.registerRenameProvider(selector, this.renameProvider);
+    const hoverDisposable = vscode.languages.registerHoverProvider(selector, this.hoverProvider);
+    const completionDisposable = vscode.languages.registerCompletionItemProvider(
+      selector,
+      this.completionProvider,
+      ...LocalizationCompletionProvider.triggerCharacters
+    );
+    const codeActionDisposable = vscode.languages.registerCodeActionsProvider(selector, this.unusedKeysProvider, {
+      providedCodeActionKinds: LocalizationUnusedKeysProvider.providedCodeActionKinds
+    });
+    const extractStringDisposable = vscode.languages.registerCodeActionsProvider(selector, this.extractStringProvider, {
+      providedCodeActionKinds: LocalizationExtractStringProvider.providedCodeActionKinds
+    });
+
+    const providerDisposables = [
+      definitionDisposable,
+      referenceDisposable,
+      renameDisposable,
+      hoverDisposable,
+      completionDisposable,
+      codeActionDisposable,
+      extractStringDisposable
+    ];
+    this.disposables.push(...providerDisposables);
+    this.context.subscriptions.push(...providerDisposables);
+
+    this.logger.info('Registered PowerShell language feature providers');
+  }
+
+  /**
+   * Registers the diagnostics providers for missing and unused localization keys
+   */
+  private registerDiagnosticsProvider(): void {
+    this.diagnosticsProvider.activate();
+    this.unusedKeysProvider.activate();
+    this.parityChecker.activate();
+    this.disposables.push(this.diagnosticsProvider, this.unusedKeysProvider);
+
+    this.logger.info('Registered localization diagnostics provider');
+  }
+
+  /**
+   * Registers the Localization Explorer tree view
+   */
+  private registerLocalizationExplorer(): void {
+    const treeView = vscode.window.createTreeView(LocalizationExplorerProvider.VIEW_ID, {
+      treeDataProvider: this.localizationExplorer,
+      showCollapseAll: true
+    });
+
+    this.disposables.push(treeView, this.localizationExplorer);
+    this.context.subscriptions.push(treeView);
+
+    // The view is only shown once a module with localization was found
+    vscode.commands.executeCommand('setContext', 'powershellLocalization.active', true);
+
+    this.logger.info('Registered Localization Explorer view');
+  }
+
+  /**
+   * Registers the translation grid as an optional editor of culture data files
+   */
+  private registerTranslationGridEditor(): void {
+    const disposable = vscode.window.registerCustomEditorProvider(
+      TranslationGridEditorProvider.VIEW_TYPE,
+      this.translationGridEditor
+    );
+
+    this.disposables.push(disposable);
+    this.context.subscriptions.push(disposable);
+
+    this.logger.info('Registered translation grid editor');
+  }
+
+  /**
+   * Registers the status bar item showing and switching the UI culture
+   */
+  private registerCultureStatusBar(): void {
+    this.cultureStatusBar.activate();
+    this.disposables.push(this.cultureStatusBar);
+
+    this.logger.info('Registered UI culture status bar item');
+  }
+
   /**
    * Sets up configuration change listener
    */
@@ -100,69 +271,134 @@ export class ExtensionManager {
   }
 
   /**
-   * Sets up file system watchers for PowerShell files
+   * Sets up file system watchers for PowerShell files and the folders around them
    */
   private setupFileSystemWatchers(): void {
-    // Watch for changes to .psm1 files
-    const psm1Watcher = vscode.workspace.createFileSystemWatcher(`**/*(${POWERSHELL_MODULE_EXTENSION}|${POWERSHELL_LANGUAGE_ID})`);
+    // Module scripts, manifests and culture data files are edited in place
+    const sourceWatcher = vscode.workspace.createFileSystemWatcher(
+      `**/*{${POWERSHELL_MODULE_EXTENSION},${POWERSHELL_SCRIPT_EXTENSION},${POWERSHELL_DATA_EXTENSION}}`,
+      true,
+      false,
+      true
+    );
 
-    psm1Watcher.onDidChange((uri) => {
-      this.logger.debug(`PowerShell module file changed: ${uri.fsPath}`);
-      this.decorationProvider.clearCacheForFile(uri.fsPath);
+    sourceWatcher.onDidChange((uri) => {
+      this.logger.debug(`PowerShell file changed: ${uri.fsPath}`);
+      this.handleFileSystemChange(uri);
     });
 
-    psm1Watcher.onDidCreate((uri) => {
-      this.logger.debug(`PowerShell module file created: ${uri.fsPath}`);
-      this.handleModuleFileChange();
-    });
+    // Files and folders appearing or disappearing, such as a new culture folder or a deleted module
+    const treeWatcher = vscode.workspace.createFileSystemWatcher('**/*', false, true, false);
 
-    psm1Watcher.onDidDelete((uri) => {
-      this.logger.debug(`PowerShell module file deleted: ${uri.fsPath}`);
-      this.decorationProvider.clearCacheForFile(uri.fsPath);
+    treeWatcher.onDidCreate((uri) => {
+      this.logger.debug(`File or folder created: ${uri.fsPath}`);
+      this.handleFileSystemChange(uri);
+      if (Utils.isPowerShellModule(uri.fsPath)) {
+        this.handleModuleFileChange();
+      }
     });
 
-    // Watch for changes to localization files (.psd1)
-    const psd1Watcher = vscode.workspace.createFileSystemWatcher(`**/*${POWERSHELL_DATA_EXTENSION}`);
-
-    psd1Watcher.onDidChange((uri) => {
-      this.logger.debug(`Localization file changed: ${uri.fsPath}`);
-      this.decorationProvider.clearCache();
+    treeWatcher.onDidDelete((uri) => {
+      this.logger.debug(`File or folder deleted: ${uri.fsPath}`);
+      this.handleFileSystemChange(uri);
     });
 
-    this.disposables.push(psm1Watcher, psd1Watcher);
-    this.context.subscriptions.push(psm1Watcher, psd1Watcher);
+    this.disposables.push(sourceWatcher, treeWatcher);
+    this.context.subscriptions.push(sourceWatcher, treeWatcher);
   }
 
   /**
    * Registers command palette commands
    */
   private registerCommands(): void {
-    // Register switch UI culture command
+    // Register switch UI culture command, also run by the status bar item
     const switchCommand = vscode.commands.registerCommand(
-      'powershellLocalization.switchUICulture',
+      LocalizationCultureStatusBar.SWITCH_UI_CULTURE_COMMAND,
       async () => {
         await this.handleSwitchUICulture();
       }
     );
 
-    // Register set to en-US command
-    const setEnUsCommand = vscode.commands.registerCommand(
-      'powershellLocalization.setUICultureToEnUs',
+    // Register set to a given culture command, used by the hover links
+    const setCultureCommand = vscode.commands.registerCommand(
+      LocalizationHoverProvider.SET_UI_CULTURE_COMMAND,
+      async (culture?: string, resource?: string) => {
+        if (culture) {
+          await this.handleSetUICulture(culture, resource ? vscode.Uri.parse(resource) : undefined);
+        } else {
+          await this.handleSwitchUICulture();
+        }
+      }
+    );
+
+    // Register extract string command, used by the extract code actions
+    const extractStringCommand = vscode.commands.registerCommand(
+      LocalizationExtractStringProvider.EXTRACT_STRING_COMMAND,
+      async (uri: vscode.Uri, range: vscode.Range, stubAllCultures: boolean) => {
+        await this.extractStringProvider.extractString(uri, range, stubAllCultures);
+      }
+    );
+
+    // Register parity report command
+    const parityReportCommand = vscode.commands.registerCommand(
+      'powershellLocalization.showParityReport',
       async () => {
-        await this.handleSetUICulture('en-US');
+        await this.handleShowParityReport();
       }
     );
 
-    // Register set to fr-FR command
-    const setFrFrCommand = vscode.commands.registerCommand(
-      'powershellLocalization.setUICultureToFrFr',
+    // Register clear cache command
+    const clearCacheCommand = vscode.commands.registerCommand(
+      'powershellLocalization.clearCache',
       async () => {
-        await this.handleSetUICulture('fr-FR');
+        await this.handleClearCache();
+      }
+    );
+
+    // Register the Localization Explorer commands
+    const explorerCommands = [
+      vscode.commands.registerCommand(LocalizationExplorerProvider.REFRESH_COMMAND, () => {
+        this.localizationExplorer.refresh();
+      }),
+      vscode.commands.registerCommand(LocalizationExplorerProvider.FIND_USAGES_COMMAND, async (node) => {
+        await this.localizationExplorer.findUsages(node);
+      }),
+      vscode.commands.registerCommand(LocalizationExplorerProvider.COPY_KEY_COMMAND, async (node) => {
+        await this.localizationExplorer.copyKey(node);
+      }),
+      vscode.commands.registerCommand(LocalizationExplorerProvider.ADD_MISSING_TRANSLATIONS_COMMAND, async (node) => {
+        await this.localizationExplorer.addMissingTranslations(node);
+      })
+    ];
+
+    // Register open translation grid command, also used by the data file context menus
+    const openTranslationGridCommand = vscode.commands.registerCommand(
+      TranslationGridEditorProvider.OPEN_COMMAND,
+      async (uri?: vscode.Uri) => {
+        await this.translationGridEditor.open(uri);
+      }
+    );
+
+    // Register add culture command, also offered on the module nodes of the Localization Explorer
+    const addCultureCommand = vscode.commands.registerCommand(
+      LocalizationCultureScaffolder.ADD_CULTURE_COMMAND,
+      async (node?: LocalizationExplorerNode) => {
+        await this.cultureScaffolder.addCulture(node?.kind === 'module' ? node.modulePath : undefined);
       }
     );
 
-    this.disposables.push(switchCommand, setEnUsCommand, setFrFrCommand);
-    this.context.subscriptions.push(switchCommand, setEnUsCommand, setFrFrCommand);
+    const commands = [
+      switchCommand,
+      setCultureCommand,
+      extractStringCommand,
+      parityReportCommand,
+      clearCacheCommand,
+      openTranslationGridCommand,
+      addCultureCommand,
+      ...explorerCommands
+    ];
+    this.disposables.push(...commands, this.parityChecker);
+    this.context.subscriptions.push(...commands);
 
     this.logger.info('Command palette commands registered');
   }
@@ -174,6 +410,10 @@ export class ExtensionManager {
     try {
       // Clear cache when configuration changes
       this.decorationProvider.clearCache();
+      this.diagnosticsProvider.refreshAll();
+      this.unusedKeysProvider.refreshAll();
+      this.localizationExplorer.refresh();
+      this.cultureStatusBar.update();
 
       // Re-register decoration provider if needed
       if (ConfigurationManager.isDecorationEnabled()) {
@@ -184,6 +424,24 @@ export class ExtensionManager {
     }
   }
 
+  /**
+   * Evicts the cache entries depending on a changed path and refreshes what shows them
+   */
+  private async handleFileSystemChange(uri: vscode.Uri): Promise<void> {
+    try {
+      const evicted = await this.decorationProvider.clearCacheForFile(uri.fsPath);
+
+      // Diagnostics also read the culture data files directly
+      if (evicted > 0 || Utils.isPowerShellDataFile(uri.fsPath)) {
+        this.diagnosticsProvider.refreshAll();
+        this.unusedKeysProvider.refreshAll();
+        this.localizationExplorer.refresh();
+      }
+    } catch (error) {
+      this.logger.error(`Failed to handle change of ${uri.fsPath}`, error as Error);
+    }
+  }
+
   /**
    * Handles module file changes
    */
@@ -201,25 +459,15 @@ export class ExtensionManager {
   }
 
   /**
-   * Handles switching UI culture via input box
+   * Handles switching UI culture via the culture picker, for the active PowerShell file
    */
   private async handleSwitchUICulture(): Promise<void> {
     try {
-      const currentCulture = ConfigurationManager.getUICulture();
-      const inputCulture = await vscode.window.showInputBox({
-        prompt: 'Enter UI Culture (e.g., en-US, fr-FR, de-DE)',
-        value: currentCulture,
-        validateInput: (value) => {
-          const culturePattern = /^[a-z]{2}(-[A-Z]{2})?$/;
-          if (!culturePattern.test(value)) {
-            return 'Invalid culture format. Use format like "en-US", "fr-FR", "de-DE"';
-          }
-          return null;
-        }
-      });
-
-      if (inputCulture && inputCulture !== currentCulture) {
-        await this.handleSetUICulture(inputCulture);
+      const filePath = this.cultureStatusBar.getActiveFilePath();
+      const resource = filePath ? vscode.Uri.file(filePath) : undefined;
+      const culture = await this.cultureStatusBar.pickCulture(resource);
+      if (culture && culture !== ConfigurationManager.getUICulture(resource)) {
+        await this.handleSetUICulture(culture, resource);
       }
     } catch (error) {
       this.logger.error('Failed to switch UI culture', error as Error);
@@ -228,29 +476,99 @@ export class ExtensionManager {
   }
 
   /**
-   * Handles setting UI culture to a specific value
+   * Handles setting UI culture to a specific value, where it applies to the given resource
    */
-  private async handleSetUICulture(culture: string): Promise<void> {
+  private async handleSetUICulture(culture: string, resource?: vscode.Uri): Promise<void> {
     try {
-      const currentCulture = ConfigurationManager.getUICulture();
+      const currentCulture = ConfigurationManager.getUICulture(resource);
       if (culture === currentCulture) {
         vscode.window.showInformationMessage(`UI Culture is already set to ${culture}`);
         return;
       }
 
-      await ConfigurationManager.setUICulture(culture);
-      
+      const target = await ConfigurationManager.setUICulture(culture, resource);
+
       // Clear the cache since culture has changed
       this.decorationProvider.clearCache();
-      
-      vscode.window.showInformationMessage(`UI Culture changed to ${culture}`);
-      this.logger.info(`UI Culture changed from ${currentCulture} to ${culture}`);
+
+      const scope = this.getScopeName(target, resource);
+      vscode.window.showInformationMessage(`UI Culture changed to ${culture} in the ${scope}`);
+      this.logger.info(`UI Culture changed from ${currentCulture} to ${culture} in the ${scope}`);
     } catch (error) {
       this.logger.error(`Failed to set UI culture to ${culture}`, error as Error);
       vscode.window.showErrorMessage(`Failed to set UI culture: ${(error as Error).message}`);
     }
   }
 
+  /**
+   * Describes where a setting was written
+   */
+  private getScopeName(target: vscode.ConfigurationTarget, resource?: vscode.Uri): string {
+    switch (target) {
+      case vscode.ConfigurationTarget.Global:
+        return 'user settings';
+      case vscode.ConfigurationTarget.WorkspaceFolder: {
+        const workspaceFolder = resource ? vscode.workspace.getWorkspaceFolder(resource) : undefined;
+        return workspaceFolder ? `${workspaceFolder.name} folder settings` : 'folder settings';
+      }
+      default:
+        return 'workspace settings';
+    }
+  }
+
+  /**
+   * Handles building the cross-culture parity report
+   */
+  private async handleShowParityReport(): Promise<void> {
+    try {
+      const format = await vscode.window.showQuickPick(['Markdown', 'JSON'], {
+        placeHolder: 'Select the report format'
+      });
+      if (!format) {
+        return;
+      }
+
+      const report = await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: 'PowerShell Localization: Checking culture parity...'
+        },
+        () => this.parityChecker.checkWorkspace()
+      );
+
+      const document = await vscode.workspace.openTextDocument(
+        format === 'JSON'
+          ? { language: 'json', content: LocalizationParityChecker.toJson(report) }
+          : { language: 'markdown', content: LocalizationParityChecker.toMarkdown(report) }
+      );
+      await vscode.window.showTextDocument(document);
+    } catch (error) {
+      this.logger.error('Failed to build localization parity report', error as Error);
+      vscode.window.showErrorMessage(`Failed to build localization parity report: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Handles clearing the in-memory and persisted localization caches
+   */
+  private async handleClearCache(): Promise<void> {
+    try {
+      await this.localizationService.clearPersistentCache();
+
+      // Reparse everything shown for the open documents
+      this.decorationProvider.clearCache();
+      this.diagnosticsProvider.refreshAll();
+      this.unusedKeysProvider.refreshAll();
+      this.localizationExplorer.refresh();
+
+      vscode.window.showInformationMessage('PowerShell Localization: Cache cleared');
+      this.logger.info('Localization cache cleared');
+    } catch (error) {
+      this.logger.error('Failed to clear localization cache', error as Error);
+      vscode.window.showErrorMessage(`Failed to clear localization cache: ${(error as Error).message}`);
+    }
+  }
+
   /**
    * Disposes of all resources
    */
@@ -266,6 +584,7 @@ export class ExtensionManager {
     });
 
     this.disposables = [];
+    this.powershellExecutor.dispose();
     this.logger.dispose();
   }
 }
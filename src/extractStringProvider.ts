@@ -0,0 +1,440 @@
+import * as vscode from 'vscode';
+import { Logger } from './logger';
+import { ConfigurationManager } from './configuration';
+import { LocalizationService } from './localizationService';
+import { LocalizationKeyScanner } from './localizationKeyScanner';
+import {
+  CultureDataFile,
+  LocalizationDataSource,
+  LocalizationKeyInsertionPoint,
+  StringLiteral,
+  StringLiteralFormat
+} from './types';
+import { ESCAPE_SEQUENCES, REGEX_PATTERNS, Utils } from './utils';
+
+/**
+ * Offers to move a hard-coded string literal of a script into the culture data files
+ *
+ * The literal is replaced with `$BindingVariable.Key`, expandable strings becoming
+ * a `-f` format string whose placeholders receive the embedded variables.
+ */
+export class LocalizationExtractStringProvider implements vscode.CodeActionProvider {
+  public static readonly providedCodeActionKinds = [vscode.CodeActionKind.RefactorExtract];
+  public static readonly EXTRACT_STRING_COMMAND = 'powershellLocalization.extractString';
+
+  private logger: Logger;
+
+  constructor(private localizationService: LocalizationService) {
+    this.logger = Logger.getInstance();
+    this.logger.info('LocalizationExtractStringProvider initialized');
+  }
+
+  /**
+   * Provides the extract actions for the string literal under the cursor
+   */
+  public async provideCodeActions(
+    document: vscode.TextDocument,
+    range: vscode.Range | vscode.Selection
+  ): Promise<vscode.CodeAction[]> {
+    if (Utils.isPowerShellDataFile(document.uri.fsPath) || !range.isSingleLine) {
+      return [];
+    }
+
+    const literal = LocalizationExtractStringProvider.findStringLiteralAt(
+      document.lineAt(range.start.line).text,
+      range.start.character,
+      range.end.character
+    );
+    if (!literal || !/[A-Za-z]/.test(literal.content)) {
+      return [];
+    }
+
+    const dataSources = await this.localizationService.getDataSources(document.uri.fsPath, range.start.line);
+    if (!dataSources || Object.keys(dataSources).length === 0) {
+      return [];
+    }
+
+    const literalRange = new vscode.Range(range.start.line, literal.start, range.start.line, literal.end);
+    return [
+      this.createAction('Extract string to localization data', document, literalRange, false),
+      this.createAction('Extract string to localization data (stub all cultures)', document, literalRange, true)
+    ];
+  }
+
+  /**
+   * Prompts for a key, adds it to the culture data files and replaces the literal with the key
+   */
+  public async extractString(uri: vscode.Uri, range: vscode.Range, stubAllCultures: boolean): Promise<void> {
+    try {
+      const document = await vscode.workspace.openTextDocument(uri);
+      const literal = LocalizationExtractStringProvider.findStringLiteralAt(
+        document.lineAt(range.start.line).text,
+        range.start.character,
+        range.end.character
+      );
+      const dataSources = await this.localizationService.getDataSources(uri.fsPath, range.start.line);
+      if (!literal || !dataSources) {
+        return;
+      }
+
+      const variableName = await this.pickBindingVariable(Object.keys(dataSources));
+      if (!variableName) {
+        return;
+      }
+
+      const defaultCulture = ConfigurationManager.getDefaultCulture(uri);
+      const source = dataSources[variableName];
+      const dataFiles = await this.localizationService.getCultureDataFiles(source);
+      const defaultDataFile = dataFiles.find(dataFile => dataFile.culture === defaultCulture);
+      if (!defaultDataFile) {
+        vscode.window.showErrorMessage(
+          `No ${defaultCulture} culture data file (${source.fileName}) was found for $${variableName}.`
+        );
+        return;
+      }
+
+      const format = LocalizationExtractStringProvider.toFormatString(literal);
+      const key = await this.promptForKey(source, format.value);
+      if (!key) {
+        return;
+      }
+
+      const edit = new vscode.WorkspaceEdit();
+      const todoPrefix = ConfigurationManager.getTodoPrefix(uri);
+      const targets = stubAllCultures ? dataFiles : [defaultDataFile];
+      for (const dataFile of targets) {
+        const value = dataFile === defaultDataFile ? format.value : `${todoPrefix}${format.value}`;
+        if (!await this.addEntry(edit, dataFile, key, value)) {
+          vscode.window.showErrorMessage(`Could not find where to add '${key}' in ${dataFile.filePath}.`);
+          return;
+        }
+      }
+
+      const usage = `$${variableName}.${key}`;
+      const replacement = format.args.length > 0 ? `(${usage} -f ${format.args.join(', ')})` : usage;
+      edit.replace(uri, new vscode.Range(range.start.line, literal.start, range.start.line, literal.end), replacement);
+
+      if (await vscode.workspace.applyEdit(edit)) {
+        this.logger.info(`Extracted string to key ${key} in ${targets.length} culture data file(s)`);
+      }
+    } catch (error) {
+      this.logger.error('Failed to extract string to localization data', error as Error);
+      vscode.window.showErrorMessage(`Failed to extract string: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Finds the string literal spanning the given character range of a line
+   */
+  public static findStringLiteralAt(lineText: string, startCharacter: number, endCharacter: number): StringLiteral | undefined {
+    let index = 0;
+
+    while (index < lineText.length) {
+      const char = lineText[index];
+
+      // The rest of the line is a comment
+      if (char === '#') {
+        return undefined;
+      }
+
+      if (char === '\'' || char === '"') {
+        const end = this.findLiteralEnd(lineText, index);
+        if (end === -1) {
+          return undefined;
+        }
+        if (startCharacter >= index && endCharacter <= end) {
+          return {
+            quote: char,
+            start: index,
+            end,
+            content: lineText.substring(index + 1, end - 1)
+          };
+        }
+        index = end;
+        continue;
+      }
+
+      index++;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Converts a string literal into a data file value and the `-f` arguments of its embedded expressions
+   */
+  public static toFormatString(literal: StringLiteral): StringLiteralFormat {
+    if (literal.quote === '\'') {
+      return { value: literal.content.replace(/''/g, '\''), args: [] };
+    }
+
+    const content = literal.content;
+    const args: string[] = [];
+    let value = '';
+    // Literal braces must be doubled once the value is a format string
+    let formatValue = '';
+    let index = 0;
+
+    while (index < content.length) {
+      const char = content[index];
+      const next = content[index + 1];
+
+      if (char === '`' && next !== undefined) {
+        const escaped = ESCAPE_SEQUENCES[next] ?? next;
+        value += escaped;
+        formatValue += escaped.replace(/[{}]/g, '$&$&');
+        index += 2;
+        continue;
+      }
+
+      if (char === '"' && next === '"') {
+        value += '"';
+        formatValue += '"';
+        index += 2;
+        continue;
+      }
+
+      if (char === '$') {
+        const expression = this.readExpression(content, index);
+        if (expression) {
+          let argIndex = args.indexOf(expression);
+          if (argIndex === -1) {
+            argIndex = args.push(expression) - 1;
+          }
+          formatValue += `{${argIndex}}`;
+          index += expression.length;
+          continue;
+        }
+      }
+
+      value += char;
+      formatValue += char === '{' || char === '}' ? char + char : char;
+      index++;
+    }
+
+    return { value: args.length > 0 ? formatValue : value, args };
+  }
+
+  /**
+   * Suggests a PascalCase key derived from the words of a text
+   * Existing keys are compared ignoring case, as PowerShell would treat them as the same key
+   */
+  public static suggestKey(text: string, existingKeys: Set<string> = new Set()): string {
+    const words = text
+      .replace(/\{\d+\}/g, ' ')
+      .split(/[^A-Za-z0-9]+/)
+      .filter(word => word.length > 0)
+      .slice(0, 5)
+      .map(word => word[0].toUpperCase() + word.substring(1).toLowerCase());
+
+    let key = words.join('') || 'NewKey';
+    if (!/^[A-Za-z_]/.test(key)) {
+      key = `Message${key}`;
+    }
+
+    const takenKeys = new Set([...existingKeys].map(existingKey => existingKey.toLowerCase()));
+    let candidate = key;
+    for (let suffix = 2; takenKeys.has(candidate.toLowerCase()); suffix++) {
+      candidate = `${key}${suffix}`;
+    }
+    return candidate;
+  }
+
+  /**
+   * Formats a `Key = Value` entry for a data file
+   */
+  public static formatEntry(form: LocalizationKeyInsertionPoint['form'], key: string, value: string): string {
+    return `${key} = ${this.formatValue(form, value)}`;
+  }
+
+  /**
+   * Formats a value for a data file, as an expandable string when asked or when control characters require one
+   */
+  public static formatValue(form: LocalizationKeyInsertionPoint['form'], value: string, expandable: boolean = false): string {
+    if (form === 'stringData') {
+      // ConvertFrom-StringData unescapes its values like a regular expression replacement
+      return value
+        .replace(/\\/g, '\\\\')
+        .replace(/\r/g, '\\r')
+        .replace(/\n/g, '\\n')
+        .replace(/\t/g, '\\t');
+    }
+
+    // Control characters need an expandable string to survive
+    if (expandable || /[\x00-\x1f]/.test(value)) {
+      const escaped = value.replace(/[`"$]/g, '`$&').replace(/[\x00-\x1f]/g, char => {
+        const sequence = Object.entries(ESCAPE_SEQUENCES).find(([, escapedChar]) => escapedChar === char);
+        return sequence ? `\`${sequence[0]}` : `$([char]${char.charCodeAt(0)})`;
+      });
+      return `"${escaped}"`;
+    }
+    return `'${value.replace(/'/g, '\'\'')}'`;
+  }
+
+  /**
+   * Creates a code action running the extract command
+   */
+  private createAction(
+    title: string,
+    document: vscode.TextDocument,
+    range: vscode.Range,
+    stubAllCultures: boolean
+  ): vscode.CodeAction {
+    const action = new vscode.CodeAction(title, vscode.CodeActionKind.RefactorExtract);
+    action.command = {
+      title,
+      command: LocalizationExtractStringProvider.EXTRACT_STRING_COMMAND,
+      arguments: [document.uri, range, stubAllCultures]
+    };
+    return action;
+  }
+
+  /**
+   * Asks which binding variable receives the key when the module has several
+   */
+  private async pickBindingVariable(variableNames: string[]): Promise<string | undefined> {
+    if (variableNames.length <= 1) {
+      return variableNames[0];
+    }
+    return vscode.window.showQuickPick(variableNames, {
+      placeHolder: 'Select the binding variable that receives the key'
+    });
+  }
+
+  /**
+   * Prompts for a new key name, suggesting one from the text
+   */
+  private async promptForKey(source: LocalizationDataSource, value: string): Promise<string | undefined> {
+    const cultureKeys = await this.localizationService.getCultureKeys(source);
+    const existingKeys = new Set([...cultureKeys.values()].flatMap(keys => [...keys].map(key => key.toLowerCase())));
+
+    return vscode.window.showInputBox({
+      prompt: 'Enter the localization key name',
+      value: LocalizationExtractStringProvider.suggestKey(value, existingKeys),
+      validateInput: (input) => {
+        if (!REGEX_PATTERNS.LOCALIZATION_KEY.test(input)) {
+          return 'Use letters, digits and underscores only, not starting with a digit';
+        }
+        if (existingKeys.has(input.toLowerCase())) {
+          return `The key '${input}' already exists`;
+        }
+        return null;
+      }
+    });
+  }
+
+  /**
+   * Adds an entry to a culture data file, returning false when no insertion point is found
+   */
+  public async addEntry(edit: vscode.WorkspaceEdit, dataFile: CultureDataFile, key: string, value: string): Promise<boolean> {
+    const text = await this.localizationService.readDocumentText(dataFile.filePath);
+    const insertion = text !== null ? LocalizationKeyScanner.findInsertionPoint(text) : undefined;
+    if (text === null || !insertion) {
+      return false;
+    }
+
+    const entry = LocalizationExtractStringProvider.formatEntry(insertion.form, key, value);
+    const uri = vscode.Uri.file(dataFile.filePath);
+    const lines = text.split(/\r?\n/);
+    const eol = text.includes('\r\n') ? '\r\n' : '\n';
+
+    if (insertion.form === 'stringData') {
+      edit.insert(uri, new vscode.Position(insertion.line, 0), `${entry}${eol}`);
+      return true;
+    }
+
+    const beforeBrace = lines[insertion.line].substring(0, insertion.character);
+    if (beforeBrace.trim().length === 0) {
+      // Closing brace on its own line: add a line using the indentation of the last entry
+      const entries = LocalizationKeyScanner.findEntries(text);
+      const lastEntry = entries[entries.length - 1];
+      const indent = lastEntry ? /^\s*/.exec(lines[lastEntry.line])![0] : '  ';
+      edit.insert(uri, new vscode.Position(insertion.line, 0), `${indent}${entry}${eol}`);
+    } else {
+      // Inline hashtable: append after the last entry
+      const trimmed = beforeBrace.trimEnd();
+      const separator = trimmed.endsWith('{') || trimmed.endsWith(';') ? ' ' : '; ';
+      edit.insert(uri, new vscode.Position(insertion.line, trimmed.length), `${separator}${entry}`);
+    }
+    return true;
+  }
+
+  /**
+   * Returns the offset just past the closing quote of a literal, or -1 when it does not end on the line
+   */
+  private static findLiteralEnd(lineText: string, start: number): number {
+    const quote = lineText[start];
+    let subexpressionDepth = 0;
+    let index = start + 1;
+
+    while (index < lineText.length) {
+      const char = lineText[index];
+
+      if (quote === '"' && char === '`') {
+        index += 2;
+        continue;
+      }
+
+      // Quotes inside `$( )` belong to nested strings
+      if (quote === '"' && char === '$' && lineText[index + 1] === '(') {
+        subexpressionDepth++;
+        index += 2;
+        continue;
+      }
+      if (subexpressionDepth > 0) {
+        if (char === '(') {
+          subexpressionDepth++;
+        } else if (char === ')') {
+          subexpressionDepth--;
+        } else if (char === '\'' || char === '"') {
+          const end = this.findLiteralEnd(lineText, index);
+          if (end === -1) {
+            return -1;
+          }
+          index = end;
+          continue;
+        }
+        index++;
+        continue;
+      }
+
+      if (char === quote) {
+        if (lineText[index + 1] === quote) {
+          index += 2;
+          continue;
+        }
+        return index + 1;
+      }
+      index++;
+    }
+
+    return -1;
+  }
+
+  /**
+   * Reads a variable or subexpression starting with `$` inside an expandable string
+   */
+  private static readExpression(content: string, start: number): string | undefined {
+    const next = content[start + 1];
+
+    if (next === '(') {
+      let depth = 0;
+      for (let index = start + 1; index < content.length; index++) {
+        if (content[index] === '(') {
+          depth++;
+        } else if (content[index] === ')' && --depth === 0) {
+          return content.substring(start, index + 1);
+        }
+      }
+      return undefined;
+    }
+
+    if (next === '{') {
+      const end = content.indexOf('}', start);
+      return end === -1 ? undefined : content.substring(start, end + 1);
+    }
+
+    const match = /^\$(?:[A-Za-z]+:)?(?:[A-Za-z0-9_]+|[?^$])/.exec(content.substring(start));
+    return match?.[0];
+  }
+}
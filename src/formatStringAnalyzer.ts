@@ -0,0 +1,157 @@
+import { BindingVariableMatch, FormatStringUsage } from './types';
+
+/**
+ * Detects localized values used as .NET composite format strings
+ *
+ * Supports the `-f` operator and `[string]::Format()`:
+ * - `$Data.UserNotFound -f $name, $domain`
+ * - `[string]::Format($Data.UserNotFound, $name, $domain)`
+ */
+export class FormatStringAnalyzer {
+  private static readonly PLACEHOLDER = /\{\{|\}\}|\{(\d+)\s*(?:,\s*-?\d+\s*)?(?::[^{}]*)?\}/g;
+  private static readonly FORMAT_OPERATOR = /^\s*-f(?![A-Za-z0-9_-])/i;
+  private static readonly FORMAT_METHOD = /\[(?:System\.)?String\]::Format\(\s*$/i;
+  private static readonly CLOSING_BRACKETS: Record<string, string> = { '(': ')', '[': ']', '{': '}' };
+
+  /**
+   * Gets the number of arguments a format string needs, one more than its highest placeholder index
+   */
+  public static getExpectedArgumentCount(template: string): number {
+    let count = 0;
+    for (const match of template.matchAll(this.PLACEHOLDER)) {
+      if (match[1] !== undefined) {
+        count = Math.max(count, parseInt(match[1], 10) + 1);
+      }
+    }
+    return count;
+  }
+
+  /**
+   * Replaces each placeholder with its argument text, keeping placeholders without one
+   */
+  public static applyArguments(template: string, args: string[]): string {
+    return template.replace(this.PLACEHOLDER, (placeholder, index?: string) => {
+      if (index === undefined) {
+        return placeholder[0];
+      }
+      return args[parseInt(index, 10)] ?? placeholder;
+    });
+  }
+
+  /**
+   * Finds the format call a binding variable usage is the format string of
+   * Returns nothing when the arguments continue on another line
+   */
+  public static findUsage(lineText: string, match: BindingVariableMatch): FormatStringUsage | undefined {
+    if (this.FORMAT_METHOD.test(lineText.substring(0, match.start))) {
+      const comma = /^\s*,/.exec(lineText.substring(match.end));
+      if (!comma) {
+        return undefined;
+      }
+
+      const list = this.readArguments(lineText, match.end + comma[0].length);
+      if (!list || !/^\s*\)/.test(lineText.substring(list.end))) {
+        return undefined;
+      }
+      return this.createUsage('method', list.args);
+    }
+
+    const operator = this.FORMAT_OPERATOR.exec(lineText.substring(match.end));
+    if (!operator) {
+      return undefined;
+    }
+
+    const list = this.readArguments(lineText, match.end + operator[0].length);
+    return list ? this.createUsage('operator', list.args) : undefined;
+  }
+
+  /**
+   * Creates a usage, treating a lone `@(...)` argument as the array of all arguments
+   */
+  private static createUsage(kind: FormatStringUsage['kind'], args: string[]): FormatStringUsage {
+    return { kind, args, spread: args.length === 1 && args[0].startsWith('@(') };
+  }
+
+  /**
+   * Reads a comma-separated argument list, nothing when it is empty or ends with a comma
+   */
+  private static readArguments(text: string, offset: number): { args: string[]; end: number } | undefined {
+    const args: string[] = [];
+    let index = offset;
+
+    while (true) {
+      while (index < text.length && /\s/.test(text[index])) {
+        index++;
+      }
+
+      const end = this.readArgument(text, index);
+      if (end === index) {
+        return undefined;
+      }
+      args.push(text.substring(index, end));
+      index = end;
+
+      const separator = /^\s*,/.exec(text.substring(index));
+      if (!separator) {
+        return { args, end: index };
+      }
+      index += separator[0].length;
+    }
+  }
+
+  /**
+   * Reads one argument expression, up to whitespace, a comma or a closing bracket outside of nesting
+   */
+  private static readArgument(text: string, offset: number): number {
+    const closers: string[] = [];
+    let index = offset;
+
+    while (index < text.length) {
+      const char = text[index];
+
+      if (char === '\'' || char === '"') {
+        index = this.skipString(text, index);
+        continue;
+      }
+      if (char === '`') {
+        index += 2;
+        continue;
+      }
+
+      if (this.CLOSING_BRACKETS[char]) {
+        closers.push(this.CLOSING_BRACKETS[char]);
+      } else if (closers.length > 0 && char === closers[closers.length - 1]) {
+        closers.pop();
+      } else if (closers.length === 0 && /[\s,)\]};|#]/.test(char)) {
+        break;
+      }
+      index++;
+    }
+
+    return Math.min(index, text.length);
+  }
+
+  /**
+   * Skips a quoted string, honoring doubled quotes and backtick escapes in expandable strings
+   */
+  private static skipString(text: string, offset: number): number {
+    const quote = text[offset];
+    let index = offset + 1;
+
+    while (index < text.length) {
+      if (quote === '"' && text[index] === '`') {
+        index += 2;
+        continue;
+      }
+      if (text[index] === quote) {
+        if (text[index + 1] !== quote) {
+          return index + 1;
+        }
+        index++;
+      }
+      index++;
+    }
+
+    return text.length;
+  }
+}
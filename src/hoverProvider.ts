@@ -0,0 +1,231 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { Logger } from './logger';
+import { ConfigurationManager } from './configuration';
+import { LocalizationService } from './localizationService';
+import { CultureResolver } from './cultureResolver';
+import { FormatStringAnalyzer } from './formatStringAnalyzer';
+import { Utils } from './utils';
+import {
+  CultureDataFile,
+  DataFileValue,
+  FormatStringUsage,
+  LocalizationKeyDefinition,
+  LocalizationKeyTarget
+} from './types';
+
+/**
+ * Shows the value of a localization key in every culture when hovering `$BindingVariable.Key`
+ *
+ * When the key is used as a format string, its arguments are shown in place of the placeholders.
+ */
+export class LocalizationHoverProvider implements vscode.HoverProvider {
+  public static readonly SET_UI_CULTURE_COMMAND = 'powershellLocalization.setUICulture';
+
+  private logger: Logger;
+
+  constructor(private localizationService: LocalizationService) {
+    this.logger = Logger.getInstance();
+    this.logger.info('LocalizationHoverProvider initialized');
+  }
+
+  /**
+   * Provides a table of the key value per culture, with links to each data file
+   */
+  public async provideHover(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    token: vscode.CancellationToken
+  ): Promise<vscode.Hover | undefined> {
+    try {
+      const target = await this.localizationService.findKeyAt(document, position);
+      if (!target || token.isCancellationRequested) {
+        return undefined;
+      }
+
+      const dataFiles = await this.getDataFiles(target);
+      if (dataFiles.length === 0) {
+        return undefined;
+      }
+
+      // The data file Import-LocalizedData would read for the current culture
+      const uiCulture = await this.getReadCulture(document, target);
+      const currentFile = target.sources
+        .map(source => this.localizationService.resolveCultureDataFile(source, uiCulture))
+        .find(dataFile => dataFile !== null) ?? null;
+
+      const usage = this.findFormatUsage(document, target);
+
+      const rows: string[] = [];
+      for (const dataFile of dataFiles) {
+        const definition = await this.localizationService.findKeyDefinition(dataFile, target.key);
+        rows.push(await this.createRow(document, target, dataFile, uiCulture, currentFile, usage, definition));
+        if (token.isCancellationRequested) {
+          return undefined;
+        }
+      }
+
+      const markdown = new vscode.MarkdownString(this.createMarkdown(target, rows, uiCulture, currentFile, usage));
+      markdown.supportThemeIcons = true;
+      markdown.isTrusted = { enabledCommands: [LocalizationHoverProvider.SET_UI_CULTURE_COMMAND] };
+
+      const range = new vscode.Range(target.line, target.character, target.line, target.character + target.key.length);
+      return new vscode.Hover(markdown, range);
+    } catch (error) {
+      this.logger.error('Failed to provide localization hover', error as Error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Gets the culture data files of the key, one per culture, including the one in the base directory
+   */
+  private async getDataFiles(target: LocalizationKeyTarget): Promise<CultureDataFile[]> {
+    const dataFiles = new Map<string, CultureDataFile>();
+    for (const source of target.sources) {
+      for (const dataFile of await this.localizationService.getCultureDataFiles(source)) {
+        if (!dataFiles.has(dataFile.culture)) {
+          dataFiles.set(dataFile.culture, dataFile);
+        }
+      }
+    }
+    return [...dataFiles.values()].sort((a, b) => a.culture.localeCompare(b.culture));
+  }
+
+  /**
+   * Gets the culture a usage is read for: the one declared by its call with -UICulture, else the current one
+   */
+  private async getReadCulture(document: vscode.TextDocument, target: LocalizationKeyTarget): Promise<string> {
+    const currentCulture = ConfigurationManager.getUICulture(document.uri);
+    if (Utils.isPowerShellDataFile(document.uri.fsPath)) {
+      return currentCulture;
+    }
+
+    const calls = await this.localizationService.getLocalizationCalls(document.uri.fsPath) ?? [];
+    const call = LocalizationService.selectCall(calls, target.variableNames[0], document.uri.fsPath, target.line);
+    return call?.uiCulture ?? currentCulture;
+  }
+
+  /**
+   * Finds the format call of the hovered usage, only when the whole property path is hovered
+   */
+  private findFormatUsage(document: vscode.TextDocument, target: LocalizationKeyTarget): FormatStringUsage | undefined {
+    if (Utils.isPowerShellDataFile(document.uri.fsPath)) {
+      return undefined;
+    }
+
+    const lineText = document.lineAt(target.line).text;
+    const match = Utils.findBindingVariableMatchAt(lineText, target.character, target.variableNames);
+    if (!match || match.path.length !== (target.nestedPath?.length ?? 0) + 1) {
+      return undefined;
+    }
+    return FormatStringAnalyzer.findUsage(lineText, match);
+  }
+
+  /**
+   * Creates the hover content around the culture rows
+   */
+  private createMarkdown(
+    target: LocalizationKeyTarget,
+    rows: string[],
+    uiCulture: string,
+    currentFile: CultureDataFile | null,
+    usage?: FormatStringUsage
+  ): string {
+    const variables = target.variableNames.map(name => `$${name}`).join(', ');
+    const keyPath = [target.key, ...target.nestedPath ?? []].join('.');
+    const lines = [`**${this.escape(keyPath)}** (${this.escape(variables)})`, ''];
+
+    // Tell which culture supplies the values when the current one has no data file
+    if (!currentFile) {
+      lines.push(`$(warning) No data file for ${uiCulture} or its parent cultures`, '');
+    } else if (currentFile.culture !== uiCulture) {
+      lines.push(`Values for ${uiCulture} come from **${CultureResolver.getDisplayName(currentFile.culture)}**`, '');
+    }
+
+    // Map each argument to its placeholder, e.g. `{0} ← $name`
+    if (usage && !usage.spread) {
+      const mapping = usage.args.map((arg, index) => `${this.escape(`{${index}}`)} ← ${this.escape(arg)}`).join(' · ');
+      lines.push(`Format arguments: ${mapping}`, '');
+    }
+
+    return [
+      ...lines,
+      '| Culture | Value | Source | |',
+      '|---------|-------|--------|-|',
+      ...rows
+    ].join('\n');
+  }
+
+  /**
+   * Creates the table row of one culture
+   */
+  private async createRow(
+    document: vscode.TextDocument,
+    target: LocalizationKeyTarget,
+    dataFile: CultureDataFile,
+    uiCulture: string,
+    currentFile: CultureDataFile | null,
+    usage: FormatStringUsage | undefined,
+    definition?: LocalizationKeyDefinition
+  ): Promise<string> {
+    const isCurrent = dataFile.filePath === currentFile?.filePath;
+    const displayName = CultureResolver.getDisplayName(dataFile.culture);
+    let culture = displayName;
+    if (isCurrent) {
+      culture = dataFile.culture === uiCulture ? `**${displayName}** (current)` : `**${displayName}** (fallback for ${uiCulture})`;
+    }
+
+    let value = '$(warning) *missing*';
+    if (definition) {
+      // Take the data of a call that reads this very file, whichever scope it is in
+      const data = await this.localizationService.getDataFileData(document.uri.fsPath, dataFile);
+      const resolved = Utils.resolvePropertyPath(data, [target.key, ...target.nestedPath ?? []]);
+      value = usage && typeof resolved === 'string' ? this.formatTemplate(resolved, usage) : this.formatValue(resolved);
+    }
+
+    // Opens the data file at the key, or at the top when the culture lacks it
+    const fileUri = vscode.Uri.file(dataFile.filePath).with({ fragment: `L${(definition?.line ?? 0) + 1}` });
+    const label = path.join(dataFile.culture, path.basename(dataFile.filePath));
+    const source = `[${this.escape(label)}](${fileUri.toString()} "${dataFile.filePath.replace(/"/g, '')}")`;
+
+    // The invariant culture cannot be set as the UI culture
+    const args = encodeURIComponent(JSON.stringify([dataFile.culture, document.uri.toString()]));
+    const action = isCurrent || dataFile.culture === CultureResolver.INVARIANT_CULTURE ? '' : `[Switch](command:${LocalizationHoverProvider.SET_UI_CULTURE_COMMAND}?${args} "Set uiCulture to ${dataFile.culture}")`;
+
+    return `| ${culture} | ${value} | ${source} | ${action} |`;
+  }
+
+  /**
+   * Formats a localized value for a table cell
+   */
+  private formatValue(value: DataFileValue | undefined): string {
+    if (value === undefined || value === null) {
+      return '*empty*';
+    }
+    const text = typeof value === 'string' ? value : Utils.formatLocalizationValue(value);
+    return text.length > 0 ? this.escape(text) : '*empty*';
+  }
+
+  /**
+   * Formats a format string with its arguments in place, flagging a placeholder count mismatch
+   */
+  private formatTemplate(template: string, usage: FormatStringUsage): string {
+    if (usage.spread) {
+      return this.formatValue(template);
+    }
+
+    const value = this.formatValue(FormatStringAnalyzer.applyArguments(template, usage.args));
+    const expected = FormatStringAnalyzer.getExpectedArgumentCount(template);
+    return expected === usage.args.length ? value : `${value} $(warning) *expects ${expected} argument(s)*`;
+  }
+
+  /**
+   * Escapes Markdown syntax so the text renders literally inside a table cell
+   */
+  private escape(text: string): string {
+    return text
+      .replace(/[\\`*_{}[\]()<>#+!|$-]/g, '\\$&')
+      .replace(/\r?\n/g, ' ');
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * Per-line results for a document, kept in step with its edits
+ *
+ * Edited lines become dirty and the lines after them shift, so only the lines
+ * an edit touched need to be recomputed.
+ */
+export class IncrementalLineCache<T> {
+  private lines: (T | undefined)[];
+
+  constructor(lineCount: number) {
+    this.lines = new Array<T | undefined>(lineCount).fill(undefined);
+  }
+
+  /**
+   * Gets the number of lines tracked
+   */
+  public get lineCount(): number {
+    return this.lines.length;
+  }
+
+  /**
+   * Replaces the lines from `startLine` to `endLine` with the lines of the inserted text, all dirty
+   */
+  public applyChange(startLine: number, endLine: number, text: string): void {
+    const insertedLineCount = text.split(/\r\n|\r|\n/).length;
+    this.lines = this.lines
+      .slice(0, startLine)
+      .concat(new Array<T | undefined>(insertedLineCount).fill(undefined), this.lines.slice(endLine + 1));
+  }
+
+  /**
+   * Gets the dirty lines between two lines, both included
+   */
+  public getDirtyLines(startLine: number = 0, endLine: number = this.lines.length - 1): number[] {
+    const dirtyLines: number[] = [];
+    for (let line = Math.max(startLine, 0); line <= Math.min(endLine, this.lines.length - 1); line++) {
+      if (this.lines[line] === undefined) {
+        dirtyLines.push(line);
+      }
+    }
+    return dirtyLines;
+  }
+
+  /**
+   * Stores the result of a line
+   */
+  public set(line: number, value: T): void {
+    this.lines[line] = value;
+  }
+
+  /**
+   * Gets the computed results with their line
+   */
+  public entries(): Array<[number, T]> {
+    const entries: Array<[number, T]> = [];
+    this.lines.forEach((value, line) => {
+      if (value !== undefined) {
+        entries.push([line, value]);
+      }
+    });
+    return entries;
+  }
+}
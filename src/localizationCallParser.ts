@@ -0,0 +1,1091 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DataFileObject, DataFileValue, LocalizationCall, SourceRange, UnresolvedLocalizationCall } from './types';
+import { CultureResolver } from './cultureResolver';
+import { ESCAPE_SEQUENCES } from './utils';
+
+/**
+ * Token of a PowerShell script
+ */
+interface ScriptToken {
+  kind: 'word' | 'number' | 'string' | 'expandableString' | 'variable' | 'splat' | 'parameter' | 'operator' | 'newline';
+  /** Name of variables and parameters, content of strings, text otherwise */
+  value: string;
+  start: number;
+  end: number;
+  /** Where the content of a string starts, after its opening quote */
+  contentStart?: number;
+}
+
+/**
+ * Assignment to a variable, whose value is evaluated when the variable is read
+ */
+interface VariableAssignment {
+  name: string;
+  /** Index of the first token of the assigned value, -1 for compound assignments */
+  valueIndex: number;
+  end: number;
+}
+
+/**
+ * Function or script block giving the calls inside it their own scope
+ */
+interface CallScope {
+  start: number;
+  end: number;
+}
+
+/**
+ * Argument of a command, named or positional
+ */
+interface CommandElement {
+  parameter?: string;
+  splat?: string;
+  value?: DataFileValue;
+  start: number;
+}
+
+/**
+ * Finds the Import-LocalizedData calls of a PowerShell script without running PowerShell
+ *
+ * Evaluates the arguments of each call like `LocalizationParser.ps1` does, over the
+ * same safe subset: constants, strings, `$PSScriptRoot`, `$PSUICulture`, `$PSCulture`,
+ * variables assigned from such expressions, splatted hashtables, `Join-Path`,
+ * `Split-Path`, string concatenation and `-f`. Calls that use anything else are
+ * reported as unresolved, so the caller can ask PowerShell instead.
+ */
+export class LocalizationCallParser {
+  private static readonly COMMAND_NAME = 'import-localizeddata';
+  private static readonly DEFAULT_CULTURE = 'en-US';
+  private static readonly WORD_PATTERN = /[^\s(){}[\];,|&'"`$@=#+]+/y;
+  private static readonly NUMBER_PATTERN = /\d+(?:\.\d+)?(?![^\s(){}[\];,|&'"`$@=#+])/y;
+  private static readonly VARIABLE_PATTERN = /\$(?:\{([^}]+)\}|((?:[A-Za-z]+:)?[A-Za-z_]\w*))/y;
+  private static readonly PARAMETER_PATTERN = /-([A-Za-z_]\w*)(:?)/y;
+  private static readonly SCOPE_MODIFIER = /^(?:script|global|local|private|using):/i;
+  private static readonly FUNCTION_KEYWORDS = new Set(['function', 'filter', 'workflow']);
+  // Keywords whose braces are statement blocks, not script blocks of their own
+  private static readonly BLOCK_KEYWORDS = new Set([
+    'if', 'elseif', 'else', 'switch', 'foreach', 'for', 'while', 'do', 'until', 'try', 'catch', 'finally', 'trap',
+    'data', 'begin', 'process', 'end', 'dynamicparam', 'clean', 'parallel', 'sequence'
+  ]);
+  private static readonly COMMAND_STARTS = new Set(['{', '(', ';', '|', '=', '$(', '@(', '&']);
+  private static readonly COMMAND_PARAMETERS: Record<string, { names: string[]; positional: string[]; switches: string[] }> = {
+    'import-localizeddata': {
+      names: ['BindingVariable', 'UICulture', 'BaseDirectory', 'FileName', 'SupportedCommand'],
+      positional: ['BindingVariable', 'UICulture'],
+      switches: []
+    },
+    'join-path': { names: ['Path', 'ChildPath', 'AdditionalChildPath'], positional: ['Path', 'ChildPath'], switches: [] },
+    'split-path': { names: ['Path', 'Parent', 'Leaf'], positional: ['Path'], switches: ['Parent', 'Leaf'] }
+  };
+
+  private readonly scriptRoot: string;
+  private readonly scriptTokens: ScriptToken[];
+  private readonly assignments: VariableAssignment[] = [];
+  // Tokens being evaluated, the script or the inside of an expandable string
+  private tokens: ScriptToken[];
+  private position = 0;
+  private limit = 0;
+
+  private constructor(
+    private readonly text: string,
+    private sourceFile: string,
+    private readonly cultureName: string
+  ) {
+    this.sourceFile = path.resolve(sourceFile);
+    this.scriptRoot = path.dirname(this.sourceFile);
+    this.scriptTokens = this.tokenize(0, text.length);
+    this.tokens = this.scriptTokens;
+  }
+
+  /**
+   * Finds every Import-LocalizedData call of a script with the data file it reads for a culture
+   */
+  public static parse(
+    text: string,
+    sourceFile: string,
+    uiCulture: string = LocalizationCallParser.DEFAULT_CULTURE
+  ): (LocalizationCall | UnresolvedLocalizationCall)[] {
+    return new LocalizationCallParser(text, sourceFile, uiCulture).findCalls();
+  }
+
+  /**
+   * Walks the script, tracking scopes and assignments, and resolves each call on the way
+   */
+  private findCalls(): (LocalizationCall | UnresolvedLocalizationCall)[] {
+    const lineStarts = this.getLineStarts();
+    const braces: { scope: CallScope | null; isSwitchBody: boolean }[] = [];
+    const found: { index: number; scope: CallScope | null }[] = [];
+
+    this.scriptTokens.forEach((token, index) => {
+      if (token.kind === 'operator' && token.value === '{') {
+        // Switch clauses are statement blocks
+        braces.push(braces[braces.length - 1]?.isSwitchBody ? { scope: null, isSwitchBody: false } : this.classifyBrace(index));
+      } else if (token.kind === 'operator' && token.value === '}') {
+        const brace = braces.pop();
+        if (brace?.scope) {
+          brace.scope.end = token.end;
+        }
+      } else if (token.kind === 'variable' && this.isStatementStart(index)) {
+        this.recordAssignment(index);
+      } else if (token.kind === 'word' && token.value.toLowerCase() === LocalizationCallParser.COMMAND_NAME && this.isCommandStart(index)) {
+        found.push({ index, scope: [...braces].reverse().find(brace => brace.scope !== null)?.scope ?? null });
+      }
+    });
+
+    return found.map(({ index, scope }) => {
+      const end = this.findStatementEnd(index + 1);
+      const range = this.toRange(this.scriptTokens[index].start, this.scriptTokens[end - 1].end, lineStarts);
+      const scopeRange = scope ? this.toRange(scope.start, scope.end, lineStarts) : null;
+      return this.resolveCall(index, end, range, scopeRange);
+    });
+  }
+
+  /**
+   * Evaluates the arguments of a call into the data file it reads
+   */
+  private resolveCall(
+    index: number,
+    end: number,
+    range: SourceRange,
+    scope: SourceRange | null
+  ): LocalizationCall | UnresolvedLocalizationCall {
+    // Without -BindingVariable the data is returned, usually to an assignment
+    const previous = this.scriptTokens[index - 1];
+    const assigned = previous?.kind === 'operator' && previous.value === '=' && this.scriptTokens[index - 2]?.kind === 'variable'
+      ? this.scriptTokens[index - 2].value.replace(LocalizationCallParser.SCOPE_MODIFIER, '')
+      : undefined;
+
+    let bindingVariable: string | undefined;
+    try {
+      this.tokens = this.scriptTokens;
+      this.position = index + 1;
+      this.limit = end;
+      const parameters = this.bindArguments(LocalizationCallParser.COMMAND_NAME, this.parseCommandElements());
+
+      bindingVariable = parameters.BindingVariable !== undefined
+        ? this.toText(parameters.BindingVariable, 'BindingVariable')
+        : assigned;
+      if (!bindingVariable) {
+        this.fail('Cannot determine the variable that receives the data');
+      }
+
+      // Import-LocalizedData defaults FileName to the calling script's name
+      let fileName = parameters.FileName !== undefined
+        ? this.normalizePath(this.toText(parameters.FileName, 'FileName'))
+        : path.basename(this.sourceFile, path.extname(this.sourceFile));
+      if (!fileName.toLowerCase().endsWith('.psd1')) {
+        fileName = `${fileName}.psd1`;
+      }
+
+      // The declared base directory is relative to the script, and defaults to its folder
+      const baseDirectory = parameters.BaseDirectory !== undefined
+        ? path.resolve(this.scriptRoot, this.normalizePath(this.toText(parameters.BaseDirectory, 'BaseDirectory')))
+        : this.scriptRoot;
+
+      // A culture declared in the script wins over the requested one
+      const uiCulture = parameters.UICulture !== undefined ? this.toText(parameters.UICulture, 'UICulture') : undefined;
+      const dataFile = this.resolveDataFile(baseDirectory, fileName, uiCulture ?? this.cultureName);
+
+      const call: LocalizationCall = {
+        sourceFile: this.sourceFile,
+        range,
+        scope,
+        bindingVariable,
+        fileName,
+        baseDirectory,
+        filePath: dataFile?.filePath ?? null,
+        culture: dataFile?.culture ?? null
+      };
+      if (uiCulture !== undefined) {
+        call.uiCulture = uiCulture;
+      }
+      return call;
+    } catch (error) {
+      const unresolved: UnresolvedLocalizationCall = {
+        unresolved: true,
+        reason: (error as Error).message,
+        sourceFile: this.sourceFile,
+        range,
+        scope
+      };
+      if (bindingVariable ?? assigned) {
+        unresolved.bindingVariable = bindingVariable ?? assigned;
+      }
+      return unresolved;
+    } finally {
+      this.tokens = this.scriptTokens;
+    }
+  }
+
+  /**
+   * Finds the data file Import-LocalizedData reads, walking the parent cultures down to the base directory
+   */
+  private resolveDataFile(baseDirectory: string, fileName: string, culture: string): { culture: string; filePath: string } | null {
+    for (const candidate of CultureResolver.getFallbackChain(culture)) {
+      const filePath = path.join(baseDirectory, candidate, fileName);
+      if (fs.existsSync(filePath)) {
+        return { culture: candidate, filePath };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Decides if a brace opens a function or script block, which has a scope of its own, or a statement block
+   */
+  private classifyBrace(index: number): { scope: CallScope | null; isSwitchBody: boolean } {
+    const open = this.scriptTokens[index];
+    const scriptBlock = { scope: { start: open.start, end: this.text.length }, isSwitchBody: false };
+    const statementBlock = { scope: null, isSwitchBody: false };
+
+    const previousIndex = this.findPreviousSignificant(index);
+    const previous = this.scriptTokens[previousIndex];
+    if (!previous) {
+      return scriptBlock;
+    }
+
+    // `if (...) {`, `foreach (...) {`, `switch -Regex (...) {` and `function Name(...) {`
+    if (previous.kind === 'operator' && previous.value === ')') {
+      let keywordIndex = this.findPreviousSignificant(this.findOpening(previousIndex));
+      while (this.scriptTokens[keywordIndex]?.kind === 'parameter') {
+        keywordIndex = this.findPreviousSignificant(keywordIndex);
+      }
+      const keyword = this.scriptTokens[keywordIndex];
+      const keywordName = keyword?.kind === 'word' ? keyword.value.toLowerCase() : '';
+      if (LocalizationCallParser.BLOCK_KEYWORDS.has(keywordName)) {
+        return { scope: null, isSwitchBody: keywordName === 'switch' };
+      }
+      return this.getFunctionBlock(keywordIndex) ?? scriptBlock;
+    }
+
+    if (previous.kind === 'word') {
+      if (LocalizationCallParser.BLOCK_KEYWORDS.has(previous.value.toLowerCase())) {
+        return statementBlock;
+      }
+      return this.getFunctionBlock(previousIndex) ?? scriptBlock;
+    }
+
+    // `catch [Exception] {` and `trap [Exception] {`
+    if (previous.kind === 'operator' && previous.value === ']') {
+      return statementBlock;
+    }
+
+    return scriptBlock;
+  }
+
+  /**
+   * Gets the body of a function whose name is at the given index, its scope starting at the keyword
+   */
+  private getFunctionBlock(nameIndex: number): { scope: CallScope; isSwitchBody: boolean } | undefined {
+    const keyword = this.scriptTokens[this.findPreviousSignificant(nameIndex)];
+    return keyword?.kind === 'word' && LocalizationCallParser.FUNCTION_KEYWORDS.has(keyword.value.toLowerCase())
+      ? { scope: { start: keyword.start, end: this.text.length }, isSwitchBody: false }
+      : undefined;
+  }
+
+  /**
+   * Records `$name = value`, the only way a variable gets a value the parser can follow
+   */
+  private recordAssignment(index: number): void {
+    const name = this.scriptTokens[index].value.replace(LocalizationCallParser.SCOPE_MODIFIER, '').toLowerCase();
+    const next = this.scriptTokens[index + 1];
+    const afterNext = this.scriptTokens[index + 2];
+
+    if (next?.kind === 'operator' && next.value === '=') {
+      const end = this.findStatementEnd(index + 2);
+      this.assignments.push({ name, valueIndex: index + 2, end: this.scriptTokens[end - 1]?.end ?? next.end });
+    } else if (next?.kind === 'operator' && next.value === '+' && afterNext?.value === '=' && afterNext.start === next.end) {
+      // Compound assignments depend on the previous value at runtime
+      this.assignments.push({ name, valueIndex: -1, end: afterNext.end });
+    }
+  }
+
+  /**
+   * Parses command arguments up to the end of the current range
+   */
+  private parseCommandElements(): CommandElement[] {
+    const elements: CommandElement[] = [];
+
+    while (this.position < this.limit) {
+      const token = this.tokens[this.position];
+      if (token.kind === 'newline') {
+        this.position++;
+        continue;
+      }
+
+      if (token.kind === 'parameter') {
+        this.position++;
+        const element: CommandElement = { parameter: token.value, start: token.start };
+        // `-Name:value` always takes the value that follows
+        if (this.text[token.end - 1] === ':') {
+          element.value = this.parseCommandArgument();
+        }
+        elements.push(element);
+        continue;
+      }
+
+      if (token.kind === 'splat') {
+        this.position++;
+        elements.push({ splat: token.value, start: token.start });
+        continue;
+      }
+
+      elements.push({ value: this.parseCommandArgument(), start: token.start });
+    }
+
+    return elements;
+  }
+
+  /**
+   * Maps the named, positional and splatted arguments of a supported command to their values
+   */
+  private bindArguments(commandName: string, elements: CommandElement[]): Record<string, DataFileValue> {
+    const command = LocalizationCallParser.COMMAND_PARAMETERS[commandName];
+    const parameters: Record<string, DataFileValue> = {};
+    let position = 0;
+
+    for (let index = 0; index < elements.length; index++) {
+      const element = elements[index];
+
+      if (element.parameter !== undefined) {
+        const name = this.findParameterName(command.names, element.parameter);
+        if (element.value !== undefined) {
+          parameters[name] = element.value;
+        } else if (command.switches.includes(name)) {
+          parameters[name] = true;
+        } else {
+          const argument = elements[++index];
+          if (argument?.value === undefined) {
+            this.fail(`Missing an argument for parameter '-${element.parameter}'`);
+          }
+          parameters[name] = argument.value;
+        }
+        continue;
+      }
+
+      if (element.splat !== undefined) {
+        const splat = this.resolveVariable(element.splat, element.start);
+        if (!LocalizationCallParser.isObject(splat)) {
+          this.fail(`Cannot statically resolve splatted variable '@${element.splat}'`);
+        }
+        for (const [key, value] of Object.entries(splat)) {
+          parameters[this.findParameterName(command.names, key)] = value;
+        }
+        continue;
+      }
+
+      if (position >= command.positional.length) {
+        this.fail(`Unexpected argument '${this.toText(element.value!)}'`);
+      }
+      parameters[command.positional[position++]] = element.value!;
+    }
+
+    return parameters;
+  }
+
+  /**
+   * Finds the parameter an argument name stands for, names may be abbreviated
+   */
+  private findParameterName(names: string[], name: string): string {
+    const lowerName = name.toLowerCase();
+    const exact = names.find(candidate => candidate.toLowerCase() === lowerName);
+    const matches = names.filter(candidate => candidate.toLowerCase().startsWith(lowerName));
+    if (!exact && matches.length !== 1) {
+      this.fail(`Unsupported parameter '-${name}'`);
+    }
+    return exact ?? matches[0];
+  }
+
+  /**
+   * Parses a command argument, where adjacent parts form one string and commas form an array
+   */
+  private parseCommandArgument(): DataFileValue {
+    const first = this.parseCommandArgumentParts();
+    if (!this.atOperator(',')) {
+      return first;
+    }
+
+    const items = [first];
+    while (this.atOperator(',')) {
+      this.position++;
+      this.skipNewlines();
+      items.push(this.parseCommandArgumentParts());
+    }
+    return items;
+  }
+
+  /**
+   * Parses the parts of an argument written without blanks between them, like `$PSScriptRoot\Localization`
+   */
+  private parseCommandArgumentParts(): DataFileValue {
+    const parts = [this.parseCommandPrimary()];
+
+    while (this.position < this.limit) {
+      const previous = this.tokens[this.position - 1];
+      const token = this.tokens[this.position];
+      if (token.start !== previous.end || token.kind === 'newline' || this.isOperator(token, ',')) {
+        break;
+      }
+      parts.push(this.parseCommandPrimary());
+    }
+
+    return parts.length === 1 ? parts[0] : parts.map(part => this.toText(part)).join('');
+  }
+
+  /**
+   * Parses one part of a command argument, barewords being strings
+   */
+  private parseCommandPrimary(): DataFileValue {
+    const token = this.tokens[this.position];
+    if (token?.kind === 'word') {
+      this.position++;
+      return token.value;
+    }
+    return this.parsePrimary();
+  }
+
+  /**
+   * Parses a pipeline with a single element, either an expression or a supported command
+   */
+  private parsePipeline(): DataFileValue {
+    this.skipNewlines();
+    const token = this.tokens[this.position];
+    if (!token) {
+      return this.fail('Missing expression');
+    }
+
+    let value: DataFileValue;
+    if (token.kind === 'word') {
+      const commandName = token.value.toLowerCase();
+      if (!(commandName in LocalizationCallParser.COMMAND_PARAMETERS) || commandName === LocalizationCallParser.COMMAND_NAME) {
+        return this.fail(`Cannot statically resolve command '${token.value}'`);
+      }
+      this.position++;
+      value = this.evaluateCommand(commandName, this.bindArguments(commandName, this.parseCommandElements()));
+    } else {
+      value = this.parseExpression();
+    }
+
+    this.skipNewlines();
+    if (this.position < this.limit) {
+      this.fail(`Cannot statically resolve '${this.text.substring(this.tokens[this.position].start, this.tokens[this.limit - 1].end)}'`);
+    }
+    return value;
+  }
+
+  /**
+   * Runs Join-Path or Split-Path on static arguments
+   */
+  private evaluateCommand(commandName: string, parameters: Record<string, DataFileValue>): string {
+    const parentPath = this.normalizePath(this.toText(parameters.Path ?? this.fail('Missing -Path'), 'Path'));
+
+    if (commandName === 'join-path') {
+      const childPaths = [parameters.ChildPath, ...[parameters.AdditionalChildPath ?? []].flat()]
+        .filter(childPath => childPath !== undefined && childPath !== null && childPath !== '')
+        .map(childPath => this.normalizePath(this.toText(childPath!, 'ChildPath')));
+      return path.join(parentPath, ...childPaths);
+    }
+
+    return parameters.Leaf ? path.basename(parentPath) : path.dirname(parentPath);
+  }
+
+  /**
+   * Parses concatenations, the loosest binding operator supported
+   */
+  private parseExpression(): DataFileValue {
+    let value = this.parseFormat();
+    while (this.atOperator('+')) {
+      this.position++;
+      this.skipNewlines();
+      value = this.add(value, this.parseFormat());
+    }
+    return value;
+  }
+
+  /**
+   * Parses `-f` format operations
+   */
+  private parseFormat(): DataFileValue {
+    let value = this.parseArray();
+    while (this.tokens[this.position]?.kind === 'parameter' && this.tokens[this.position].value.toLowerCase() === 'f' && this.position < this.limit) {
+      this.position++;
+      this.skipNewlines();
+      value = this.format(this.toText(value), this.parseArray());
+    }
+    return value;
+  }
+
+  /**
+   * Parses comma-separated values into an array
+   */
+  private parseArray(): DataFileValue {
+    const first = this.parsePrimary();
+    if (!this.atOperator(',')) {
+      return first;
+    }
+
+    const items = [first];
+    while (this.atOperator(',')) {
+      this.position++;
+      this.skipNewlines();
+      items.push(this.parsePrimary());
+    }
+    return items;
+  }
+
+  /**
+   * Parses a single value: a constant, a string, a variable or a bracketed expression
+   */
+  private parsePrimary(): DataFileValue {
+    if (this.position >= this.limit) {
+      return this.fail('Missing expression');
+    }
+
+    const token = this.tokens[this.position];
+    let value: DataFileValue;
+
+    switch (token.kind) {
+      case 'string':
+        this.position++;
+        value = token.value;
+        break;
+      case 'expandableString':
+        this.position++;
+        value = this.expandString(token);
+        break;
+      case 'number':
+        this.position++;
+        value = Number(token.value);
+        break;
+      case 'variable':
+        this.position++;
+        value = this.resolveVariable(token.value, token.start);
+        break;
+      case 'operator':
+        value = this.parseBracketed(token);
+        break;
+      default:
+        return this.fail(`Cannot statically resolve '${this.text.substring(token.start, token.end)}'`);
+    }
+
+    // Member access, indexers and method calls need the runtime value
+    const next = this.tokens[this.position];
+    const isAdjacent = this.position < this.limit && next.start === this.tokens[this.position - 1].end;
+    if (isAdjacent && (next.value.startsWith('.') || next.value.startsWith('::') || this.isOperator(next, '['))) {
+      this.fail(`Cannot statically resolve '${this.text.substring(token.start, next.end)}'`);
+    }
+    return value;
+  }
+
+  /**
+   * Parses `( ... )`, `$( ... )`, `@( ... )` and `@{ ... }`
+   */
+  private parseBracketed(token: ScriptToken): DataFileValue {
+    const closing = this.findClosing(this.position);
+    const inner = { start: this.position + 1, end: closing };
+    this.position = closing + 1;
+
+    switch (token.value) {
+      case '(':
+        return this.withRange(inner.start, inner.end, () => this.parsePipeline());
+      case '$(': {
+        const statements = this.splitStatements(inner.start, inner.end);
+        if (statements.length !== 1) {
+          this.fail(`Cannot statically resolve subexpression '${this.text.substring(token.start, this.tokens[closing].end)}'`);
+        }
+        return this.withRange(statements[0].start, statements[0].end, () => this.parsePipeline());
+      }
+      case '@(':
+        return this.splitStatements(inner.start, inner.end)
+          .flatMap(statement => [this.withRange(statement.start, statement.end, () => this.parsePipeline())].flat());
+      case '@{':
+        return this.withRange(inner.start, inner.end, () => this.parseHashtable());
+    }
+    return this.fail(`Cannot statically resolve '${token.value}'`);
+  }
+
+  /**
+   * Parses the entries of a hashtable literal
+   */
+  private parseHashtable(): DataFileObject {
+    const table: DataFileObject = {};
+
+    for (;;) {
+      while (this.position < this.limit && (this.tokens[this.position].kind === 'newline' || this.atOperator(';'))) {
+        this.position++;
+      }
+      if (this.position >= this.limit) {
+        return table;
+      }
+
+      const keyToken = this.tokens[this.position];
+      const key = keyToken.kind === 'word' || keyToken.kind === 'number' ? keyToken.value : this.parsePrimary();
+      if (keyToken.kind === 'word' || keyToken.kind === 'number') {
+        this.position++;
+      }
+      if (!this.atOperator('=')) {
+        this.fail('Expected \'=\' after a hashtable key');
+      }
+      this.position++;
+      this.skipNewlines();
+
+      const end = this.findStatementEnd(this.position);
+      table[this.toText(key)] = this.withRange(this.position, end, () => this.parsePipeline());
+      this.position = end;
+    }
+  }
+
+  /**
+   * Evaluates the last value assigned to a variable before an offset
+   */
+  private resolveVariable(name: string, offset: number): DataFileValue {
+    const variableName = name.replace(LocalizationCallParser.SCOPE_MODIFIER, '').toLowerCase();
+    switch (variableName) {
+      case 'psscriptroot':
+        return this.scriptRoot;
+      case 'psuiculture':
+      case 'psculture':
+        return this.cultureName;
+      case 'true':
+        return true;
+      case 'false':
+        return false;
+      case 'null':
+        return null;
+    }
+
+    const assignment = this.assignments.filter(candidate => candidate.name === variableName && candidate.end <= offset).pop();
+    if (!assignment || assignment.valueIndex === -1) {
+      return this.fail(`Cannot statically resolve variable '$${name}'`);
+    }
+
+    const tokens = this.tokens;
+    this.tokens = this.scriptTokens;
+    try {
+      return this.withRange(assignment.valueIndex, this.findStatementEnd(assignment.valueIndex), () => this.parsePipeline());
+    } finally {
+      this.tokens = tokens;
+    }
+  }
+
+  /**
+   * Expands the variables and subexpressions of a double-quoted string
+   */
+  private expandString(token: ScriptToken): string {
+    const content = token.value;
+    const contentStart = token.contentStart!;
+    let value = '';
+    let index = 0;
+
+    while (index < content.length) {
+      const char = content[index];
+      const next = content[index + 1];
+
+      if (char === '`' && next !== undefined) {
+        value += ESCAPE_SEQUENCES[next] ?? next;
+        index += 2;
+        continue;
+      }
+      if (char === '"' && next === '"') {
+        value += '"';
+        index += 2;
+        continue;
+      }
+
+      if (char === '$' && next === '(') {
+        const end = this.findSubexpressionEnd(content, index + 2);
+        const tokens = this.tokenize(contentStart + index, contentStart + end + 1);
+        value += this.toText(this.withTokens(tokens, () => this.parsePrimary()));
+        index = end + 1;
+        continue;
+      }
+
+      if (char === '$') {
+        LocalizationCallParser.VARIABLE_PATTERN.lastIndex = index;
+        const match = LocalizationCallParser.VARIABLE_PATTERN.exec(content);
+        if (match) {
+          value += this.toText(this.resolveVariable(match[1] ?? match[2], contentStart + index));
+          index += match[0].length;
+          continue;
+        }
+      }
+
+      value += char;
+      index++;
+    }
+
+    return value;
+  }
+
+  /**
+   * Finds the parenthesis closing a subexpression inside a string
+   */
+  private findSubexpressionEnd(content: string, start: number): number {
+    let depth = 1;
+    for (let index = start; index < content.length; index++) {
+      if (content[index] === '(') {
+        depth++;
+      } else if (content[index] === ')' && --depth === 0) {
+        return index;
+      }
+    }
+    return this.fail('Unterminated subexpression in string');
+  }
+
+  /**
+   * Adds two values like the PowerShell `+` operator, for strings, numbers and arrays
+   */
+  private add(left: DataFileValue, right: DataFileValue): DataFileValue {
+    if (typeof left === 'string') {
+      return left + this.toText(right);
+    }
+    if (typeof left === 'number' && typeof right === 'number') {
+      return left + right;
+    }
+    if (Array.isArray(left)) {
+      return [...left, ...[right].flat()];
+    }
+    return this.fail('Cannot statically resolve the addition of these values');
+  }
+
+  /**
+   * Fills the `{0}` placeholders of a format string like the PowerShell `-f` operator
+   */
+  private format(formatString: string, args: DataFileValue): string {
+    const values = [args].flat();
+    return formatString.replace(/\{\{|\}\}|\{(\d+)([^}]*)\}/g, (match: string, index?: string, options?: string) => {
+      if (index === undefined) {
+        return match[0];
+      }
+      if (options || Number(index) >= values.length) {
+        this.fail(`Cannot statically resolve the format item '${match}'`);
+      }
+      return this.toText(values[Number(index)]);
+    });
+  }
+
+  /**
+   * Converts a value to the text PowerShell would use for it
+   */
+  private toText(value: DataFileValue, parameterName?: string): string {
+    if (typeof value === 'string') {
+      return value;
+    }
+    if (parameterName !== undefined) {
+      return this.fail(`Parameter '-${parameterName}' expects a string`);
+    }
+    if (value === null) {
+      return '';
+    }
+    if (typeof value === 'boolean') {
+      return value ? 'True' : 'False';
+    }
+    if (typeof value === 'number') {
+      return String(value);
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.toText(item)).join(' ');
+    }
+    return 'System.Collections.Hashtable';
+  }
+
+  /**
+   * Uses the separator of the platform, as PowerShell accepts both on every platform
+   */
+  private normalizePath(filePath: string): string {
+    return filePath.replace(/[\\/]/g, path.sep);
+  }
+
+  /**
+   * Evaluates a token range, restoring the current position afterwards
+   */
+  private withRange<T>(start: number, end: number, evaluate: () => T): T {
+    const position = this.position;
+    const limit = this.limit;
+    this.position = start;
+    this.limit = end;
+    try {
+      return evaluate();
+    } finally {
+      this.position = position;
+      this.limit = limit;
+    }
+  }
+
+  /**
+   * Evaluates other tokens, such as the inside of a string, restoring the current ones afterwards
+   */
+  private withTokens<T>(tokens: ScriptToken[], evaluate: () => T): T {
+    const current = this.tokens;
+    this.tokens = tokens;
+    try {
+      return this.withRange(0, tokens.length, evaluate);
+    } finally {
+      this.tokens = current;
+    }
+  }
+
+  /**
+   * Splits a token range on line breaks and semicolons outside brackets
+   */
+  private splitStatements(start: number, end: number): { start: number; end: number }[] {
+    const statements: { start: number; end: number }[] = [];
+    let index = start;
+    while (index < end) {
+      const token = this.tokens[index];
+      if (token.kind === 'newline' || this.isOperator(token, ';')) {
+        index++;
+        continue;
+      }
+      const statementEnd = Math.min(this.findStatementEnd(index), end);
+      statements.push({ start: index, end: statementEnd });
+      index = statementEnd;
+    }
+    return statements;
+  }
+
+  /**
+   * Finds the end of the statement starting at an index: a line break, a semicolon, a pipe or an unmatched closing bracket
+   */
+  private findStatementEnd(index: number): number {
+    let depth = 0;
+    for (; index < this.tokens.length; index++) {
+      const token = this.tokens[index];
+      if (this.isOpening(token)) {
+        depth++;
+      } else if (token.kind === 'operator' && (token.value === ')' || token.value === '}' || token.value === ']')) {
+        if (depth === 0) {
+          return index;
+        }
+        depth--;
+      } else if (depth === 0 && (token.kind === 'newline' || this.isOperator(token, ';') || this.isOperator(token, '|'))) {
+        return index;
+      }
+    }
+    return this.tokens.length;
+  }
+
+  /**
+   * Finds the bracket closing the one at an index
+   */
+  private findClosing(index: number): number {
+    let depth = 0;
+    for (let current = index; current < this.tokens.length; current++) {
+      const token = this.tokens[current];
+      if (this.isOpening(token)) {
+        depth++;
+      } else if (token.kind === 'operator' && (token.value === ')' || token.value === '}' || token.value === ']') && --depth === 0) {
+        return current;
+      }
+    }
+    return this.fail('Missing closing bracket');
+  }
+
+  /**
+   * Finds the bracket opening the one closing at an index
+   */
+  private findOpening(index: number): number {
+    let depth = 0;
+    for (let current = index; current >= 0; current--) {
+      const token = this.scriptTokens[current];
+      if (token.kind === 'operator' && (token.value === ')' || token.value === '}' || token.value === ']')) {
+        depth++;
+      } else if (this.isOpening(token) && --depth === 0) {
+        return current;
+      }
+    }
+    return 0;
+  }
+
+  /**
+   * Finds the closest token before an index that is not a line break
+   */
+  private findPreviousSignificant(index: number): number {
+    let current = index - 1;
+    while (current >= 0 && this.scriptTokens[current].kind === 'newline') {
+      current--;
+    }
+    return current;
+  }
+
+  /**
+   * Checks if a token starts a statement, where a variable can be assigned
+   */
+  private isStatementStart(index: number): boolean {
+    const previous = this.scriptTokens[index - 1];
+    return !previous || previous.kind === 'newline' || (previous.kind === 'operator' && ['{', '}', ';', ']', '('].includes(previous.value));
+  }
+
+  /**
+   * Checks if a word is in command position
+   */
+  private isCommandStart(index: number): boolean {
+    const previous = this.scriptTokens[index - 1];
+    return !previous || previous.kind === 'newline' || (previous.kind === 'operator' && LocalizationCallParser.COMMAND_STARTS.has(previous.value));
+  }
+
+  /**
+   * Checks if a token opens a bracket
+   */
+  private isOpening(token: ScriptToken): boolean {
+    return token.kind === 'operator' && ['(', '{', '[', '$(', '@(', '@{'].includes(token.value);
+  }
+
+  /**
+   * Checks if a token is a given operator
+   */
+  private isOperator(token: ScriptToken | undefined, value: string): boolean {
+    return token?.kind === 'operator' && token.value === value;
+  }
+
+  /**
+   * Checks if the current token, inside the current range, is a given operator
+   */
+  private atOperator(value: string): boolean {
+    return this.position < this.limit && this.isOperator(this.tokens[this.position], value);
+  }
+
+  /**
+   * Skips line breaks inside the current range
+   */
+  private skipNewlines(): void {
+    while (this.position < this.limit && this.tokens[this.position].kind === 'newline') {
+      this.position++;
+    }
+  }
+
+  /**
+   * Splits part of the script into tokens, skipping blanks, comments and line continuations
+   */
+  private tokenize(start: number, end: number): ScriptToken[] {
+    const tokens: ScriptToken[] = [];
+    const text = this.text;
+    let index = start;
+
+    const push = (kind: ScriptToken['kind'], value: string, tokenEnd: number, contentStart?: number) => {
+      tokens.push({ kind, value, start: index, end: tokenEnd, contentStart });
+      index = tokenEnd;
+    };
+    const match = (pattern: RegExp): RegExpExecArray | null => {
+      pattern.lastIndex = index;
+      const result = pattern.exec(text);
+      return result && index + result[0].length <= end ? result : null;
+    };
+
+    while (index < end) {
+      const char = text[index];
+      const next = text[index + 1];
+
+      if (char === ' ' || char === '\t' || char === '\r' || char === '\uFEFF') {
+        index++;
+      } else if (char === '`' && (next === '\n' || (next === '\r' && text[index + 2] === '\n'))) {
+        index += next === '\r' ? 3 : 2;
+      } else if (char === '<' && next === '#') {
+        const commentEnd = text.indexOf('#>', index + 2);
+        index = commentEnd === -1 || commentEnd + 2 > end ? end : commentEnd + 2;
+      } else if (char === '#') {
+        const commentEnd = text.indexOf('\n', index);
+        index = commentEnd === -1 || commentEnd > end ? end : commentEnd;
+      } else if (char === '\n') {
+        push('newline', '\n', index + 1);
+      } else if (char === '@' && (next === '\'' || next === '"') && /^[ \t]*\r?\n/.test(text.substring(index + 2, end))) {
+        // Here-strings end at a line starting with the closing quote
+        const bodyStart = text.indexOf('\n', index) + 1;
+        const terminator = text.indexOf(`\n${next}@`, bodyStart - 1);
+        const bodyEnd = terminator === -1 || terminator > end ? end : terminator;
+        const body = text.substring(bodyStart, Math.max(bodyStart, bodyEnd)).replace(/\r$/, '');
+        push(next === '"' ? 'expandableString' : 'string', body, Math.min(end, bodyEnd + 3), bodyStart);
+      } else if (char === '\'') {
+        let current = index + 1;
+        let value = '';
+        while (current < end && !(text[current] === '\'' && text[current + 1] !== '\'')) {
+          value += text[current];
+          current += text[current] === '\'' ? 2 : 1;
+        }
+        push('string', value, Math.min(end, current + 1));
+      } else if (char === '"') {
+        let current = index + 1;
+        while (current < end && !(text[current] === '"' && text[current + 1] !== '"')) {
+          current += text[current] === '`' || text[current] === '"' ? 2 : 1;
+        }
+        push('expandableString', text.substring(index + 1, Math.min(current, end)), Math.min(end, current + 1), index + 1);
+      } else if (char === '$' && next === '(') {
+        push('operator', '$(', index + 2);
+      } else if (char === '$' && match(LocalizationCallParser.VARIABLE_PATTERN)) {
+        const variable = match(LocalizationCallParser.VARIABLE_PATTERN)!;
+        push('variable', variable[1] ?? variable[2], index + variable[0].length);
+      } else if (char === '@' && (next === '{' || next === '(')) {
+        push('operator', `@${next}`, index + 2);
+      } else if (char === '@' && /[A-Za-z_]/.test(next ?? '')) {
+        const splat = match(/@(\w+)/y)!;
+        push('splat', splat[1], index + splat[0].length);
+      } else if (char === '-' && /[A-Za-z_]/.test(next ?? '') && match(LocalizationCallParser.PARAMETER_PATTERN)) {
+        const parameter = match(LocalizationCallParser.PARAMETER_PATTERN)!;
+        push('parameter', parameter[1], index + parameter[0].length);
+      } else if (match(LocalizationCallParser.NUMBER_PATTERN)) {
+        const number = match(LocalizationCallParser.NUMBER_PATTERN)!;
+        push('number', number[0], index + number[0].length);
+      } else if (match(LocalizationCallParser.WORD_PATTERN)) {
+        const word = match(LocalizationCallParser.WORD_PATTERN)!;
+        push('word', word[0], index + word[0].length);
+      } else {
+        push('operator', char, index + 1);
+      }
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Converts offsets to a zero-based source range
+   */
+  private toRange(start: number, end: number, lineStarts: number[]): SourceRange {
+    const startPosition = this.toPosition(start, lineStarts);
+    const endPosition = this.toPosition(end, lineStarts);
+    return {
+      startLine: startPosition.line,
+      startCharacter: startPosition.character,
+      endLine: endPosition.line,
+      endCharacter: endPosition.character
+    };
+  }
+
+  /**
+   * Converts an offset to a line and character
+   */
+  private toPosition(offset: number, lineStarts: number[]): { line: number; character: number } {
+    let line = 0;
+    while (line + 1 < lineStarts.length && lineStarts[line + 1] <= offset) {
+      line++;
+    }
+    return { line, character: offset - lineStarts[line] };
+  }
+
+  /**
+   * Computes the offset of each line start
+   */
+  private getLineStarts(): number[] {
+    const lineStarts = [0];
+    for (let index = 0; index < this.text.length; index++) {
+      if (this.text[index] === '\n') {
+        lineStarts.push(index + 1);
+      }
+    }
+    return lineStarts;
+  }
+
+  /**
+   * Throws an evaluation error, making the call unresolved
+   */
+  private fail(message: string): never {
+    throw new Error(message);
+  }
+
+  /**
+   * Checks if a value is a hashtable
+   */
+  private static isObject(value: DataFileValue): value is DataFileObject {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
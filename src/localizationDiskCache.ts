@@ -0,0 +1,99 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import * as crypto from 'crypto';
+import { Logger } from './logger';
+import { LocalizationCall, LocalizationCacheEntry } from './types';
+
+/**
+ * Stores parsed localization results on disk so they survive VS Code restarts
+ *
+ * Each entry records the content hash of every input it was computed from, with
+ * `null` for files that did not exist. Callers compare those hashes with the
+ * current ones before trusting an entry.
+ */
+export class LocalizationDiskCache {
+  /**
+   * Bumped whenever the shape of the persisted calls changes
+   */
+  private static readonly FORMAT_VERSION = 1;
+  private static readonly FOLDER_NAME = 'localizationCache';
+
+  private logger: Logger;
+  private cachePath: string;
+
+  constructor(storagePath: string) {
+    this.logger = Logger.getInstance();
+    this.cachePath = path.join(storagePath, LocalizationDiskCache.FOLDER_NAME);
+  }
+
+  /**
+   * Hashes the content of an input file
+   */
+  public static hash(text: string): string {
+    return crypto.createHash('sha256').update(text).digest('hex');
+  }
+
+  /**
+   * Checks if an entry was computed from exactly the given input hashes
+   */
+  public static isCurrent(entry: LocalizationCacheEntry, inputs: Record<string, string | null>): boolean {
+    const entryPaths = Object.keys(entry.inputs);
+    return entryPaths.length === Object.keys(inputs).length &&
+      entryPaths.every(filePath => inputs[filePath] === entry.inputs[filePath]);
+  }
+
+  /**
+   * Reads an entry, nothing when it is missing, unreadable or written by another format version
+   */
+  public async read(key: string): Promise<LocalizationCacheEntry | null> {
+    let text: string;
+    try {
+      text = await fs.promises.readFile(this.getEntryPath(key), 'utf8');
+    } catch {
+      return null;
+    }
+
+    try {
+      const entry = JSON.parse(text) as LocalizationCacheEntry;
+      return entry.version === LocalizationDiskCache.FORMAT_VERSION && entry.key === key ? entry : null;
+    } catch (error) {
+      this.logger.warn(`Ignoring corrupt localization cache entry for ${key}: ${(error as Error).message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Writes an entry, logging instead of failing since the cache is only an optimization
+   */
+  public async write(key: string, inputs: Record<string, string | null>, calls: LocalizationCall[]): Promise<void> {
+    const entry: LocalizationCacheEntry = { version: LocalizationDiskCache.FORMAT_VERSION, key, inputs, calls };
+    try {
+      await fs.promises.mkdir(this.cachePath, { recursive: true });
+      await fs.promises.writeFile(this.getEntryPath(key), JSON.stringify(entry), 'utf8');
+    } catch (error) {
+      this.logger.warn(`Failed to persist localization cache entry for ${key}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Removes an entry
+   */
+  public async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.getEntryPath(key), { force: true });
+  }
+
+  /**
+   * Removes every entry
+   */
+  public async clear(): Promise<void> {
+    await fs.promises.rm(this.cachePath, { recursive: true, force: true });
+    this.logger.debug(`Cleared persisted localization cache: ${this.cachePath}`);
+  }
+
+  /**
+   * Gets the file of an entry, named after a hash of its key
+   */
+  private getEntryPath(key: string): string {
+    return path.join(this.cachePath, `${LocalizationDiskCache.hash(key).substring(0, 32)}.json`);
+  }
+}
@@ -0,0 +1,342 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { Logger } from './logger';
+import { ConfigurationManager } from './configuration';
+import { LocalizationService } from './localizationService';
+import { PowerShellModuleScanner } from './moduleScanner';
+import { LocalizationParityChecker } from './parityChecker';
+import { LocalizationExtractStringProvider } from './extractStringProvider';
+import { LocalizationKeyScanner } from './localizationKeyScanner';
+import { CultureResolver } from './cultureResolver';
+import { Utils } from './utils';
+import {
+  CultureDataFile,
+  DataFileValue,
+  LocalizationCall,
+  LocalizationKeyDefinition,
+  LocalizationKeyStatus,
+  ModuleContext
+} from './types';
+
+interface ModuleNode {
+  kind: 'module';
+  modulePath: string;
+  module: ModuleContext;
+}
+
+interface CallNode {
+  kind: 'call';
+  modulePath: string;
+  module: ModuleContext;
+  call: LocalizationCall;
+}
+
+interface KeyNode {
+  kind: 'key';
+  parent: CallNode;
+  key: string;
+  cultures: CultureNode[];
+}
+
+interface CultureNode {
+  kind: 'culture';
+  key: string;
+  dataFile: CultureDataFile;
+  status: LocalizationKeyStatus;
+  value?: DataFileValue;
+  definition?: LocalizationKeyDefinition;
+}
+
+/**
+ * Keys of one culture data file with where they are defined
+ */
+interface CultureKeys {
+  dataFile: CultureDataFile;
+  /** Keys as written, by lowercase name */
+  keys: Map<string, string>;
+  /** Key definitions, by lowercase name */
+  definitions: Map<string, LocalizationKeyDefinition>;
+  values: Record<string, DataFileValue>;
+}
+
+/**
+ * Node of the Localization Explorer
+ */
+export type LocalizationExplorerNode = ModuleNode | CallNode | KeyNode | CultureNode;
+
+/**
+ * Lists modules, their Import-LocalizedData calls and the keys of each data file in the sidebar
+ *
+ * Every key shows its status per culture: present, missing, or identical to the
+ * default culture (likely untranslated).
+ */
+export class LocalizationExplorerProvider implements vscode.TreeDataProvider<LocalizationExplorerNode> {
+  public static readonly VIEW_ID = 'powershellLocalization.explorer';
+  public static readonly REFRESH_COMMAND = 'powershellLocalization.explorer.refresh';
+  public static readonly FIND_USAGES_COMMAND = 'powershellLocalization.explorer.findUsages';
+  public static readonly COPY_KEY_COMMAND = 'powershellLocalization.explorer.copyKey';
+  public static readonly ADD_MISSING_TRANSLATIONS_COMMAND = 'powershellLocalization.explorer.addMissingTranslations';
+
+  private static readonly STATUS_ICONS: Record<LocalizationKeyStatus, vscode.ThemeIcon> = {
+    present: new vscode.ThemeIcon('pass', new vscode.ThemeColor('testing.iconPassed')),
+    missing: new vscode.ThemeIcon('error', new vscode.ThemeColor('list.errorForeground')),
+    untranslated: new vscode.ThemeIcon('warning', new vscode.ThemeColor('list.warningForeground'))
+  };
+
+  private logger: Logger;
+  private onDidChangeTreeDataEmitter = new vscode.EventEmitter<LocalizationExplorerNode | undefined>();
+  public readonly onDidChangeTreeData = this.onDidChangeTreeDataEmitter.event;
+
+  constructor(
+    private localizationService: LocalizationService,
+    private moduleScanner: PowerShellModuleScanner,
+    private extractStringProvider: LocalizationExtractStringProvider
+  ) {
+    this.logger = Logger.getInstance();
+    this.logger.info('LocalizationExplorerProvider initialized');
+  }
+
+  /**
+   * Reloads the whole tree
+   */
+  public refresh(): void {
+    this.onDidChangeTreeDataEmitter.fire(undefined);
+  }
+
+  /**
+   * Creates the tree item of a node
+   */
+  public getTreeItem(node: LocalizationExplorerNode): vscode.TreeItem {
+    switch (node.kind) {
+      case 'module': {
+        const item = new vscode.TreeItem(path.basename(node.module.rootPath), vscode.TreeItemCollapsibleState.Collapsed);
+        item.description = vscode.workspace.asRelativePath(node.module.rootPath);
+        item.tooltip = node.module.manifestPath ?? node.modulePath;
+        item.iconPath = new vscode.ThemeIcon('package');
+        item.contextValue = 'module';
+        return item;
+      }
+      case 'call': {
+        const item = new vscode.TreeItem(`$${node.call.bindingVariable}`, vscode.TreeItemCollapsibleState.Collapsed);
+        item.description = `${node.call.fileName} · ${path.basename(node.call.sourceFile)}:${node.call.range.startLine + 1}`;
+        item.tooltip = path.join(node.call.baseDirectory, node.call.fileName);
+        item.iconPath = new vscode.ThemeIcon('symbol-variable');
+        item.contextValue = 'call';
+        item.command = this.createOpenCommand(node.call.sourceFile, node.call.range.startLine, node.call.range.startCharacter);
+        return item;
+      }
+      case 'key': {
+        const item = new vscode.TreeItem(node.key, vscode.TreeItemCollapsibleState.Collapsed);
+        const missing = node.cultures.filter(culture => culture.status === 'missing');
+        const untranslated = node.cultures.filter(culture => culture.status === 'untranslated');
+        item.description = [
+          missing.length > 0 ? `missing: ${missing.map(culture => CultureResolver.getDisplayName(culture.dataFile.culture)).join(', ')}` : '',
+          untranslated.length > 0 ? `untranslated: ${untranslated.map(culture => CultureResolver.getDisplayName(culture.dataFile.culture)).join(', ')}` : ''
+        ].filter(text => text.length > 0).join(' · ');
+        item.iconPath = missing.length > 0
+          ? LocalizationExplorerProvider.STATUS_ICONS.missing
+          : untranslated.length > 0 ? LocalizationExplorerProvider.STATUS_ICONS.untranslated : new vscode.ThemeIcon('key');
+        item.contextValue = missing.length > 0 ? 'keyWithMissingTranslations' : 'key';
+
+        // Opens the key in the default culture, or in the first culture that has it
+        const definition = this.getKeyDefinition(node);
+        if (definition) {
+          item.command = this.createOpenCommand(definition.filePath, definition.line, definition.character);
+        }
+        return item;
+      }
+      case 'culture': {
+        const item = new vscode.TreeItem(CultureResolver.getDisplayName(node.dataFile.culture), vscode.TreeItemCollapsibleState.None);
+        item.description = node.status === 'missing'
+          ? 'missing'
+          : node.value === undefined ? '' : Utils.truncateString(Utils.formatLocalizationValue(node.value), 80);
+        item.tooltip = node.dataFile.filePath;
+        item.iconPath = LocalizationExplorerProvider.STATUS_ICONS[node.status];
+        item.contextValue = `culture-${node.status}`;
+        item.command = this.createOpenCommand(node.dataFile.filePath, node.definition?.line ?? 0, node.definition?.character ?? 0);
+        return item;
+      }
+    }
+  }
+
+  /**
+   * Gets the children of a node, the modules at the root
+   */
+  public async getChildren(node?: LocalizationExplorerNode): Promise<LocalizationExplorerNode[]> {
+    try {
+      if (!node) {
+        return await this.getModuleNodes();
+      }
+
+      switch (node.kind) {
+        case 'module': {
+          const calls = await this.localizationService.getLocalizationCalls(node.modulePath) ?? [];
+          return calls.map(call => ({ kind: 'call', modulePath: node.modulePath, module: node.module, call }));
+        }
+        case 'call':
+          return await this.getKeyNodes(node);
+        case 'key':
+          return node.cultures;
+        default:
+          return [];
+      }
+    } catch (error) {
+      this.logger.error('Failed to load Localization Explorer nodes', error as Error);
+      return [];
+    }
+  }
+
+  /**
+   * Shows every usage of a key across the scripts of its module
+   */
+  public async findUsages(node: KeyNode): Promise<void> {
+    try {
+      const calls = await this.localizationService.getLocalizationCalls(node.parent.modulePath) ?? [];
+      const usages = await this.localizationService.findKeyUsages(node.parent.module, calls, [node.parent.call], node.key);
+      const locations = usages.map(usage => new vscode.Location(
+        vscode.Uri.file(usage.filePath),
+        new vscode.Range(usage.line, usage.character, usage.line, usage.character + usage.key.length)
+      ));
+
+      // The references peek is anchored on the key definition
+      const definition = this.getKeyDefinition(node);
+      const anchor = definition
+        ? { filePath: definition.filePath, position: new vscode.Position(definition.line, definition.character) }
+        : { filePath: node.parent.call.sourceFile, position: new vscode.Position(node.parent.call.range.startLine, 0) };
+      await vscode.commands.executeCommand('editor.action.showReferences', vscode.Uri.file(anchor.filePath), anchor.position, locations);
+    } catch (error) {
+      this.logger.error(`Failed to find usages of ${node.key}`, error as Error);
+      vscode.window.showErrorMessage(`Failed to find usages: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Copies a key name to the clipboard
+   */
+  public async copyKey(node: KeyNode): Promise<void> {
+    await vscode.env.clipboard.writeText(node.key);
+  }
+
+  /**
+   * Adds a key to every culture missing it, stubbed with the default culture value
+   */
+  public async addMissingTranslations(node: KeyNode): Promise<void> {
+    try {
+      const defaultCulture = ConfigurationManager.getDefaultCulture(vscode.Uri.file(node.parent.modulePath));
+      const reference = node.cultures.find(culture => culture.dataFile.culture === defaultCulture && culture.status !== 'missing')
+        ?? node.cultures.find(culture => culture.status !== 'missing');
+      if (typeof reference?.value !== 'string') {
+        vscode.window.showWarningMessage(`Only string values can be stubbed, '${node.key}' has no string value to copy.`);
+        return;
+      }
+
+      const edit = new vscode.WorkspaceEdit();
+      const todoPrefix = ConfigurationManager.getTodoPrefix(vscode.Uri.file(node.parent.modulePath));
+      const missing = node.cultures.filter(culture => culture.status === 'missing');
+      for (const culture of missing) {
+        const value = `${todoPrefix}${reference.value}`;
+        if (!await this.extractStringProvider.addEntry(edit, culture.dataFile, node.key, value)) {
+          vscode.window.showErrorMessage(`Could not find where to add '${node.key}' in ${culture.dataFile.filePath}.`);
+          return;
+        }
+      }
+
+      if (await vscode.workspace.applyEdit(edit)) {
+        this.logger.info(`Added ${node.key} to ${missing.length} culture data file(s)`);
+        this.refresh();
+      }
+    } catch (error) {
+      this.logger.error(`Failed to add missing translations of ${node.key}`, error as Error);
+      vscode.window.showErrorMessage(`Failed to add missing translations: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Gets one node per module with localization, skipping files of an already listed module
+   */
+  private async getModuleNodes(): Promise<ModuleNode[]> {
+    const nodes: ModuleNode[] = [];
+    const visitedRoots = new Set<string>();
+
+    for (const moduleInfo of await this.moduleScanner.getModulesWithLocalization()) {
+      const module = await this.localizationService.resolveModule(moduleInfo.filePath);
+      if (!module || visitedRoots.has(module.rootPath)) {
+        continue;
+      }
+      visitedRoots.add(module.rootPath);
+      nodes.push({ kind: 'module', modulePath: moduleInfo.filePath, module });
+    }
+
+    return nodes.sort((a, b) => a.module.rootPath.localeCompare(b.module.rootPath));
+  }
+
+  /**
+   * Gets the keys of every culture data file of a call, with their status per culture
+   */
+  private async getKeyNodes(parent: CallNode): Promise<KeyNode[]> {
+    const defaultCulture = ConfigurationManager.getDefaultCulture(vscode.Uri.file(parent.modulePath));
+    const cultures: CultureKeys[] = [];
+
+    for (const dataFile of await this.localizationService.getCultureDataFiles(parent.call)) {
+      const text = await this.localizationService.readDocumentText(dataFile.filePath);
+      const locations = text !== null ? LocalizationKeyScanner.findKeys(text) : [];
+      cultures.push({
+        dataFile,
+        keys: new Map(locations.map(location => [location.key.toLowerCase(), location.key])),
+        definitions: new Map(locations.map(location => [location.key.toLowerCase(), { ...dataFile, line: location.line, character: location.character }])),
+        values: await this.localizationService.getDataFileData(parent.modulePath, dataFile) ?? {}
+      });
+    }
+
+    const defaultEntry = cultures.find(culture => culture.dataFile.culture === defaultCulture);
+    // Keys ignore case like PowerShell, each is shown as written in the default culture when it has it
+    const keys = new Map<string, string>();
+    for (const culture of defaultEntry ? [defaultEntry, ...cultures] : cultures) {
+      culture.keys.forEach((key, name) => keys.set(name, keys.get(name) ?? key));
+    }
+
+    return [...keys].sort(([, a], [, b]) => a.localeCompare(b)).map(([name, key]) => ({
+      kind: 'key',
+      parent,
+      key,
+      cultures: cultures.map(culture => {
+        const definition = culture.definitions.get(name);
+        const value = Utils.resolvePropertyPath(culture.values, [key]);
+        let status: LocalizationKeyStatus = definition ? 'present' : 'missing';
+        if (definition && defaultEntry && culture !== defaultEntry &&
+          LocalizationParityChecker.isUntranslated(Utils.resolvePropertyPath(defaultEntry.values, [key]), value)) {
+          status = 'untranslated';
+        }
+        return { kind: 'culture', key, dataFile: culture.dataFile, status, value, definition };
+      })
+    }));
+  }
+
+  /**
+   * Gets where a key is defined, preferring the default culture
+   */
+  private getKeyDefinition(node: KeyNode): LocalizationKeyDefinition | undefined {
+    const defaultCulture = ConfigurationManager.getDefaultCulture(vscode.Uri.file(node.parent.modulePath));
+    return node.cultures.find(culture => culture.dataFile.culture === defaultCulture)?.definition
+      ?? node.cultures.find(culture => culture.definition)?.definition;
+  }
+
+  /**
+   * Creates the command opening a file at a position
+   */
+  private createOpenCommand(filePath: string, line: number, character: number): vscode.Command {
+    const position = new vscode.Position(line, character);
+    return {
+      command: 'vscode.open',
+      title: 'Open',
+      arguments: [vscode.Uri.file(filePath), { selection: new vscode.Range(position, position) }]
+    };
+  }
+
+  /**
+   * Disposes of all resources
+   */
+  public dispose(): void {
+    this.onDidChangeTreeDataEmitter.dispose();
+  }
+}
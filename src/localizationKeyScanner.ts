@@ -0,0 +1,354 @@
+import {
+  LocalizationDataFileForm,
+  LocalizationKeyEntry,
+  LocalizationKeyInsertionPoint,
+  LocalizationKeyLocation
+} from './types';
+
+/**
+ * Key entry found by the scanner, as text offsets
+ */
+interface ScannedEntry {
+  key: string;
+  start: number;
+  valueStart: number;
+  end: number;
+}
+
+/**
+ * Result of scanning a data file, as text offsets
+ */
+interface ScanResult {
+  entries: ScannedEntry[];
+  // Where a new entry goes: the here-string terminator line or the closing brace
+  insertion?: { form: LocalizationDataFileForm; offset: number };
+}
+
+/**
+ * Locates localization keys inside culture data files (.psd1)
+ *
+ * Supports both data file forms:
+ * - Hashtable literals: `@{ Key1 = 'Value1'; 'Key 2' = "Value2" }`
+ * - `ConvertFrom-StringData` here-strings with one `Key = Value` pair per line
+ */
+export class LocalizationKeyScanner {
+  private static readonly KEY_PATTERN = /[A-Za-z_][\w.-]*/y;
+  private static readonly STRING_DATA_COMMAND = /ConvertFrom-StringData\s+(?:-StringData\s+)?$/i;
+
+  /**
+   * Finds all top-level keys with their positions
+   */
+  public static findKeys(text: string): LocalizationKeyLocation[] {
+    return this.findEntries(text).map(({ key, line, character }) => ({ key, line, character }));
+  }
+
+  /**
+   * Finds all top-level entries with the position of their key and the span of their value
+   */
+  public static findEntries(text: string): LocalizationKeyEntry[] {
+    const lineStarts = this.getLineStarts(text);
+    return this.scan(text).entries.map(entry => {
+      const start = this.toPosition(entry.start, lineStarts);
+      const valueStart = this.toPosition(Math.min(entry.valueStart, entry.end), lineStarts);
+      const end = this.toPosition(entry.end, lineStarts);
+      return {
+        key: entry.key,
+        line: start.line,
+        character: start.character,
+        valueLine: valueStart.line,
+        valueCharacter: valueStart.character,
+        endLine: end.line,
+        endCharacter: end.character
+      };
+    });
+  }
+
+  /**
+   * Finds where a new top-level entry can be added
+   * For here-strings this is the start of the terminator line, for hashtables the closing brace
+   */
+  public static findInsertionPoint(text: string): LocalizationKeyInsertionPoint | undefined {
+    const insertion = this.scan(text).insertion;
+    if (!insertion) {
+      return undefined;
+    }
+    return { form: insertion.form, ...this.toPosition(insertion.offset, this.getLineStarts(text)) };
+  }
+
+  /**
+   * Scans the text for key entries
+   */
+  private static scan(text: string): ScanResult {
+    const keys: ScannedEntry[] = [];
+    let insertion: ScanResult['insertion'];
+    // Hashtable entry whose value is still being read
+    let openEntry: ScannedEntry | undefined;
+    let depth = 0;
+    let expectKey = false;
+    let index = 0;
+
+    while (index < text.length) {
+      const char = text[index];
+      const next = text[index + 1];
+
+      // Block comments
+      if (char === '<' && next === '#') {
+        const end = text.indexOf('#>', index + 2);
+        index = end === -1 ? text.length : end + 2;
+        continue;
+      }
+
+      // Line comments, which also end the value of an entry
+      if (char === '#') {
+        if (depth === 1 && openEntry) {
+          openEntry.end = this.trimEnd(text, index);
+          openEntry = undefined;
+        }
+        const end = text.indexOf('\n', index);
+        index = end === -1 ? text.length : end;
+        continue;
+      }
+
+      // Here-strings
+      if (char === '@' && (next === '\'' || next === '"') && this.isLineBreakAt(text, index + 2)) {
+        const terminator = `\n${next}@`;
+        const bodyStart = text.indexOf('\n', index) + 1;
+        const end = text.indexOf(terminator, bodyStart - 1);
+        const bodyEnd = end === -1 ? text.length : end;
+
+        if (this.STRING_DATA_COMMAND.test(text.substring(0, index))) {
+          keys.push(...this.findStringDataKeys(text, bodyStart, bodyEnd));
+          insertion ??= { form: 'stringData', offset: end === -1 ? text.length : end + 1 };
+        }
+
+        index = end === -1 ? text.length : end + terminator.length;
+        expectKey = false;
+        continue;
+      }
+
+      // Hashtable and script block nesting
+      if (char === '@' && next === '{') {
+        depth++;
+        expectKey = depth === 1;
+        index += 2;
+        continue;
+      }
+      if (char === '{') {
+        depth++;
+        expectKey = false;
+        index++;
+        continue;
+      }
+      if (char === '}') {
+        if (depth === 1 && openEntry) {
+          openEntry.end = this.trimEnd(text, index);
+          openEntry = undefined;
+        }
+        if (depth === 1) {
+          insertion ??= { form: 'hashtable', offset: index };
+        }
+        depth = Math.max(0, depth - 1);
+        expectKey = false;
+        index++;
+        continue;
+      }
+
+      // Statement separators inside the top-level hashtable
+      if (char === ';' || char === '\n') {
+        if (depth === 1 && openEntry) {
+          openEntry.end = this.trimEnd(text, index);
+          openEntry = undefined;
+        }
+        expectKey = depth === 1;
+        index++;
+        continue;
+      }
+
+      if (char === ' ' || char === '\t' || char === '\r') {
+        index++;
+        continue;
+      }
+
+      // Quoted strings (either a quoted key or a value)
+      if (char === '\'' || char === '"') {
+        const end = this.findStringEnd(text, index);
+        if (expectKey && this.isAssignmentAt(text, end)) {
+          openEntry = {
+            key: text.substring(index + 1, end - 1),
+            start: index + 1,
+            valueStart: this.skipAssignment(text, end),
+            end: text.length
+          };
+          keys.push(openEntry);
+        }
+        index = end;
+        expectKey = false;
+        continue;
+      }
+
+      // Bareword keys
+      if (expectKey) {
+        this.KEY_PATTERN.lastIndex = index;
+        const match = this.KEY_PATTERN.exec(text);
+        if (match) {
+          const end = index + match[0].length;
+          if (this.isAssignmentAt(text, end)) {
+            openEntry = { key: match[0], start: index, valueStart: this.skipAssignment(text, end), end: text.length };
+            keys.push(openEntry);
+          }
+          index = end;
+          expectKey = false;
+          continue;
+        }
+      }
+
+      expectKey = false;
+      index++;
+    }
+
+    return { entries: keys, insertion };
+  }
+
+  /**
+   * Finds the location of a single key, if present, ignoring case like PowerShell hashtables
+   */
+  public static findKey(text: string, key: string): LocalizationKeyLocation | undefined {
+    return this.findKeys(text).find(location => location.key.toLowerCase() === key.toLowerCase());
+  }
+
+  /**
+   * Reads `Key = Value` lines from a ConvertFrom-StringData here-string body
+   */
+  private static findStringDataKeys(text: string, bodyStart: number, bodyEnd: number): ScannedEntry[] {
+    const keys: ScannedEntry[] = [];
+    let lineStart = bodyStart;
+
+    while (lineStart < bodyEnd) {
+      let lineEnd = text.indexOf('\n', lineStart);
+      if (lineEnd === -1 || lineEnd > bodyEnd) {
+        lineEnd = bodyEnd;
+      }
+
+      const line = text.substring(lineStart, lineEnd);
+      const separator = line.indexOf('=');
+      const trimmed = line.trimStart();
+      if (separator > 0 && !trimmed.startsWith('#')) {
+        const key = line.substring(0, separator).trim();
+        if (key) {
+          keys.push({
+            key,
+            start: lineStart + line.indexOf(key),
+            valueStart: this.skipBlanks(text, lineStart + separator + 1),
+            end: this.trimEnd(text, lineEnd)
+          });
+        }
+      }
+
+      lineStart = lineEnd + 1;
+    }
+
+    return keys;
+  }
+
+  /**
+   * Returns the offset just past the closing quote of a string starting at `start`
+   */
+  private static findStringEnd(text: string, start: number): number {
+    const quote = text[start];
+    let index = start + 1;
+
+    while (index < text.length) {
+      const char = text[index];
+      if (quote === '"' && char === '`') {
+        index += 2;
+        continue;
+      }
+      if (char === quote) {
+        // Doubled quotes are escaped quotes
+        if (text[index + 1] === quote) {
+          index += 2;
+          continue;
+        }
+        return index + 1;
+      }
+      index++;
+    }
+
+    return text.length;
+  }
+
+  /**
+   * Checks if the next non-blank character is an assignment `=`
+   */
+  private static isAssignmentAt(text: string, index: number): boolean {
+    index = this.skipBlanks(text, index);
+    return text[index] === '=' && text[index + 1] !== '=';
+  }
+
+  /**
+   * Returns the offset of the value following an assignment `=`
+   */
+  private static skipAssignment(text: string, index: number): number {
+    return this.skipBlanks(text, this.skipBlanks(text, index) + 1);
+  }
+
+  /**
+   * Moves an offset forward over blanks
+   */
+  private static skipBlanks(text: string, index: number): number {
+    while (text[index] === ' ' || text[index] === '\t') {
+      index++;
+    }
+    return index;
+  }
+
+  /**
+   * Checks if only blanks remain before the end of the line
+   */
+  private static isLineBreakAt(text: string, index: number): boolean {
+    while (text[index] === ' ' || text[index] === '\t' || text[index] === '\r') {
+      index++;
+    }
+    return text[index] === '\n';
+  }
+
+  /**
+   * Moves an end offset back over trailing blanks
+   */
+  private static trimEnd(text: string, end: number): number {
+    while (end > 0 && (text[end - 1] === ' ' || text[end - 1] === '\t' || text[end - 1] === '\r')) {
+      end--;
+    }
+    return end;
+  }
+
+  /**
+   * Computes the offset of each line start
+   */
+  private static getLineStarts(text: string): number[] {
+    const lineStarts = [0];
+    for (let index = 0; index < text.length; index++) {
+      if (text[index] === '\n') {
+        lineStarts.push(index + 1);
+      }
+    }
+    return lineStarts;
+  }
+
+  /**
+   * Converts an offset to a line and character
+   */
+  private static toPosition(offset: number, lineStarts: number[]): { line: number; character: number } {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (lineStarts[middle] <= offset) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+    return { line: low, character: offset - lineStarts[low] };
+  }
+}
@@ -0,0 +1,743 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import {
+  BindingVariableMatch,
+  CultureDataFile,
+  DataFileObject,
+  LocalizationCall,
+  LocalizationData,
+  LocalizationDataSource,
+  LocalizationDataSources,
+  LocalizationKeyDefinition,
+  LocalizationKeyTarget,
+  LocalizationKeyUsage,
+  ModuleContext,
+  UnresolvedLocalizationCall
+} from './types';
+import { Logger } from './logger';
+import { PowerShellExecutor } from './powershellExecutor';
+import { ModuleResolver } from './moduleResolver';
+import { PowerShellModuleScanner } from './moduleScanner';
+import { ConfigurationManager } from './configuration';
+import { LocalizationKeyScanner } from './localizationKeyScanner';
+import { LocalizationDataFileParser } from './dataFileParser';
+import { LocalizationCallParser } from './localizationCallParser';
+import { CultureResolver } from './cultureResolver';
+import { LocalizationDiskCache } from './localizationDiskCache';
+import { LocalizationDependencyGraph } from './dependencyGraph';
+import { Utils } from './utils';
+
+/**
+ * Shared access to the localization data of PowerShell modules
+ *
+ * Resolves the module that owns a file, runs the parser for it and caches the
+ * results so every provider works from the same data. With a disk cache, results
+ * are also persisted and reused across sessions while their input files are unchanged.
+ * Each cache entry records the files it was computed from, so a file change only
+ * evicts the entries that read it.
+ */
+export class LocalizationService {
+  private static readonly CALLS_KEY_PREFIX = 'calls|';
+  private static readonly DATA_KEY_PREFIX = 'data|';
+
+  private logger: Logger;
+  private powershellExecutor: PowerShellExecutor;
+  private moduleResolver: ModuleResolver;
+  private moduleScanner: PowerShellModuleScanner;
+  private localizationCache: Map<string, LocalizationCall[]> = new Map();
+  private callCache: Map<string, LocalizationCall[]> = new Map();
+  private dependencyGraph = new LocalizationDependencyGraph();
+
+  constructor(
+    powershellExecutor: PowerShellExecutor = new PowerShellExecutor(),
+    private diskCache?: LocalizationDiskCache
+  ) {
+    this.logger = Logger.getInstance();
+    this.powershellExecutor = powershellExecutor;
+    this.moduleResolver = new ModuleResolver();
+    this.moduleScanner = new PowerShellModuleScanner();
+  }
+
+  /**
+   * Resolves the module that owns the given file
+   */
+  public resolveModule(filePath: string): Promise<ModuleContext | null> {
+    return this.moduleResolver.resolveModule(filePath);
+  }
+
+  /**
+   * Checks if a file is the manifest of the module owning it
+   * A manifest named after the module is also the base directory fallback of calls without -BaseDirectory
+   */
+  public async isModuleManifest(filePath: string): Promise<boolean> {
+    const module = await this.moduleResolver.resolveModule(filePath);
+    return module?.manifestPath !== undefined && path.relative(module.manifestPath, filePath) === '';
+  }
+
+  /**
+   * Gets localization data for the module owning the given file, using cache when available
+   * When a line is given, each binding variable comes from the call whose scope encloses it
+   */
+  public async getLocalizationData(
+    filePath: string,
+    uiCulture: string = ConfigurationManager.getUICulture(vscode.Uri.file(filePath)),
+    line?: number
+  ): Promise<LocalizationData | null> {
+    const calls = await this.getLocalizedCalls(filePath, uiCulture);
+    return calls ? LocalizationService.toLocalizationData(calls, filePath, line) : null;
+  }
+
+  /**
+   * Gets every Import-LocalizedData call of the module owning the given file with the data it loads
+   * Data files are read by the native parser, PowerShell only loads the ones it cannot handle
+   */
+  public async getLocalizedCalls(
+    filePath: string,
+    uiCulture: string = ConfigurationManager.getUICulture(vscode.Uri.file(filePath))
+  ): Promise<LocalizationCall[] | null> {
+    try {
+      // Find the module that owns this document
+      const module = await this.moduleResolver.resolveModule(filePath);
+      if (!module) {
+        this.logger.warn(`No module found for file: ${filePath}`);
+        return null;
+      }
+
+      // Cache key is the module root so every file of a module shares its data
+      const cacheKey = `${LocalizationService.DATA_KEY_PREFIX}${module.rootPath}|${uiCulture}`;
+
+      // Check cache first
+      if (this.localizationCache.has(cacheKey)) {
+        this.logger.debug(`Using cached localization data for: ${cacheKey}`);
+        return this.localizationCache.get(cacheKey)!;
+      }
+
+      let calls = await this.loadPersistedCalls(cacheKey);
+      const isPersisted = calls !== null;
+      if (!calls) {
+        calls = await this.parseLocalizedCalls(filePath, uiCulture);
+        if (!calls) {
+          if (!ConfigurationManager.isPowerShellFallbackEnabled()) {
+            return null;
+          }
+
+          calls = [];
+          for (const moduleFile of module.moduleFiles) {
+            calls.push(...await this.powershellExecutor.parseLocalizationData(moduleFile, uiCulture));
+          }
+        }
+      }
+
+      // The data depends on every data file searched for the culture, found or not
+      const dataFiles = calls.flatMap(call => this.getSearchedDataFiles(call, call.uiCulture ?? uiCulture));
+      const inputs = [...this.getModuleInputs(module), ...dataFiles];
+      if (!isPersisted) {
+        await this.persistCalls(cacheKey, inputs, calls);
+      }
+
+      // Cache the result
+      this.localizationCache.set(cacheKey, calls);
+      this.dependencyGraph.setDependencies(cacheKey, inputs);
+
+      return calls;
+    } catch (error) {
+      this.logger.error(`Failed to get localization data for ${filePath}`, error as Error);
+      return null;
+    }
+  }
+
+  /**
+   * Reads the data file of every call with the native parser
+   * Returns null when a data file needs PowerShell to be evaluated
+   */
+  private async parseLocalizedCalls(filePath: string, uiCulture: string): Promise<LocalizationCall[] | null> {
+    const calls = await this.getLocalizationCalls(filePath, uiCulture);
+    if (!calls) {
+      return null;
+    }
+
+    // Several calls may read the same data file
+    const parsedFiles = new Map<string, LocalizationData[string]>();
+    const localizedCalls: LocalizationCall[] = [];
+    for (const call of calls) {
+      // Like Import-LocalizedData, a missing data file leaves the binding variable unset
+      const dataFile = this.resolveCultureDataFile(call, call.uiCulture ?? uiCulture);
+      const text = dataFile ? await this.readDocumentText(dataFile.filePath) : null;
+      if (!dataFile || text === null) {
+        localizedCalls.push({ ...call, filePath: null, culture: null, data: null });
+        continue;
+      }
+
+      if (!parsedFiles.has(dataFile.filePath)) {
+        try {
+          parsedFiles.set(dataFile.filePath, LocalizationDataFileParser.parse(text) as LocalizationData[string]);
+        } catch (error) {
+          this.logger.debug(`Native parser cannot read ${dataFile.filePath}, falling back to PowerShell: ${(error as Error).message}`);
+          return null;
+        }
+      }
+      localizedCalls.push({ ...call, ...dataFile, data: parsedFiles.get(dataFile.filePath) });
+    }
+
+    return localizedCalls;
+  }
+
+  /**
+   * Finds the data file Import-LocalizedData reads for a culture
+   * Walks the parent cultures down to the data file in the base directory itself
+   */
+  public resolveCultureDataFile(source: LocalizationDataSource, uiCulture: string): CultureDataFile | null {
+    for (const culture of CultureResolver.getFallbackChain(uiCulture)) {
+      const filePath = path.join(source.baseDirectory, culture, source.fileName);
+      if (fs.existsSync(filePath)) {
+        return { culture, filePath };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Gets the data files Import-LocalizedData looks for, up to the one it reads
+   */
+  private getSearchedDataFiles(source: LocalizationDataSource, uiCulture: string): string[] {
+    const filePaths: string[] = [];
+    for (const culture of CultureResolver.getFallbackChain(uiCulture)) {
+      const filePath = path.join(source.baseDirectory, culture, source.fileName);
+      filePaths.push(filePath);
+      if (fs.existsSync(filePath)) {
+        break;
+      }
+    }
+    return filePaths;
+  }
+
+  /**
+   * Gets the data file read by each binding variable of the module owning the given file
+   * When a line is given, each binding variable comes from the call whose scope encloses it
+   */
+  public async getDataSources(filePath: string, line?: number): Promise<LocalizationDataSources | null> {
+    const calls = await this.getLocalizationCalls(filePath);
+    if (!calls) {
+      return null;
+    }
+
+    const dataSources: LocalizationDataSources = {};
+    for (const variableName of new Set(calls.map(call => call.bindingVariable))) {
+      const call = LocalizationService.selectCall(calls, variableName, filePath, line)!;
+      dataSources[variableName] = { fileName: call.fileName, baseDirectory: call.baseDirectory };
+    }
+    return dataSources;
+  }
+
+  /**
+   * Gets every Import-LocalizedData call of the module owning the given file, without its data
+   * Calls are found by the native parser, PowerShell only resolves the ones it cannot evaluate
+   * Arguments such as `$PSUICulture` evaluate to the given culture
+   */
+  public async getLocalizationCalls(
+    filePath: string,
+    uiCulture: string = ConfigurationManager.getUICulture(vscode.Uri.file(filePath))
+  ): Promise<LocalizationCall[] | null> {
+    try {
+      const module = await this.moduleResolver.resolveModule(filePath);
+      if (!module) {
+        return null;
+      }
+
+      const cacheKey = `${LocalizationService.CALLS_KEY_PREFIX}${module.rootPath}|${uiCulture}`;
+      if (this.callCache.has(cacheKey)) {
+        return this.callCache.get(cacheKey)!;
+      }
+
+      let calls = await this.loadPersistedCalls(cacheKey);
+      if (!calls) {
+        calls = [];
+        for (const moduleFile of module.moduleFiles) {
+          calls.push(...await this.findModuleFileCalls(moduleFile, uiCulture));
+        }
+        await this.persistCalls(cacheKey, this.getModuleInputs(module), calls);
+      }
+
+      this.callCache.set(cacheKey, calls);
+      this.dependencyGraph.setDependencies(cacheKey, this.getModuleInputs(module));
+      return calls;
+    } catch (error) {
+      this.logger.error(`Failed to get localization data files for ${filePath}`, error as Error);
+      return null;
+    }
+  }
+
+  /**
+   * Finds the Import-LocalizedData calls of a module file
+   * When some calls cannot be evaluated statically, PowerShell lists the calls of the file instead
+   */
+  private async findModuleFileCalls(moduleFile: string, uiCulture: string): Promise<LocalizationCall[]> {
+    const text = await this.readDocumentText(moduleFile);
+    const entries = text !== null ? LocalizationCallParser.parse(text, moduleFile, uiCulture) : [];
+    const calls = entries.filter((entry): entry is LocalizationCall => !('unresolved' in entry));
+    const unresolved = entries.filter((entry): entry is UnresolvedLocalizationCall => 'unresolved' in entry);
+    if (unresolved.length === 0) {
+      return calls;
+    }
+
+    if (ConfigurationManager.isPowerShellFallbackEnabled()) {
+      try {
+        return await this.powershellExecutor.parseLocalizationDataSources(moduleFile, uiCulture);
+      } catch (error) {
+        this.logger.warn(`PowerShell could not list the localization data files of ${moduleFile}: ${(error as Error).message}`);
+      }
+    }
+
+    for (const entry of unresolved) {
+      this.logger.warn(`Skipping Import-LocalizedData call at ${moduleFile}:${entry.range.startLine + 1}: ${entry.reason}`);
+    }
+    return calls;
+  }
+
+  /**
+   * Gets the files the Import-LocalizedData calls of a module are parsed from
+   */
+  private getModuleInputs(module: ModuleContext): string[] {
+    return module.manifestPath ? [module.manifestPath, ...module.moduleFiles] : module.moduleFiles;
+  }
+
+  /**
+   * Hashes input files as the parsers see them, open documents included
+   */
+  private async hashInputs(filePaths: string[]): Promise<Record<string, string | null>> {
+    const inputs: Record<string, string | null> = {};
+    for (const filePath of filePaths) {
+      const text = fs.existsSync(filePath) ? await this.readDocumentText(filePath) : null;
+      inputs[filePath] = text === null ? null : LocalizationDiskCache.hash(text);
+    }
+    return inputs;
+  }
+
+  /**
+   * Loads persisted calls, discarding them when any of their input files changed
+   */
+  private async loadPersistedCalls(key: string): Promise<LocalizationCall[] | null> {
+    const entry = await this.diskCache?.read(key);
+    if (!entry) {
+      return null;
+    }
+
+    if (!LocalizationDiskCache.isCurrent(entry, await this.hashInputs(Object.keys(entry.inputs)))) {
+      this.logger.debug(`Persisted localization cache entry is stale: ${key}`);
+      await this.diskCache!.delete(key);
+      return null;
+    }
+
+    this.logger.debug(`Using persisted localization cache entry: ${key}`);
+    return entry.calls;
+  }
+
+  /**
+   * Persists calls with the hashes of the files they were computed from
+   */
+  private async persistCalls(key: string, inputPaths: string[], calls: LocalizationCall[]): Promise<void> {
+    if (this.diskCache) {
+      await this.diskCache.write(key, await this.hashInputs([...new Set(inputPaths)]), calls);
+    }
+  }
+
+  /**
+   * Picks the call that binds a variable at a location: the innermost call whose scope
+   * encloses the line, then the last call at script scope, then the last call
+   */
+  public static selectCall<T extends LocalizationCall>(
+    calls: T[],
+    variableName: string,
+    filePath?: string,
+    line?: number
+  ): T | undefined {
+    const candidates = calls.filter(call => call.bindingVariable === variableName);
+
+    const enclosing = candidates
+      .filter(call =>
+        call.scope !== null &&
+        line !== undefined &&
+        filePath !== undefined &&
+        path.relative(call.sourceFile, filePath) === '' &&
+        call.scope.startLine <= line &&
+        line <= call.scope.endLine
+      )
+      // Nested scopes start after the scopes enclosing them, and later calls win within a scope
+      .sort((a, b) => b.scope!.startLine - a.scope!.startLine || b.range.startLine - a.range.startLine);
+    if (enclosing.length > 0) {
+      return enclosing[0];
+    }
+
+    const scriptScope = candidates.filter(call => call.scope === null);
+    return scriptScope.length > 0 ? scriptScope[scriptScope.length - 1] : candidates[candidates.length - 1];
+  }
+
+  /**
+   * Flattens calls into the data of each binding variable as seen from a location
+   */
+  public static toLocalizationData(calls: LocalizationCall[], filePath?: string, line?: number): LocalizationData {
+    const localizationData: LocalizationData = {};
+    for (const variableName of new Set(calls.map(call => call.bindingVariable))) {
+      const data = this.selectCall(calls, variableName, filePath, line)?.data;
+      if (data) {
+        localizationData[variableName] = data;
+      }
+    }
+    return localizationData;
+  }
+
+  /**
+   * Gets the data a culture data file supplies to the module owning the given file, whichever call reads it
+   */
+  public async getDataFileData(filePath: string, dataFile: CultureDataFile): Promise<DataFileObject | undefined> {
+    const calls = await this.getLocalizedCalls(filePath, dataFile.culture);
+    const call = calls?.find(candidate =>
+      candidate.filePath !== null &&
+      path.relative(candidate.filePath, dataFile.filePath) === '' &&
+      candidate.data
+    );
+    return call?.data ?? undefined;
+  }
+
+  /**
+   * Lists the culture folders that contain the data file of a binding variable, along with the
+   * data file in the base directory itself as the invariant culture
+   */
+  public async getCultureDataFiles(source: LocalizationDataSource): Promise<CultureDataFile[]> {
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(source.baseDirectory, { withFileTypes: true });
+    } catch {
+      return [];
+    }
+
+    const dataFiles = entries
+      .filter(entry => entry.isDirectory())
+      .map(entry => ({
+        culture: entry.name,
+        filePath: path.join(source.baseDirectory, entry.name, source.fileName)
+      }));
+
+    const invariantFile = path.join(source.baseDirectory, source.fileName);
+    if (!await this.isModuleManifest(invariantFile)) {
+      dataFiles.push({ culture: CultureResolver.INVARIANT_CULTURE, filePath: invariantFile });
+    }
+
+    return dataFiles
+      .filter(dataFile => fs.existsSync(dataFile.filePath))
+      .sort((a, b) => a.culture.localeCompare(b.culture));
+  }
+
+  /**
+   * Gets the keys defined by each culture data file of a binding variable
+   */
+  public async getCultureKeys(source: LocalizationDataSource): Promise<Map<string, Set<string>>> {
+    const cultureKeys = new Map<string, Set<string>>();
+
+    for (const dataFile of await this.getCultureDataFiles(source)) {
+      const text = await this.readDocumentText(dataFile.filePath);
+      if (text !== null) {
+        cultureKeys.set(dataFile.culture, new Set(LocalizationKeyScanner.findKeys(text).map(location => location.key)));
+      }
+    }
+
+    return cultureKeys;
+  }
+
+  /**
+   * Finds where a key is defined in every culture data file of the given sources
+   * The current UI culture is listed first
+   */
+  public async getKeyDefinitions(sources: LocalizationDataSource[], key: string): Promise<LocalizationKeyDefinition[]> {
+    const uiCulture = ConfigurationManager.getUICulture(sources.length > 0 ? vscode.Uri.file(sources[0].baseDirectory) : undefined);
+    const definitions: LocalizationKeyDefinition[] = [];
+    const visitedFiles = new Set<string>();
+
+    for (const source of sources) {
+      for (const dataFile of await this.getCultureDataFiles(source)) {
+        // Several binding variables may read the same data file
+        if (visitedFiles.has(dataFile.filePath)) {
+          continue;
+        }
+        visitedFiles.add(dataFile.filePath);
+
+        const definition = await this.findKeyDefinition(dataFile, key);
+        if (definition) {
+          definitions.push(definition);
+        }
+      }
+    }
+
+    return definitions.sort((a, b) => Number(b.culture === uiCulture) - Number(a.culture === uiCulture));
+  }
+
+  /**
+   * Finds where a key is defined in one culture data file
+   */
+  public async findKeyDefinition(dataFile: CultureDataFile, key: string): Promise<LocalizationKeyDefinition | undefined> {
+    const text = await this.readDocumentText(dataFile.filePath);
+    const location = text !== null ? LocalizationKeyScanner.findKey(text, key) : undefined;
+    return location ? { ...dataFile, line: location.line, character: location.character } : undefined;
+  }
+
+  /**
+   * Finds the localization key at a position, either a `$BindingVariable.Key`
+   * usage in a script or a key definition in a culture data file
+   */
+  public async findKeyAt(document: vscode.TextDocument, position: vscode.Position): Promise<LocalizationKeyTarget | null> {
+    const filePath = document.uri.fsPath;
+
+    if (Utils.isPowerShellDataFile(filePath)) {
+      if (await this.isModuleManifest(filePath)) {
+        return null;
+      }
+
+      const calls = await this.getLocalizationCalls(filePath);
+      const variableNames = calls ? this.getBindingVariablesForDataFile(calls, filePath) : [];
+      if (variableNames.length === 0) {
+        return null;
+      }
+
+      const location = LocalizationKeyScanner.findKeys(document.getText()).find(candidate =>
+        candidate.line === position.line &&
+        position.character >= candidate.character &&
+        position.character <= candidate.character + candidate.key.length
+      );
+      const sources = [this.getDataSourceOfDataFile(filePath, calls!)];
+      return location ? { ...location, variableNames, sources } : null;
+    }
+
+    // The call whose scope encloses the usage supplies the data
+    const dataSources = await this.getDataSources(filePath, position.line);
+    if (!dataSources) {
+      return null;
+    }
+
+    const match = Utils.findBindingVariableMatchAt(
+      document.lineAt(position.line).text,
+      position.character,
+      Object.keys(dataSources)
+    );
+    if (!match?.key || match.keyStart === undefined) {
+      return null;
+    }
+
+    // On `$Data.Errors.NotFound`, the position picks how deep the target goes
+    const segmentIndex = match.path.findIndex(segment => position.character >= segment.start && position.character <= segment.end);
+    const nestedPath = match.path.slice(1, Math.max(segmentIndex, 0) + 1).map(segment => segment.name);
+
+    return {
+      key: match.key,
+      variableNames: [match.variableName],
+      sources: [dataSources[match.variableName]],
+      line: position.line,
+      character: match.keyStart,
+      nestedPath
+    };
+  }
+
+  /**
+   * Gets the data source a culture data file belongs to
+   * The file is in a culture folder of the base directory, or in the base directory itself as the
+   * last fallback; when the folder name could be either, the calls reading the file decide
+   */
+  public getDataSourceOfDataFile(filePath: string, calls: LocalizationCall[] = []): LocalizationDataSource {
+    const fileName = path.basename(filePath);
+    const folder = path.dirname(filePath);
+    const candidates: LocalizationDataSource[] = [{ baseDirectory: folder, fileName }];
+    if (CultureResolver.isValidCultureName(path.basename(folder))) {
+      candidates.unshift({ baseDirectory: path.dirname(folder), fileName });
+    }
+    return candidates.find(candidate => this.getBindingVariablesForSources(calls, [candidate]).length > 0) ?? candidates[0];
+  }
+
+  /**
+   * Gets the binding variables of the calls that read the given culture data file
+   */
+  public getBindingVariablesForDataFile(calls: LocalizationCall[], filePath: string): string[] {
+    return this.getBindingVariablesForSources(calls, [this.getDataSourceOfDataFile(filePath, calls)]);
+  }
+
+  /**
+   * Gets the binding variables of the calls that read any of the given data sources
+   */
+  public getBindingVariablesForSources(calls: LocalizationCall[], sources: LocalizationDataSource[]): string[] {
+    const variableNames = calls
+      .filter(call => sources.some(source =>
+        path.resolve(source.baseDirectory) === path.resolve(call.baseDirectory) &&
+        source.fileName === call.fileName
+      ))
+      .map(call => call.bindingVariable);
+    return [...new Set(variableNames)];
+  }
+
+  /**
+   * Gets the PowerShell scripts (.ps1/.psm1) owned by a module
+   */
+  public async getModuleScriptFiles(module: ModuleContext): Promise<string[]> {
+    const files = await this.moduleScanner.scanForScriptFiles(module.rootPath);
+
+    const ownedFiles: string[] = [];
+    for (const file of files) {
+      // Skip scripts that belong to a nested module of their own
+      const owner = await this.moduleResolver.resolveModule(file.fsPath);
+      if (owner?.rootPath === module.rootPath) {
+        ownedFiles.push(file.fsPath);
+      }
+    }
+    return ownedFiles;
+  }
+
+  /**
+   * Finds every `$BindingVariable.Key` usage of a key across the scripts of a module, ignoring case
+   * Only usages whose binding variable is bound to one of the given data sources at that location are kept
+   */
+  public async findKeyUsages(
+    module: ModuleContext,
+    calls: LocalizationCall[],
+    sources: LocalizationDataSource[],
+    key: string
+  ): Promise<LocalizationKeyUsage[]> {
+    const usages: LocalizationKeyUsage[] = [];
+    const variableNames = this.getBindingVariablesForSources(calls, sources);
+    if (variableNames.length === 0) {
+      return usages;
+    }
+
+    const bindingVarRegex = Utils.createBindingVariableRegex(variableNames);
+    for (const filePath of await this.getModuleScriptFiles(module)) {
+      const text = await this.readDocumentText(filePath);
+      if (text === null) {
+        continue;
+      }
+
+      text.split(/\r?\n/).forEach((lineText, line) => {
+        for (const match of Utils.findBindingVariableMatches(lineText, bindingVarRegex)) {
+          if (match.key?.toLowerCase() !== key.toLowerCase() || match.keyStart === undefined) {
+            continue;
+          }
+
+          const call = LocalizationService.selectCall(calls, match.variableName, filePath, line);
+          if (call && this.getBindingVariablesForSources([call], sources).length > 0) {
+            usages.push({ filePath, variableName: match.variableName, key: match.key, line, character: match.keyStart });
+          }
+        }
+      });
+    }
+
+    return usages;
+  }
+
+  /**
+   * Collects every key referenced through the given binding variables across the scripts of a module
+   * Keys are lowercased since PowerShell ignores their case. Returns null when a binding variable is
+   * used bare, splatted, with a dynamic indexer or in a form that is not followed, as any of its keys
+   * may then be read
+   */
+  public async findUsedKeys(module: ModuleContext, variableNames: string[]): Promise<Set<string> | null> {
+    const usedKeys = new Set<string>();
+    if (variableNames.length === 0) {
+      return usedKeys;
+    }
+
+    const bindingVarRegex = Utils.createBindingVariableRegex(variableNames);
+    const referenceRegex = Utils.createVariableReferenceRegex(variableNames);
+    for (const filePath of await this.getModuleScriptFiles(module)) {
+      const text = await this.readDocumentText(filePath);
+      if (text === null) {
+        continue;
+      }
+
+      for (const lineText of text.split(/\r?\n/)) {
+        const matches = Utils.findBindingVariableMatches(lineText, bindingVarRegex);
+
+        // Splatting, e.g. `@Data`, and scopes such as `$using:Data` are not followed
+        const starts = new Set(matches.map(match => match.start));
+        const unfollowed = [...lineText.matchAll(referenceRegex)].find(reference => !starts.has(reference.index!));
+        if (unfollowed) {
+          this.logger.debug(`Binding variable referenced as ${unfollowed[0]} in ${filePath}, every key may be used`);
+          return null;
+        }
+
+        for (const match of matches) {
+          if (match.key) {
+            usedKeys.add(match.key.toLowerCase());
+          } else if (LocalizationService.isOpaqueUsage(lineText, match)) {
+            this.logger.debug(`Binding variable $${match.variableName} used without a static key in ${filePath}, every key may be used`);
+            return null;
+          }
+        }
+      }
+    }
+
+    return usedKeys;
+  }
+
+  /**
+   * Checks if a binding variable without a key is read as a whole, e.g. `$Data`, `$Data[$name]` or `$Data.$name`,
+   * rather than being assigned or being the start of a longer variable name
+   */
+  private static isOpaqueUsage(lineText: string, match: BindingVariableMatch): boolean {
+    const rest = lineText.substring(match.end);
+    return !/^[\w:]/.test(rest) && !/^\s*=(?!=)/.test(rest);
+  }
+
+  /**
+   * Reads a file, preferring the unsaved content of an open editor
+   */
+  public async readDocumentText(filePath: string): Promise<string | null> {
+    const openDocument = vscode.workspace.textDocuments.find(document => document.uri.fsPath === filePath);
+    if (openDocument) {
+      return openDocument.getText();
+    }
+
+    try {
+      return await fs.promises.readFile(filePath, 'utf8');
+    } catch (error) {
+      this.logger.warn(`Failed to read file ${filePath}: ${error}`);
+      return null;
+    }
+  }
+
+  /**
+   * Clears all cached localization data
+   */
+  public clearCache(): void {
+    this.localizationCache.clear();
+    this.callCache.clear();
+    this.dependencyGraph.clear();
+    this.moduleResolver.clearCache();
+    this.logger.debug('Localization cache cleared');
+  }
+
+  /**
+   * Clears the in-memory cache and every persisted entry
+   */
+  public async clearPersistentCache(): Promise<void> {
+    this.clearCache();
+    await this.diskCache?.clear();
+  }
+
+  /**
+   * Evicts the entries computed from a file, or from any file inside a folder
+   * Returns the number of evicted entries
+   */
+  public async clearCacheForFile(filePath: string): Promise<number> {
+    const keys = this.dependencyGraph.getDependents(filePath);
+    for (const key of keys) {
+      this.localizationCache.delete(key);
+      this.callCache.delete(key);
+      this.dependencyGraph.removeEntry(key);
+      await this.diskCache?.delete(key);
+    }
+
+    // A file no entry read may be a new module or manifest, and module files decide the module layout
+    if (keys.length === 0 || keys.some(key => key.startsWith(LocalizationService.CALLS_KEY_PREFIX))) {
+      this.moduleResolver.clearCache();
+    }
+
+    this.logger.debug(`Evicted ${keys.length} cache entries for: ${filePath}`);
+    return keys.length;
+  }
+}
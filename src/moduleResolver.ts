@@ -0,0 +1,247 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { ModuleContext } from './types';
+import { Logger } from './logger';
+import {
+  REGEX_PATTERNS,
+  POWERSHELL_MODULE_EXTENSION,
+  POWERSHELL_DATA_EXTENSION,
+  POWERSHELL_SCRIPT_EXTENSION
+} from './utils';
+
+/**
+ * A directory recognized as the root of a module, before localization filtering
+ */
+interface ModuleRoot {
+  rootPath: string;
+  manifestPath?: string;
+  candidateFiles: string[];
+}
+
+/**
+ * Resolves the PowerShell module that owns a given file
+ *
+ * Ownership is determined by walking up from the file to the nearest directory
+ * that holds a module manifest (.psd1 with module keys) or a root module (.psm1).
+ * Scripts that are dot-sourced from Public/Private folders therefore resolve to
+ * the module that loads them.
+ */
+export class ModuleResolver {
+  private logger: Logger;
+  private moduleCache: Map<string, ModuleContext | null> = new Map();
+
+  constructor() {
+    this.logger = Logger.getInstance();
+  }
+
+  /**
+   * Resolves the module that owns the given file
+   */
+  public async resolveModule(filePath: string): Promise<ModuleContext | null> {
+    const startDirectory = path.dirname(filePath);
+
+    if (this.moduleCache.has(startDirectory)) {
+      return this.moduleCache.get(startDirectory)!;
+    }
+
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath));
+    const boundary = workspaceFolder?.uri.fsPath;
+
+    let module: ModuleContext | null = null;
+    try {
+      module = await this.findOwningModule(startDirectory, boundary);
+    } catch (error) {
+      this.logger.error(`Failed to resolve module for ${filePath}`, error as Error);
+    }
+
+    if (module) {
+      this.logger.debug(`Resolved module root ${module.rootPath} for file: ${filePath}`);
+    } else {
+      this.logger.debug(`No owning module with Import-LocalizedData found for file: ${filePath}`);
+    }
+
+    this.moduleCache.set(startDirectory, module);
+    return module;
+  }
+
+  /**
+   * Walks up the directory tree until a module root is found
+   */
+  private async findOwningModule(startDirectory: string, boundary?: string): Promise<ModuleContext | null> {
+    let directory = startDirectory;
+
+    while (true) {
+      const moduleRoot = await this.getModuleRootAtDirectory(directory);
+      if (moduleRoot) {
+        // The nearest module owns the file, even when it has no localization
+        return this.createModuleContext(moduleRoot.rootPath, moduleRoot.candidateFiles, moduleRoot.manifestPath);
+      }
+
+      const parent = path.dirname(directory);
+      if (parent === directory || (boundary && !this.isSameOrChildPath(parent, boundary))) {
+        return null;
+      }
+      directory = parent;
+    }
+  }
+
+  /**
+   * Returns the module root at the given directory, if the directory is one
+   */
+  private async getModuleRootAtDirectory(directory: string): Promise<ModuleRoot | null> {
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(directory, { withFileTypes: true });
+    } catch {
+      return null;
+    }
+
+    const files = entries.filter(entry => entry.isFile()).map(entry => entry.name);
+
+    // A module manifest takes precedence over loose .psm1 files
+    for (const fileName of files.filter(name => name.toLowerCase().endsWith(POWERSHELL_DATA_EXTENSION))) {
+      const manifestPath = path.join(directory, fileName);
+      const manifestModules = await this.readManifestModules(manifestPath);
+      if (manifestModules !== null) {
+        const moduleFiles = manifestModules.length > 0
+          ? manifestModules
+          : this.getSiblingModuleFiles(directory, files);
+        return { rootPath: directory, manifestPath, candidateFiles: moduleFiles };
+      }
+    }
+
+    const psm1Files = this.getSiblingModuleFiles(directory, files);
+    if (psm1Files.length > 0) {
+      return { rootPath: directory, candidateFiles: psm1Files };
+    }
+
+    return null;
+  }
+
+  /**
+   * Builds a module context, keeping only files that call Import-LocalizedData
+   */
+  private async createModuleContext(
+    rootPath: string,
+    candidateFiles: string[],
+    manifestPath?: string
+  ): Promise<ModuleContext | null> {
+    const candidates = new Set<string>();
+    for (const file of candidateFiles) {
+      candidates.add(file);
+      for (const dotSourced of await this.readDotSourcedScripts(file)) {
+        candidates.add(dotSourced);
+      }
+    }
+
+    const moduleFiles: string[] = [];
+    for (const file of candidates) {
+      const content = await this.readFileSafe(file);
+      if (content !== null && REGEX_PATTERNS.IMPORT_LOCALIZED_DATA.test(content)) {
+        moduleFiles.push(file);
+      }
+    }
+
+    if (moduleFiles.length === 0) {
+      return null;
+    }
+
+    return { rootPath, manifestPath, moduleFiles };
+  }
+
+  /**
+   * Reads RootModule and NestedModules from a module manifest
+   * Returns null when the .psd1 file is not a module manifest (e.g. culture data)
+   */
+  private async readManifestModules(manifestPath: string): Promise<string[] | null> {
+    const content = await this.readFileSafe(manifestPath);
+    if (content === null || !REGEX_PATTERNS.MANIFEST_MODULE_VERSION.test(content)) {
+      return null;
+    }
+
+    const directory = path.dirname(manifestPath);
+    const moduleNames: string[] = [];
+
+    const rootModule = REGEX_PATTERNS.MANIFEST_ROOT_MODULE.exec(content);
+    if (rootModule) {
+      moduleNames.push(rootModule[1]);
+    }
+
+    const nestedModules = REGEX_PATTERNS.MANIFEST_NESTED_MODULES.exec(content);
+    if (nestedModules) {
+      for (const match of nestedModules[1].matchAll(REGEX_PATTERNS.QUOTED_STRING)) {
+        moduleNames.push(match[2]);
+      }
+    }
+
+    return moduleNames
+      .filter(name => this.isModuleScript(name))
+      .map(name => path.resolve(directory, name.replace(/\\/g, '/')))
+      .filter(file => fs.existsSync(file));
+  }
+
+  /**
+   * Reads scripts dot-sourced relative to $PSScriptRoot from a module file
+   */
+  private async readDotSourcedScripts(modulePath: string): Promise<string[]> {
+    const content = await this.readFileSafe(modulePath);
+    if (content === null) {
+      return [];
+    }
+
+    const directory = path.dirname(modulePath);
+    const scripts: string[] = [];
+    for (const match of content.matchAll(REGEX_PATTERNS.DOT_SOURCED_SCRIPT)) {
+      const scriptPath = path.resolve(directory, match[1].replace(/\\/g, '/'));
+      if (fs.existsSync(scriptPath)) {
+        scripts.push(scriptPath);
+      }
+    }
+    return scripts;
+  }
+
+  /**
+   * Gets the .psm1 files located directly in a directory
+   */
+  private getSiblingModuleFiles(directory: string, files: string[]): string[] {
+    return files
+      .filter(name => name.toLowerCase().endsWith(POWERSHELL_MODULE_EXTENSION))
+      .map(name => path.join(directory, name));
+  }
+
+  /**
+   * Checks if a manifest entry refers to a script module file
+   */
+  private isModuleScript(fileName: string): boolean {
+    const lowerName = fileName.toLowerCase();
+    return lowerName.endsWith(POWERSHELL_MODULE_EXTENSION) || lowerName.endsWith(POWERSHELL_SCRIPT_EXTENSION);
+  }
+
+  /**
+   * Checks if a path is the same as, or nested inside, another path
+   */
+  private isSameOrChildPath(childPath: string, parentPath: string): boolean {
+    const relative = path.relative(parentPath, childPath);
+    return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+  }
+
+  /**
+   * Reads a file as UTF-8, returning null when it cannot be read
+   */
+  private async readFileSafe(filePath: string): Promise<string | null> {
+    try {
+      return await fs.promises.readFile(filePath, 'utf8');
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Clears the resolved module cache
+   */
+  public clearCache(): void {
+    this.moduleCache.clear();
+    this.logger.debug('Module resolution cache cleared');
+  }
+}
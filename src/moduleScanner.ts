@@ -2,7 +2,7 @@ import * as vscode from 'vscode';
 import { PowerShellModuleInfo } from './types';
 import { Logger } from './logger';
 import { ConfigurationManager } from './configuration';
-import { REGEX_PATTERNS, POWERSHELL_MODULE_EXTENSION } from './utils';
+import { REGEX_PATTERNS, POWERSHELL_MODULE_EXTENSION, POWERSHELL_SCRIPT_EXTENSION } from './utils';
 
 /**
  * Service for scanning and managing PowerShell modules
@@ -21,14 +21,9 @@ export class PowerShellModuleScanner {
     this.logger.info('Scanning workspace for .psm1 files...');
 
     try {
-      const excludePatterns = ConfigurationManager.getSearchExcludePatterns();
-      const excludePattern = excludePatterns.length > 0 ? `{${excludePatterns.join(',')}}` : undefined;
-
-      this.logger.debug(`Using exclude patterns: ${excludePatterns.join(', ')}`);
-
       const psm1Files = await vscode.workspace.findFiles(
         `**/*${POWERSHELL_MODULE_EXTENSION}`,
-        excludePattern
+        this.getExcludePattern()
       );
 
       this.logger.info(`Found ${psm1Files.length} .psm1 file(s)`);
@@ -51,6 +46,32 @@ export class PowerShellModuleScanner {
     }
   }
 
+  /**
+   * Scans a folder for PowerShell script files (.ps1 and .psm1)
+   */
+  public async scanForScriptFiles(folderPath: string): Promise<vscode.Uri[]> {
+    this.logger.debug(`Scanning ${folderPath} for PowerShell script files...`);
+
+    try {
+      return await vscode.workspace.findFiles(
+        new vscode.RelativePattern(vscode.Uri.file(folderPath), `**/*{${POWERSHELL_MODULE_EXTENSION},${POWERSHELL_SCRIPT_EXTENSION}}`),
+        this.getExcludePattern()
+      );
+    } catch (error) {
+      this.logger.error(`Error scanning ${folderPath} for PowerShell script files`, error as Error);
+      return [];
+    }
+  }
+
+  /**
+   * Builds the exclude glob from the configured search exclude patterns
+   */
+  private getExcludePattern(): string | undefined {
+    const excludePatterns = ConfigurationManager.getSearchExcludePatterns();
+    this.logger.debug(`Using exclude patterns: ${excludePatterns.join(', ')}`);
+    return excludePatterns.length > 0 ? `{${excludePatterns.join(',')}}` : undefined;
+  }
+
   /**
    * Analyzes a single PowerShell module file
    */
@@ -0,0 +1,390 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import {
+  CultureKeyList,
+  DataFileObject,
+  DataFileParityReport,
+  LocalizationDataSource,
+  LocalizationKeyLocation,
+  LocalizationParityReport,
+  ModuleParityReport
+} from './types';
+import { Logger } from './logger';
+import { ConfigurationManager } from './configuration';
+import { LocalizationService } from './localizationService';
+import { PowerShellModuleScanner } from './moduleScanner';
+import { LocalizationKeyScanner } from './localizationKeyScanner';
+import { CultureResolver } from './cultureResolver';
+import { DOCUMENT_CHANGE_DEBOUNCE_MS, EXTENSION_NAME, Utils } from './utils';
+
+/**
+ * Culture data file loaded for a parity check
+ */
+interface CultureEntry {
+  culture: string;
+  filePath: string;
+  locations: LocalizationKeyLocation[];
+  values: DataFileObject;
+}
+
+/**
+ * Compares the culture data files of every module against the default culture
+ *
+ * Reports keys missing per culture, keys that only exist in non-default cultures
+ * and values identical to the default culture (likely untranslated).
+ */
+export class LocalizationParityChecker {
+  private logger: Logger;
+  private diagnosticCollection: vscode.DiagnosticCollection;
+  private disposables: vscode.Disposable[] = [];
+  private timeouts: Map<string, NodeJS.Timeout> = new Map();
+  /** Module file checked for each module root, so its diagnostics can be recomputed */
+  private checkedModules: Map<string, string> = new Map();
+
+  constructor(
+    private localizationService: LocalizationService,
+    private moduleScanner: PowerShellModuleScanner
+  ) {
+    this.logger = Logger.getInstance();
+    this.diagnosticCollection = vscode.languages.createDiagnosticCollection('powershellLocalizationParity');
+  }
+
+  /**
+   * Recomputes the diagnostics of a checked module when one of its culture data files changes or closes
+   */
+  public activate(): void {
+    this.disposables.push(
+      vscode.workspace.onDidChangeTextDocument((event) => {
+        this.triggerRecheck(event.document);
+      }),
+      // Closing a data file may discard its unsaved changes
+      vscode.workspace.onDidCloseTextDocument((document) => {
+        this.triggerRecheck(document);
+      })
+    );
+  }
+
+  /**
+   * Checks every module with localization, publishing diagnostics on the culture data files
+   */
+  public async checkWorkspace(): Promise<LocalizationParityReport> {
+    const defaultCulture = ConfigurationManager.getDefaultCulture();
+    const report: LocalizationParityReport = {
+      generatedAt: new Date().toISOString(),
+      defaultCulture,
+      modules: []
+    };
+
+    this.diagnosticCollection.clear();
+    this.checkedModules.clear();
+    const visitedRoots = new Set<string>();
+
+    for (const moduleInfo of await this.moduleScanner.getModulesWithLocalization()) {
+      const module = await this.localizationService.resolveModule(moduleInfo.filePath);
+      if (!module || visitedRoots.has(module.rootPath)) {
+        continue;
+      }
+      visitedRoots.add(module.rootPath);
+
+      const moduleReport = await this.checkModule(moduleInfo.filePath, module.rootPath);
+      if (moduleReport.dataFiles.length > 0) {
+        report.modules.push(moduleReport);
+      }
+    }
+
+    this.logger.info(`Localization parity checked for ${report.modules.length} module(s)`);
+    return report;
+  }
+
+  /**
+   * Checks each data file read by a module
+   */
+  public async checkModule(modulePath: string, rootPath: string): Promise<ModuleParityReport> {
+    // Modules may declare their own default culture
+    const defaultCulture = ConfigurationManager.getDefaultCulture(vscode.Uri.file(modulePath));
+    const moduleReport: ModuleParityReport = { rootPath, defaultCulture, dataFiles: [] };
+    this.checkedModules.set(rootPath, modulePath);
+    const calls = await this.localizationService.getLocalizationCalls(modulePath);
+    if (!calls) {
+      return moduleReport;
+    }
+
+    // Every call counts, including function-scoped ones, and calls that read the same data file are checked once
+    const groups = new Map<string, { source: LocalizationDataSource; variableNames: string[] }>();
+    for (const call of calls) {
+      const groupKey = path.join(path.resolve(call.baseDirectory), call.fileName);
+      const group = groups.get(groupKey) ?? { source: { fileName: call.fileName, baseDirectory: call.baseDirectory }, variableNames: [] };
+      if (!group.variableNames.includes(call.bindingVariable)) {
+        group.variableNames.push(call.bindingVariable);
+      }
+      groups.set(groupKey, group);
+    }
+
+    for (const { source, variableNames } of groups.values()) {
+      moduleReport.dataFiles.push(await this.checkDataFile(modulePath, source, variableNames, defaultCulture));
+    }
+
+    return moduleReport;
+  }
+
+  /**
+   * Compares every culture of one data file against the default culture
+   */
+  private async checkDataFile(
+    modulePath: string,
+    source: LocalizationDataSource,
+    variableNames: string[],
+    defaultCulture: string
+  ): Promise<DataFileParityReport> {
+    const entries: CultureEntry[] = [];
+    for (const dataFile of await this.localizationService.getCultureDataFiles(source)) {
+      const text = await this.localizationService.readDocumentText(dataFile.filePath);
+      const values = await this.localizationService.getDataFileData(modulePath, dataFile);
+      entries.push({
+        ...dataFile,
+        locations: text !== null ? LocalizationKeyScanner.findKeys(text) : [],
+        values: values && typeof values === 'object' && !Array.isArray(values) ? values : {}
+      });
+    }
+
+    const report: DataFileParityReport = {
+      fileName: source.fileName,
+      baseDirectory: source.baseDirectory,
+      variableNames,
+      cultures: entries.map(entry => entry.culture),
+      missingKeys: {},
+      extraKeys: {},
+      untranslatedKeys: {}
+    };
+
+    const defaultEntry = entries.find(entry => entry.culture === defaultCulture);
+    // Without a default culture file, every culture is compared against all known keys
+    const referenceKeys = defaultEntry
+      ? this.getKeys(defaultEntry)
+      : new Map(entries.flatMap(entry => [...this.getKeys(entry)]));
+
+    for (const entry of entries) {
+      if (entry === defaultEntry) {
+        continue;
+      }
+
+      const keys = this.getKeys(entry);
+      const missing = [...referenceKeys].filter(([name]) => !keys.has(name)).map(([, key]) => key);
+      const extra = defaultEntry ? [...keys].filter(([name]) => !referenceKeys.has(name)).map(([, key]) => key) : [];
+      const untranslated = defaultEntry
+        ? [...keys]
+          .filter(([name, key]) => referenceKeys.has(name) && LocalizationParityChecker.isUntranslated(
+            Utils.resolvePropertyPath(defaultEntry.values, [key]),
+            Utils.resolvePropertyPath(entry.values, [key])
+          ))
+          .map(([, key]) => key)
+        : [];
+
+      this.addKeys(report.missingKeys, entry.culture, missing);
+      this.addKeys(report.extraKeys, entry.culture, extra);
+      this.addKeys(report.untranslatedKeys, entry.culture, untranslated);
+
+      this.publishDiagnostics(entry, missing, extra, untranslated, defaultEntry ? defaultCulture : undefined);
+    }
+
+    return report;
+  }
+
+  /**
+   * Publishes the parity findings of a culture data file to the Problems panel
+   */
+  private publishDiagnostics(
+    entry: CultureEntry,
+    missing: string[],
+    extra: string[],
+    untranslated: string[],
+    defaultCulture?: string
+  ): void {
+    const diagnostics: vscode.Diagnostic[] = [];
+    const reference = defaultCulture ? `the default culture (${defaultCulture})` : 'other cultures';
+
+    for (const key of missing) {
+      diagnostics.push(this.createDiagnostic(
+        new vscode.Range(0, 0, 0, 0),
+        `Key '${key}' from ${reference} is missing from ${CultureResolver.getDisplayName(entry.culture)}.`,
+        vscode.DiagnosticSeverity.Warning,
+        'missingTranslation'
+      ));
+    }
+
+    for (const key of extra) {
+      diagnostics.push(this.createDiagnostic(
+        this.getKeyRange(entry, key),
+        `Key '${key}' is not defined in ${reference}.`,
+        vscode.DiagnosticSeverity.Warning,
+        'extraKey'
+      ));
+    }
+
+    for (const key of untranslated) {
+      diagnostics.push(this.createDiagnostic(
+        this.getKeyRange(entry, key),
+        `Value of '${key}' is identical to ${reference} and may not be translated.`,
+        vscode.DiagnosticSeverity.Information,
+        'untranslatedValue'
+      ));
+    }
+
+    this.diagnosticCollection.set(vscode.Uri.file(entry.filePath), diagnostics);
+  }
+
+  /**
+   * Renders a parity report as Markdown
+   */
+  public static toMarkdown(report: LocalizationParityReport): string {
+    const lines: string[] = [
+      '# Localization Parity Report',
+      '',
+      `Default culture: \`${report.defaultCulture}\` — generated ${report.generatedAt}`,
+      ''
+    ];
+
+    if (report.modules.length === 0) {
+      lines.push('No modules with `Import-LocalizedData` were found.');
+    }
+
+    for (const module of report.modules) {
+      lines.push(`## ${path.basename(module.rootPath)}`, '', `\`${module.rootPath}\``, '');
+      if (module.defaultCulture !== report.defaultCulture) {
+        lines.push(`Default culture: \`${module.defaultCulture}\``, '');
+      }
+
+      for (const dataFile of module.dataFiles) {
+        const variables = dataFile.variableNames.map(name => `$${name}`).join(', ');
+        lines.push(`### ${dataFile.fileName} (${variables})`, '');
+        lines.push(`Cultures: ${dataFile.cultures.map(culture => CultureResolver.getDisplayName(culture)).join(', ') || 'none'}`, '');
+        lines.push('| Culture | Missing | Extra | Untranslated |', '|---------|---------|-------|--------------|');
+
+        for (const culture of dataFile.cultures.filter(name => name !== module.defaultCulture)) {
+          lines.push(`| ${CultureResolver.getDisplayName(culture)} | ${dataFile.missingKeys[culture]?.length ?? 0} | ${dataFile.extraKeys[culture]?.length ?? 0} | ${dataFile.untranslatedKeys[culture]?.length ?? 0} |`);
+        }
+        lines.push('');
+
+        for (const culture of dataFile.cultures) {
+          const details = [
+            ['Missing', dataFile.missingKeys[culture]],
+            ['Extra', dataFile.extraKeys[culture]],
+            ['Untranslated', dataFile.untranslatedKeys[culture]]
+          ].filter(([, keys]) => keys && keys.length > 0) as [string, string[]][];
+
+          if (details.length > 0) {
+            lines.push(`#### ${CultureResolver.getDisplayName(culture)}`, '');
+            details.forEach(([label, keys]) => lines.push(`- ${label}: ${keys.map(key => `\`${key}\``).join(', ')}`));
+            lines.push('');
+          }
+        }
+      }
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Renders a parity report as JSON
+   */
+  public static toJson(report: LocalizationParityReport): string {
+    return JSON.stringify(report, null, 2);
+  }
+
+  /**
+   * Checks if a translated value is identical to the default culture value
+   */
+  public static isUntranslated(defaultValue: unknown, value: unknown): boolean {
+    if (defaultValue === undefined || defaultValue === null || value === undefined || value === null) {
+      return false;
+    }
+    // Nested tables and arrays are compared by content
+    const defaultText = typeof defaultValue === 'object' ? JSON.stringify(defaultValue) : String(defaultValue);
+    const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    return defaultText.trim().length > 0 && defaultText === text;
+  }
+
+  /**
+   * Gets the keys of a culture data file by lowercase name, since PowerShell ignores their case
+   */
+  private getKeys(entry: CultureEntry): Map<string, string> {
+    return new Map(entry.locations.map(location => [location.key.toLowerCase(), location.key]));
+  }
+
+  /**
+   * Records keys for a culture when there are any
+   */
+  private addKeys(keyList: CultureKeyList, culture: string, keys: string[]): void {
+    if (keys.length > 0) {
+      keyList[culture] = keys;
+    }
+  }
+
+  /**
+   * Gets the range of a key inside a culture data file
+   */
+  private getKeyRange(entry: CultureEntry, key: string): vscode.Range {
+    const location = entry.locations.find(candidate => candidate.key.toLowerCase() === key.toLowerCase());
+    if (!location) {
+      return new vscode.Range(0, 0, 0, 0);
+    }
+    return new vscode.Range(location.line, location.character, location.line, location.character + key.length);
+  }
+
+  /**
+   * Creates a diagnostic attributed to this extension
+   */
+  private createDiagnostic(
+    range: vscode.Range,
+    message: string,
+    severity: vscode.DiagnosticSeverity,
+    code: string
+  ): vscode.Diagnostic {
+    const diagnostic = new vscode.Diagnostic(range, message, severity);
+    diagnostic.source = EXTENSION_NAME;
+    diagnostic.code = code;
+    return diagnostic;
+  }
+
+  /**
+   * Schedules a new check of the module owning a culture data file, when that module was checked
+   */
+  private async triggerRecheck(document: vscode.TextDocument): Promise<void> {
+    if (!Utils.isPowerShellDataFile(document.uri.fsPath)) {
+      return;
+    }
+
+    const module = await this.localizationService.resolveModule(document.uri.fsPath);
+    const modulePath = module ? this.checkedModules.get(module.rootPath) : undefined;
+    if (!module || !modulePath) {
+      return;
+    }
+
+    const timeout = this.timeouts.get(module.rootPath);
+    if (timeout) {
+      clearTimeout(timeout);
+    }
+
+    this.timeouts.set(module.rootPath, setTimeout(async () => {
+      this.timeouts.delete(module.rootPath);
+      try {
+        // Values are compared too, so the data read from the previous text must go
+        await this.localizationService.clearCacheForFile(document.uri.fsPath);
+        await this.checkModule(modulePath, module.rootPath);
+      } catch (error) {
+        this.logger.error(`Failed to check localization parity of ${module.rootPath}`, error as Error);
+      }
+    }, DOCUMENT_CHANGE_DEBOUNCE_MS));
+  }
+
+  /**
+   * Disposes of all resources
+   */
+  public dispose(): void {
+    this.timeouts.forEach(timeout => clearTimeout(timeout));
+    this.timeouts.clear();
+
+    this.disposables.forEach(disposable => disposable.dispose());
+    this.diagnosticCollection.dispose();
+  }
+}
@@ -1,7 +1,8 @@
 import * as childProcess from 'child_process';
 import * as path from 'path';
-import { LocalizationData } from './types';
+import { LocalizationCall, UnresolvedLocalizationCall } from './types';
 import { Logger } from './logger';
+import { PowerShellHost } from './powershellHost';
 
 /**
  * Service for executing PowerShell scripts and parsing localization data
@@ -9,6 +10,9 @@ import { Logger } from './logger';
 export class PowerShellExecutor {
   private logger: Logger;
   private powershellExecutable: string | null = null;
+  private host: PowerShellHost | null = null;
+  /** Detection in progress, shared by concurrent first requests so only one host is started */
+  private detection: Promise<string> | null = null;
 
   constructor() {
     this.logger = Logger.getInstance();
@@ -16,25 +20,22 @@ export class PowerShellExecutor {
 
   /**
    * Executes the LocalizationParser.ps1 script for a given module
+   * Returns every Import-LocalizedData call of the module with the data it loads
    */
-  public async parseLocalizationData(modulePath: string, uiCulture?: string): Promise<LocalizationData> {
+  public async parseLocalizationData(modulePath: string, uiCulture?: string): Promise<LocalizationCall[]> {
     this.logger.debug(`Parsing localization data for module: ${modulePath} with culture: ${uiCulture || 'default'}`);
 
     try {
-      const scriptPath = path.join(__dirname, '..', 'resources', 'LocalizationParser.ps1');
+      const parameters: Record<string, unknown> = { ModuleFile: modulePath };
 
-      const args = ['-ModuleFile', modulePath];
-      
       // Add UICulture parameter if provided
       if (uiCulture) {
-        args.push('-UICulture', uiCulture);
+        parameters.UICulture = uiCulture;
       }
 
-      const output = await this.executeScript(scriptPath, args);
-
-      const parsed = JSON.parse(output) as LocalizationData;
-      this.logger.debug(`Successfully parsed localization data: ${JSON.stringify(parsed, null, 2)}`);
-      return parsed;
+      const calls = await this.parseCalls(modulePath, parameters);
+      this.logger.debug(`Successfully parsed localization data: ${JSON.stringify(calls, null, 2)}`);
+      return calls;
     } catch (error) {
       if (error instanceof Error) {
         if (error.message.includes('Failed to parse JSON')) {
@@ -47,24 +48,88 @@ export class PowerShellExecutor {
     }
   }
 
+  /**
+   * Executes the LocalizationParser.ps1 script to list the data file read by each Import-LocalizedData call
+   */
+  public async parseLocalizationDataSources(modulePath: string, uiCulture?: string): Promise<LocalizationCall[]> {
+    this.logger.debug(`Listing localization data files for module: ${modulePath}`);
+
+    try {
+      const parameters: Record<string, unknown> = { ModuleFile: modulePath, ListDataFiles: true };
+      if (uiCulture) {
+        parameters.UICulture = uiCulture;
+      }
+
+      const calls = await this.parseCalls(modulePath, parameters);
+      this.logger.debug(`Successfully parsed localization data files: ${JSON.stringify(calls, null, 2)}`);
+      return calls;
+    } catch (error) {
+      this.logger.error('Failed to list localization data files', error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * Runs the parser through the host, dropping the calls it could not resolve
+   */
+  private async parseCalls(modulePath: string, parameters: Record<string, unknown>): Promise<LocalizationCall[]> {
+    const host = await this.getHost();
+    const output = await host.request('parse', parameters);
+
+    const entries = JSON.parse(output) as (LocalizationCall | UnresolvedLocalizationCall)[];
+    const calls: LocalizationCall[] = [];
+    for (const entry of entries) {
+      if ('unresolved' in entry) {
+        this.logger.warn(`Skipping Import-LocalizedData call at ${modulePath}:${entry.range.startLine + 1}: ${entry.reason}`);
+        continue;
+      }
+      calls.push(entry);
+    }
+    return calls;
+  }
+
+  /**
+   * Gets the persistent PowerShell host, detecting the executable on first use
+   */
+  private async getHost(): Promise<PowerShellHost> {
+    await this.detectPowerShellExecutable();
+    return this.host!;
+  }
+
   /**
    * Detects which PowerShell executable is available on the system
    * Checks for pwsh first (PowerShell 7+), then falls back to powershell (Windows PowerShell 5.1)
    */
   private async detectPowerShellExecutable(): Promise<string> {
-    if (this.powershellExecutable) {
+    if (this.powershellExecutable && this.host) {
       return this.powershellExecutable;
     }
 
+    if (!this.detection) {
+      this.detection = this.startPowerShellHost().finally(() => {
+        this.detection = null;
+      });
+    }
+    return this.detection;
+  }
+
+  /**
+   * Starts a host with the first PowerShell executable that answers
+   */
+  private async startPowerShellHost(): Promise<string> {
     const executablesToTry = ['pwsh', 'powershell'];
-    
+    const hostScriptPath = path.join(__dirname, '..', 'resources', 'PowerShellHost.ps1');
+
     for (const executable of executablesToTry) {
+      const host = new PowerShellHost(executable, hostScriptPath);
       try {
-        await this.testExecutable(executable);
+        await host.request('version');
+        this.host = host;
         this.powershellExecutable = executable;
         this.logger.info(`Using PowerShell executable: ${executable}`);
         return executable;
       } catch (error) {
+        host.dispose();
         this.logger.debug(`${executable} not available: ${error}`);
       }
     }
@@ -72,45 +137,13 @@ export class PowerShellExecutor {
     throw new Error('No PowerShell executable found. Please install PowerShell 7+ (pwsh) or ensure Windows PowerShell (powershell) is available.');
   }
 
-  /**
-   * Tests if a PowerShell executable is available and working
-   */
-  private testExecutable(executable: string): Promise<void> {
-    return new Promise<void>((resolve, reject) => {
-      const ps = childProcess.spawn(
-        executable,
-        ['-NoLogo', '-NoProfile', '-NonInteractive', '-Command', 'Write-Host "OK"'],
-        { shell: true }
-      );
-
-      let hasOutput = false;
-
-      ps.stdout.on('data', () => {
-        hasOutput = true;
-      });
-
-      ps.on('close', (code: number) => {
-        if (code === 0 && hasOutput) {
-          resolve();
-        } else {
-          reject(new Error(`Executable ${executable} exited with code ${code} or produced no output`));
-        }
-      });
-
-      ps.on('error', (error: Error) => {
-        // This typically happens when the executable is not found
-        reject(new Error(`Executable ${executable} not found or failed to start: ${error.message}`));
-      });
-    });
-  }
-
   /**
    * Checks if PowerShell is available on the system
    */
   public async isPowerShellAvailable(): Promise<boolean> {
     try {
       const executable = await this.detectPowerShellExecutable();
-      const output = await this.executeScript('', ['-Command', 'Write-Host "$($PSVersionTable.PSVersion)"']);
+      const output = await this.host!.request('version');
       this.logger.info(`Detected PowerShell version using ${executable}: ${output.trim()}`);
       return true;
     } catch (error) {
@@ -143,6 +176,7 @@ export class PowerShellExecutor {
       '-File',
       '-ModuleFile',
       '-UICulture',
+      '-ListDataFiles',
       '-Path',
       '-Name',
       '-Filter',
@@ -184,11 +218,8 @@ export class PowerShellExecutor {
         pwshArguments.push(...filteredArgs);
       }
 
-      const ps = childProcess.spawn(
-        executable,
-        pwshArguments,
-        { shell: true }
-      );
+      // Without a shell, paths and arguments reach PowerShell as they are
+      const ps = childProcess.spawn(executable, pwshArguments);
 
       let output = '';
       let errorOutput = '';
@@ -222,5 +253,14 @@ export class PowerShellExecutor {
       });
     });
   }
-}
 
+  /**
+   * Stops the persistent PowerShell host
+   */
+  public dispose(): void {
+    this.detection = null;
+    this.host?.dispose();
+    this.host = null;
+    this.powershellExecutable = null;
+  }
+}
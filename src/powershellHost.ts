@@ -0,0 +1,264 @@
+import * as childProcess from 'child_process';
+import * as readline from 'readline';
+import { Logger } from './logger';
+
+/**
+ * Request waiting to be written to the PowerShell host, then for its response
+ */
+interface PendingRequest {
+  id: number;
+  command: string;
+  parameters: Record<string, unknown>;
+  timeoutMs: number;
+  resolve: (output: string) => void;
+  reject: (error: Error) => void;
+  /** Only set once the request is written to the host */
+  timer?: NodeJS.Timeout;
+}
+
+/**
+ * Response line written by the PowerShell host
+ */
+interface HostResponse {
+  id: number;
+  output: string | null;
+  error: string | null;
+}
+
+/**
+ * Long-lived PowerShell process answering JSON-lines requests
+ *
+ * The host answers one request at a time, so requests are queued and written one by one
+ * and each times out from when it is written. The process starts on the first request,
+ * restarts after a crash or a timed out request, and shuts down after a period without requests.
+ */
+export class PowerShellHost {
+  public static readonly DEFAULT_REQUEST_TIMEOUT_MS = 30000;
+  public static readonly DEFAULT_IDLE_TIMEOUT_MS = 5 * 60 * 1000;
+
+  private logger: Logger;
+  private process: childProcess.ChildProcessWithoutNullStreams | null = null;
+  private queuedRequests: PendingRequest[] = [];
+  private activeRequest: PendingRequest | null = null;
+  private nextRequestId = 1;
+  private idleTimer: NodeJS.Timeout | null = null;
+  private disposed = false;
+
+  constructor(
+    private executable: string,
+    private scriptPath: string,
+    private requestTimeoutMs: number = PowerShellHost.DEFAULT_REQUEST_TIMEOUT_MS,
+    private idleTimeoutMs: number = PowerShellHost.DEFAULT_IDLE_TIMEOUT_MS
+  ) {
+    this.logger = Logger.getInstance();
+  }
+
+  /**
+   * Sends a request to the host and resolves with its output
+   */
+  public request(command: string, parameters: Record<string, unknown> = {}, timeoutMs: number = this.requestTimeoutMs): Promise<string> {
+    if (this.disposed) {
+      return Promise.reject(new Error('PowerShell host has been disposed'));
+    }
+
+    const id = this.nextRequestId++;
+    this.clearIdleTimer();
+
+    return new Promise<string>((resolve, reject) => {
+      this.queuedRequests.push({ id, command, parameters, timeoutMs, resolve, reject });
+      this.writeNextRequest();
+    });
+  }
+
+  /**
+   * Checks if the host process is running
+   */
+  public isRunning(): boolean {
+    return this.process !== null;
+  }
+
+  /**
+   * Stops the host process and rejects every pending request
+   */
+  public dispose(): void {
+    this.disposed = true;
+    this.stop('disposed');
+  }
+
+  /**
+   * Writes the next queued request to the host once the previous one is answered
+   */
+  private writeNextRequest(): void {
+    if (this.activeRequest || this.queuedRequests.length === 0) {
+      return;
+    }
+
+    const hostProcess = this.ensureStarted();
+    const request = this.queuedRequests.shift()!;
+    this.activeRequest = request;
+
+    // The time spent queued behind other requests does not count
+    request.timer = setTimeout(() => {
+      this.activeRequest = null;
+      request.reject(new Error(`PowerShell host request ${request.id} (${request.command}) timed out after ${request.timeoutMs} ms`));
+      // A request that never answers blocks every later one
+      this.restart(`request ${request.id} timed out`);
+    }, request.timeoutMs);
+
+    hostProcess.stdin.write(`${JSON.stringify({ id: request.id, command: request.command, parameters: request.parameters })}\n`);
+  }
+
+  /**
+   * Starts the host process unless it is already running
+   */
+  private ensureStarted(): childProcess.ChildProcessWithoutNullStreams {
+    if (this.process) {
+      return this.process;
+    }
+
+    this.logger.info(`Starting PowerShell host using ${this.executable}`);
+    const hostProcess = childProcess.spawn(
+      this.executable,
+      ['-NoLogo', '-NoProfile', '-NonInteractive', '-ExecutionPolicy', 'Bypass', '-File', this.scriptPath]
+    );
+    this.process = hostProcess;
+
+    readline.createInterface({ input: hostProcess.stdout }).on('line', (line) => this.handleLine(line));
+
+    // Writing to a host that just exited fails with EPIPE, the exit handler takes care of the requests
+    hostProcess.stdin.on('error', (error: Error) => {
+      this.logger.warn(`PowerShell host stdin failed: ${error.message}`);
+    });
+
+    hostProcess.stderr.on('data', (data: Buffer) => {
+      this.logger.warn(`PowerShell host stderr: ${data.toString()}`);
+    });
+
+    hostProcess.on('error', (error: Error) => {
+      this.logger.error('PowerShell host failed', error);
+      this.handleExit(hostProcess, `failed to start: ${error.message}`);
+    });
+
+    hostProcess.on('exit', (code: number | null) => {
+      this.handleExit(hostProcess, `exited with code ${code}`);
+    });
+
+    return hostProcess;
+  }
+
+  /**
+   * Resolves the request matching a response line
+   */
+  private handleLine(line: string): void {
+    let response: HostResponse;
+    try {
+      response = JSON.parse(line) as HostResponse;
+    } catch {
+      this.logger.debug(`Ignoring PowerShell host output: ${line}`);
+      return;
+    }
+
+    const pending = this.activeRequest;
+    if (!pending || pending.id !== response.id) {
+      return;
+    }
+
+    clearTimeout(pending.timer);
+    this.activeRequest = null;
+    if (response.error) {
+      pending.reject(new Error(response.error));
+    } else {
+      pending.resolve(response.output ?? '');
+    }
+
+    if (this.queuedRequests.length === 0) {
+      this.startIdleTimer();
+    } else {
+      this.writeNextRequest();
+    }
+  }
+
+  /**
+   * Forgets an exited process, failing the request it was answering; queued requests start a new one
+   */
+  private handleExit(hostProcess: childProcess.ChildProcess, reason: string): void {
+    if (this.process !== hostProcess) {
+      return;
+    }
+
+    this.process = null;
+    this.clearIdleTimer();
+    this.rejectActiveRequest(new Error(`PowerShell host ${reason}`));
+    if (this.queuedRequests.length > 0) {
+      this.logger.warn(`PowerShell host ${reason}, restarting for ${this.queuedRequests.length} queued request(s)`);
+      this.writeNextRequest();
+    }
+  }
+
+  /**
+   * Stops the host process and writes the queued requests to a fresh one
+   */
+  private restart(reason: string): void {
+    this.logger.warn(`Restarting PowerShell host: ${reason}`);
+    this.stopProcess(reason);
+    this.writeNextRequest();
+  }
+
+  /**
+   * Stops the host process and rejects every request, queued or not
+   */
+  private stop(reason: string): void {
+    const error = new Error(`PowerShell host ${reason}`);
+    this.rejectActiveRequest(error);
+    this.queuedRequests.forEach(pending => pending.reject(error));
+    this.queuedRequests = [];
+    this.stopProcess(reason);
+  }
+
+  /**
+   * Stops the host process, leaving the queued requests for the next one
+   */
+  private stopProcess(reason: string): void {
+    this.clearIdleTimer();
+    const hostProcess = this.process;
+    if (!hostProcess) {
+      return;
+    }
+
+    this.process = null;
+    this.rejectActiveRequest(new Error(`PowerShell host ${reason}`));
+    hostProcess.stdin.end();
+    hostProcess.kill();
+    this.logger.debug(`PowerShell host stopped: ${reason}`);
+  }
+
+  /**
+   * Rejects the request written to the host, if any
+   */
+  private rejectActiveRequest(error: Error): void {
+    const pending = this.activeRequest;
+    if (pending) {
+      clearTimeout(pending.timer);
+      this.activeRequest = null;
+      pending.reject(error);
+    }
+  }
+
+  /**
+   * Shuts the host down once it has been idle long enough
+   */
+  private startIdleTimer(): void {
+    this.clearIdleTimer();
+    this.idleTimer = setTimeout(() => this.stop('idle'), this.idleTimeoutMs);
+  }
+
+  /**
+   * Cancels the idle shutdown
+   */
+  private clearIdleTimer(): void {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+  }
+}
@@ -0,0 +1,67 @@
+import * as vscode from 'vscode';
+import { Logger } from './logger';
+import { LocalizationService } from './localizationService';
+
+/**
+ * Provides Find All References for localization keys across the scripts of a module
+ */
+export class LocalizationReferenceProvider implements vscode.ReferenceProvider {
+  private logger: Logger;
+
+  constructor(private localizationService: LocalizationService) {
+    this.logger = Logger.getInstance();
+    this.logger.info('LocalizationReferenceProvider initialized');
+  }
+
+  /**
+   * Provides every `$BindingVariable.Key` usage of the key under the cursor
+   * Works from a usage in a script as well as from the key in a culture data file
+   */
+  public async provideReferences(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    context: vscode.ReferenceContext,
+    token: vscode.CancellationToken
+  ): Promise<vscode.Location[] | undefined> {
+    try {
+      const target = await this.localizationService.findKeyAt(document, position);
+      if (!target || token.isCancellationRequested) {
+        return undefined;
+      }
+
+      const module = await this.localizationService.resolveModule(document.uri.fsPath);
+      const calls = await this.localizationService.getLocalizationCalls(document.uri.fsPath);
+      if (!module || !calls) {
+        return undefined;
+      }
+
+      const locations: vscode.Location[] = [];
+
+      if (context.includeDeclaration) {
+        const definitions = await this.localizationService.getKeyDefinitions(target.sources, target.key);
+        for (const definition of definitions) {
+          locations.push(this.createLocation(definition.filePath, definition.line, definition.character, target.key));
+        }
+      }
+
+      const usages = await this.localizationService.findKeyUsages(module, calls, target.sources, target.key);
+      for (const usage of usages) {
+        locations.push(this.createLocation(usage.filePath, usage.line, usage.character, target.key));
+      }
+
+      this.logger.debug(`Found ${usages.length} reference(s) to key ${target.key} via ${target.variableNames.join(', ')}`);
+      return locations;
+    } catch (error) {
+      this.logger.error('Failed to provide localization references', error as Error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Creates a location spanning a key name
+   */
+  private createLocation(filePath: string, line: number, character: number, key: string): vscode.Location {
+    const range = new vscode.Range(line, character, line, character + key.length);
+    return new vscode.Location(vscode.Uri.file(filePath), range);
+  }
+}
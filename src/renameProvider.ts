@@ -0,0 +1,118 @@
+import * as vscode from 'vscode';
+import { Logger } from './logger';
+import { LocalizationService } from './localizationService';
+import { LocalizationKeyTarget } from './types';
+import { LocalizationKeyScanner } from './localizationKeyScanner';
+import { REGEX_PATTERNS } from './utils';
+import { CultureResolver } from './cultureResolver';
+
+/**
+ * Renames a localization key in every culture data file and every script usage
+ */
+export class LocalizationRenameProvider implements vscode.RenameProvider {
+  private logger: Logger;
+
+  constructor(private localizationService: LocalizationService) {
+    this.logger = Logger.getInstance();
+    this.logger.info('LocalizationRenameProvider initialized');
+  }
+
+  /**
+   * Checks that the cursor is on a localization key and returns its range
+   */
+  public async prepareRename(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): Promise<{ range: vscode.Range; placeholder: string }> {
+    const target = await this.localizationService.findKeyAt(document, position);
+    if (!target) {
+      throw new Error('The element under the cursor is not a localization key.');
+    }
+
+    const range = new vscode.Range(target.line, target.character, target.line, target.character + target.key.length);
+    return { range, placeholder: target.key };
+  }
+
+  /**
+   * Builds a single edit that renames the key in all cultures and scripts
+   */
+  public async provideRenameEdits(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    newName: string,
+    token: vscode.CancellationToken
+  ): Promise<vscode.WorkspaceEdit | undefined> {
+    const target = await this.localizationService.findKeyAt(document, position);
+    if (!target || token.isCancellationRequested) {
+      return undefined;
+    }
+
+    if (newName === target.key) {
+      return new vscode.WorkspaceEdit();
+    }
+
+    if (!REGEX_PATTERNS.LOCALIZATION_KEY.test(newName)) {
+      throw new Error(`'${newName}' is not a valid localization key. Use letters, digits and underscores only.`);
+    }
+
+    await this.ensureKeyIsAvailable(target, newName);
+
+    const module = await this.localizationService.resolveModule(document.uri.fsPath);
+    const calls = await this.localizationService.getLocalizationCalls(document.uri.fsPath);
+    if (!module || !calls) {
+      return undefined;
+    }
+
+    const edit = new vscode.WorkspaceEdit();
+
+    const definitions = await this.localizationService.getKeyDefinitions(target.sources, target.key);
+    for (const definition of definitions) {
+      edit.replace(
+        vscode.Uri.file(definition.filePath),
+        this.createKeyRange(definition.line, definition.character, target.key),
+        newName
+      );
+    }
+
+    // Every binding variable that reads the same data file where it is used must follow the rename
+    const usages = await this.localizationService.findKeyUsages(module, calls, target.sources, target.key);
+    for (const usage of usages) {
+      edit.replace(
+        vscode.Uri.file(usage.filePath),
+        this.createKeyRange(usage.line, usage.character, target.key),
+        newName
+      );
+    }
+
+    this.logger.info(
+      `Renaming key ${target.key} to ${newName} in ${definitions.length} data file(s) and ${usages.length} usage(s)`
+    );
+    return edit;
+  }
+
+  /**
+   * Throws when the new key already exists in any culture
+   * Keys ignore case, so only a change of case may keep the name of the key itself
+   */
+  private async ensureKeyIsAvailable(target: LocalizationKeyTarget, newName: string): Promise<void> {
+    if (newName.toLowerCase() === target.key.toLowerCase()) {
+      return;
+    }
+
+    for (const source of target.sources) {
+      for (const dataFile of await this.localizationService.getCultureDataFiles(source)) {
+        const text = await this.localizationService.readDocumentText(dataFile.filePath);
+        if (text !== null && LocalizationKeyScanner.findKey(text, newName)) {
+          throw new Error(`Cannot rename to '${newName}': the key already exists in ${CultureResolver.getDisplayName(dataFile.culture)} (${dataFile.filePath}).`);
+        }
+      }
+    }
+  }
+
+  /**
+   * Creates a range spanning a key name
+   */
+  private createKeyRange(line: number, character: number, key: string): vscode.Range {
+    return new vscode.Range(line, character, line, character + key.length);
+  }
+}
@@ -2,7 +2,35 @@ import * as assert from 'assert';
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
+import * as os from 'os';
 import { Utils } from '../utils';
+import { ConfigurationManager } from '../configuration';
+import { ModuleResolver } from '../moduleResolver';
+import { LocalizationKeyScanner } from '../localizationKeyScanner';
+import { LocalizationService } from '../localizationService';
+import { LocalizationParityChecker } from '../parityChecker';
+import { LocalizationDiagnosticsProvider } from '../diagnosticsProvider';
+import { PowerShellModuleScanner } from '../moduleScanner';
+import { LocalizationUnusedKeysProvider } from '../unusedKeysProvider';
+import { LocalizationRenameProvider } from '../renameProvider';
+import { LocalizationHoverProvider } from '../hoverProvider';
+import { LocalizationCompletionProvider } from '../completionProvider';
+import { LocalizationExplorerNode, LocalizationExplorerProvider } from '../localizationExplorer';
+import { LocalizationExtractStringProvider } from '../extractStringProvider';
+import { LocalizationDataFileParser } from '../dataFileParser';
+import { LocalizationCallParser } from '../localizationCallParser';
+import { CultureResolver } from '../cultureResolver';
+import { LocalizationDiskCache } from '../localizationDiskCache';
+import { LocalizationDependencyGraph } from '../dependencyGraph';
+import { IncrementalLineCache } from '../incrementalLineCache';
+import { LocalizationDecorationProvider } from '../decorationProvider';
+import { FormatStringAnalyzer } from '../formatStringAnalyzer';
+import { TranslationGridEditorProvider } from '../translationGridEditor';
+import { LocalizationCultureStatusBar } from '../cultureStatusBar';
+import { LocalizationCultureScaffolder } from '../cultureScaffolder';
+import { LocalizationCall, SourceRange } from '../types';
+import { PowerShellExecutor } from '../powershellExecutor';
+import { PowerShellHost } from '../powershellHost';
 // import * as myExtension from '../../extension';
 
 suite('PowerShell Localization Extension Test Suite', () => {
@@ -246,6 +274,29 @@ Write-Host $LocalizedData.Key2
 			assert.strictEqual(logLevel, 'info', 'Default log level should be info');
 		});
 
+		test('Should have diagnostics configuration', () => {
+			const config = vscode.workspace.getConfiguration('powershellLocalization');
+
+			assert.strictEqual(config.get('enableDiagnostics'), true, 'Diagnostics should be enabled by default');
+			assert.strictEqual(config.get('defaultCulture'), 'en-US', 'Default culture should be en-US');
+		});
+
+		test('Should resolve the default culture of the innermost listed module', () => {
+			const workspaceFolder = path.join(os.tmpdir(), 'workspace');
+			const moduleCultures = {
+				'Modules/Outer': 'de-DE',
+				'Modules/Outer/Nested/Nested.psd1': 'fr-FR',
+				'Modules/Other': 'ja-JP'
+			};
+			const nestedFile = path.join(workspaceFolder, 'Modules', 'Outer', 'Nested', 'en-US', 'Nested.psd1');
+			const outerFile = path.join(workspaceFolder, 'Modules', 'Outer', 'Outer.psm1');
+
+			assert.strictEqual(ConfigurationManager.findModuleCulture(moduleCultures, nestedFile, workspaceFolder), 'fr-FR');
+			assert.strictEqual(ConfigurationManager.findModuleCulture(moduleCultures, outerFile, workspaceFolder), 'de-DE');
+			assert.strictEqual(ConfigurationManager.findModuleCulture(moduleCultures, path.join(workspaceFolder, 'Modules', 'OtherModule', 'a.ps1'), workspaceFolder), undefined);
+			assert.strictEqual(ConfigurationManager.findModuleCulture(moduleCultures, outerFile), undefined, 'Relative paths need a workspace folder');
+		});
+
 		test('Should respect configuration changes', async () => {
 			const config = vscode.workspace.getConfiguration('powershellLocalization');
 			const originalValue = config.get('enableInlineValues');
@@ -372,6 +423,1204 @@ Import-LocalizedData -FileName 'Other.psd1' -BindingVariable 'OtherData'`,
 		});
 	});
 
+	suite('PowerShell Host', () => {
+		test('Should parse faster through the persistent host than with one process per parse', async function () {
+			this.timeout(120000);
+			const executor = new PowerShellExecutor();
+			try {
+				if (!await executor.isPowerShellAvailable()) {
+					this.skip();
+				}
+
+				const parserPath = path.join(__dirname, '..', '..', 'resources', 'LocalizationParser.ps1');
+				const modulePath = path.join(__dirname, '..', '..', 'tests', 'fixtures', 'Example', 'Example.psm1');
+				const iterations = 5;
+
+				let start = Date.now();
+				for (let i = 0; i < iterations; i++) {
+					await executor.executeScript(parserPath, ['-ModuleFile', modulePath]);
+				}
+				const processPerParseMs = Date.now() - start;
+
+				start = Date.now();
+				for (let i = 0; i < iterations; i++) {
+					const calls = await executor.parseLocalizationData(modulePath);
+					assert.strictEqual(LocalizationService.toLocalizationData(calls).LocalizedData.Key1, 'Value1');
+				}
+				const hostMs = Date.now() - start;
+
+				console.log(`${iterations} parses: ${processPerParseMs} ms with one process each, ${hostMs} ms through the host`);
+				assert.ok(hostMs < processPerParseMs, 'The persistent host should be faster than one process per parse');
+			} finally {
+				executor.dispose();
+			}
+		});
+
+		suite('Request queue', () => {
+			let hostRoot: string;
+			let hostScriptPath: string;
+
+			suiteSetup(async function () {
+				this.timeout(30000);
+				const executor = new PowerShellExecutor();
+				try {
+					if (!await executor.isPowerShellAvailable()) {
+						this.skip();
+					}
+				} finally {
+					executor.dispose();
+				}
+
+				// Answers each request with its command after sleeping for DelayMs
+				hostRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'psloc-host-'));
+				hostScriptPath = path.join(hostRoot, 'SlowHost.ps1');
+				fs.writeFileSync(hostScriptPath, [
+					'while ($null -ne ($line = [Console]::In.ReadLine())) {',
+					'  $request = $line | ConvertFrom-Json',
+					'  Start-Sleep -Milliseconds $request.parameters.DelayMs',
+					'  [Console]::Out.WriteLine((@{ id = $request.id; output = $request.command; error = $null } | ConvertTo-Json -Compress))',
+					'  [Console]::Out.Flush()',
+					'}'
+				].join('\n'));
+			});
+
+			suiteTeardown(() => {
+				if (hostRoot) {
+					fs.rmSync(hostRoot, { recursive: true, force: true });
+				}
+			});
+
+			test('Should time requests from when they are written to the host', async function () {
+				this.timeout(60000);
+				const host = new PowerShellHost('pwsh', hostScriptPath, 2000);
+				try {
+					await host.request('start', { DelayMs: 0 }, 30000);
+
+					// Together they take longer than the timeout, but each is written after the previous answer
+					const outputs = await Promise.all(['first', 'second', 'third'].map(command => host.request(command, { DelayMs: 1200 })));
+					assert.deepStrictEqual(outputs, ['first', 'second', 'third']);
+				} finally {
+					host.dispose();
+				}
+			});
+
+			test('Should write the queued requests to a new host after a timeout', async function () {
+				this.timeout(60000);
+				const host = new PowerShellHost('pwsh', hostScriptPath);
+				try {
+					await host.request('start', { DelayMs: 0 }, 30000);
+
+					const [hung, queued] = await Promise.allSettled([
+						host.request('hung', { DelayMs: 30000 }, 1000),
+						host.request('queued', { DelayMs: 0 })
+					]);
+					assert.ok(hung.status === 'rejected' && /timed out/.test(String(hung.reason)));
+					assert.deepStrictEqual(queued, { status: 'fulfilled', value: 'queued' });
+				} finally {
+					host.dispose();
+				}
+			});
+		});
+	});
+
+	suite('Incremental Decorations', () => {
+		const filePath = path.join(__dirname, 'Generated.psm1');
+		const calls: LocalizationCall[] = [{
+			bindingVariable: 'LocalizedData',
+			fileName: 'Generated.psd1',
+			baseDirectory: __dirname,
+			sourceFile: filePath,
+			range: { startLine: 0, startCharacter: 0, endLine: 0, endCharacter: 60 },
+			scope: null,
+			filePath: path.join(__dirname, 'en-US', 'Generated.psd1'),
+			culture: 'en-US',
+			data: { Key1: 'Value1', Key2: 'Value2', Errors: { NotFound: 'Not found' } }
+		}];
+		const bindingVarRegex = Utils.createBindingVariableRegex(['LocalizedData']);
+		// Returns the number of lines recomputed
+		const computeLines = (cache: IncrementalLineCache<unknown>, lines: string[]) => {
+			const dirtyLines = cache.getDirtyLines();
+			for (const line of dirtyLines) {
+				cache.set(line, LocalizationDecorationProvider.createLineDecorations(lines[line], line, calls, bindingVarRegex, filePath, 'en-US'));
+			}
+			return dirtyLines.length;
+		};
+
+		test('Should shift computed lines along with edits', () => {
+			const cache = new IncrementalLineCache<string>(5);
+			[0, 1, 2, 3, 4].forEach(line => cache.set(line, `line ${line}`));
+
+			// Replace line 1 with three lines, then join lines 3 and 4 of the result
+			cache.applyChange(1, 1, 'a\nb\nc');
+			assert.deepStrictEqual(cache.getDirtyLines(), [1, 2, 3]);
+			cache.applyChange(3, 4, '');
+			assert.strictEqual(cache.lineCount, 6);
+			assert.deepStrictEqual(cache.entries(), [[0, 'line 0'], [4, 'line 3'], [5, 'line 4']]);
+		});
+
+		test('Should only recompute the edited lines of a large script', () => {
+			const lines = Array.from({ length: 20000 }, (_, line) => line % 4 === 0
+				? `    Write-Verbose ($LocalizedData.Key${line % 8 === 0 ? 1 : 2} -f $item) # ${line}`
+				: `    $result = Invoke-Step -Item $item -Index ${line} -Message $LocalizedData.Errors.NotFound`);
+			const cache = new IncrementalLineCache<unknown>(lines.length);
+
+			let start = Date.now();
+			assert.strictEqual(computeLines(cache, lines), 20000);
+			const fullMs = Date.now() - start;
+
+			lines.splice(10000, 1, '    Write-Host $LocalizedData.Key2', '    Write-Host $LocalizedData.Key1');
+			start = Date.now();
+			cache.applyChange(10000, 10000, 'Write-Host $LocalizedData.Key2\nWrite-Host $LocalizedData.Key1');
+			assert.strictEqual(computeLines(cache, lines), 2, 'Only the two edited lines should be recomputed');
+			const incrementalMs = Date.now() - start;
+
+			// Generous bounds, the point is that an edit costs a fraction of a full pass
+			assert.ok(fullMs < 10000, `A full pass over 20000 lines took ${fullMs} ms`);
+			assert.ok(incrementalMs < 250, `Recomputing an edit took ${incrementalMs} ms`);
+			assert.strictEqual(cache.entries().length, 20001);
+			assert.deepStrictEqual(cache.entries()[10001], [10001, [{ character: 34, contentText: ' // "Value1"' }]]);
+		});
+
+		test('Should decorate the visible lines first and only recompute edited lines', async function () {
+			this.timeout(10000);
+			const moduleRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'psloc-decorations-'));
+			const modulePath = path.join(moduleRoot, 'Decorated.psm1');
+			fs.writeFileSync(modulePath, [
+				"Import-LocalizedData -BindingVariable LocalizedData -FileName 'Decorated.psd1'",
+				...Array.from({ length: 5000 }, (_, line) => `Write-Host $LocalizedData.Key1 # ${line}`)
+			].join('\n'));
+			fs.mkdirSync(path.join(moduleRoot, 'en-US'));
+			fs.writeFileSync(path.join(moduleRoot, 'en-US', 'Decorated.psd1'), "@{\n  Key1 = 'Value1'\n}");
+			const document = await vscode.workspace.openTextDocument(modulePath);
+
+			// Each setDecorations call records how many lines were decorated
+			const applied: number[] = [];
+			const editor = {
+				document,
+				visibleRanges: [new vscode.Range(0, 0, 49, 0)],
+				setDecorations: (_type: vscode.TextEditorDecorationType, options: vscode.DecorationOptions[]) => applied.push(options.length)
+			} as unknown as vscode.TextEditor;
+			const waitForDecorations = async (count: number) => {
+				for (let attempt = 0; attempt < 50 && applied.length < count; attempt++) {
+					await new Promise(resolve => setTimeout(resolve, 100));
+				}
+			};
+
+			const createLineDecorations = LocalizationDecorationProvider.createLineDecorations;
+			let computedLines = 0;
+			LocalizationDecorationProvider.createLineDecorations = (...args) => {
+				computedLines++;
+				return createLineDecorations.apply(LocalizationDecorationProvider, args);
+			};
+			const provider = new LocalizationDecorationProvider(new LocalizationService(), () => [editor]);
+
+			try {
+				provider.activate();
+				await waitForDecorations(2);
+				assert.deepStrictEqual(applied, [49, 5000], 'The visible lines should be decorated before the rest');
+
+				computedLines = 0;
+				provider.handleDocumentChange({
+					document,
+					contentChanges: [{ range: new vscode.Range(2500, 0, 2500, 10), rangeOffset: 0, rangeLength: 10, text: 'Write-Host' }],
+					reason: undefined
+				});
+				await waitForDecorations(4);
+
+				// The edited line is off screen, so it only comes back with the background pass
+				assert.deepStrictEqual(applied.slice(2), [4999, 5000]);
+				assert.strictEqual(computedLines, 1, 'Only the edited line should be recomputed');
+			} finally {
+				LocalizationDecorationProvider.createLineDecorations = createLineDecorations;
+				provider.dispose();
+				fs.rmSync(moduleRoot, { recursive: true, force: true });
+			}
+		});
+	});
+
+	suite('Module Resolution', () => {
+		const fixturesPath = path.join(__dirname, '..', '..', 'tests', 'fixtures');
+
+		test('Should resolve the module that sits next to a file', async () => {
+			const resolver = new ModuleResolver();
+			const examplePath = path.join(fixturesPath, 'Example', 'Example.psm1');
+
+			const module = await resolver.resolveModule(examplePath);
+
+			assert.ok(module, 'Example module should be resolved');
+			assert.strictEqual(module.rootPath, path.dirname(examplePath));
+			assert.deepStrictEqual(module.moduleFiles, [examplePath]);
+		});
+
+		test('Should resolve dot-sourced function files through the manifest', async () => {
+			const resolver = new ModuleResolver();
+			const modulePath = path.join(fixturesPath, 'ManifestModule');
+			const functionPath = path.join(modulePath, 'Public', 'Get-Greeting.ps1');
+
+			const module = await resolver.resolveModule(functionPath);
+
+			assert.ok(module, 'ManifestModule should be resolved');
+			assert.strictEqual(module.rootPath, modulePath);
+			assert.strictEqual(module.manifestPath, path.join(modulePath, 'ManifestModule.psd1'));
+			assert.deepStrictEqual(module.moduleFiles, [path.join(modulePath, 'ManifestModule.psm1')]);
+		});
+
+		test('Should not treat culture data files as module manifests', async () => {
+			const resolver = new ModuleResolver();
+			const dataPath = path.join(fixturesPath, 'Example', 'fr-FR', 'Example.psd1');
+
+			const module = await resolver.resolveModule(dataPath);
+
+			assert.ok(module, 'Culture data file should resolve to its module');
+			assert.strictEqual(module.rootPath, path.join(fixturesPath, 'Example'));
+		});
+	});
+
+	suite('Culture Resolution', () => {
+		test('Should walk parent cultures down to the invariant culture', () => {
+			assert.deepStrictEqual(CultureResolver.getFallbackChain('fr-CA'), ['fr-CA', 'fr', '']);
+			assert.deepStrictEqual(CultureResolver.getFallbackChain('sr-Latn-RS'), ['sr-Latn-RS', 'sr-Latn', 'sr', '']);
+			assert.deepStrictEqual(CultureResolver.getFallbackChain('zh-TW'), ['zh-TW', 'zh-Hant', 'zh', '']);
+			assert.ok(CultureResolver.isValidCultureName('zh-Hans'));
+			assert.ok(CultureResolver.isValidCultureName('es-419'));
+			assert.ok(!CultureResolver.isValidCultureName('english'));
+		});
+
+		test('Should resolve the data file of the closest existing culture', () => {
+			const service = new LocalizationService();
+			const source = {
+				baseDirectory: path.join(__dirname, '..', '..', 'tests', 'fixtures', 'Example'),
+				fileName: 'Example.psd1'
+			};
+
+			assert.strictEqual(service.resolveCultureDataFile(source, 'fr-FR')?.culture, 'fr-FR');
+			assert.strictEqual(service.resolveCultureDataFile(source, 'en-US')?.culture, 'en-US');
+			assert.strictEqual(service.resolveCultureDataFile(source, 'fr-CA'), null);
+		});
+	});
+
+	suite('Culture Coverage', () => {
+		test('Should measure each culture against the default culture keys of every data file', () => {
+			const coverage = LocalizationCultureStatusBar.computeCoverage([
+				new Map([
+					['en-US', new Set(['Hello', 'Goodbye', 'Welcome'])],
+					['fr-FR', new Set(['Hello', 'Goodbye', 'Extra'])],
+					['de-DE', new Set(['Hello'])]
+				]),
+				new Map([
+					['en-US', new Set(['Error'])],
+					['not a culture', new Set(['Error'])]
+				])
+			], 'en-US');
+
+			assert.deepStrictEqual(coverage.map(entry => entry.culture), ['de-DE', 'en-US', 'fr-FR']);
+			assert.deepStrictEqual(
+				coverage.map(entry => LocalizationCultureStatusBar.formatCoverage(entry)),
+				['25%', '100%', '50%']
+			);
+		});
+	});
+
+	suite('Localization Disk Cache', () => {
+		test('Should persist entries with the hashes of their inputs', async () => {
+			const storagePath = fs.mkdtempSync(path.join(os.tmpdir(), 'psloc-cache-'));
+			try {
+				const cache = new LocalizationDiskCache(storagePath);
+				const inputs = { 'Example.psm1': LocalizationDiskCache.hash('content'), 'fr-CA/Example.psd1': null };
+				await cache.write('data|Example|fr-CA', inputs, []);
+
+				const entry = await cache.read('data|Example|fr-CA');
+				assert.ok(entry);
+				assert.ok(LocalizationDiskCache.isCurrent(entry, inputs));
+				assert.ok(!LocalizationDiskCache.isCurrent(entry, { ...inputs, 'fr-CA/Example.psd1': LocalizationDiskCache.hash('') }));
+				assert.strictEqual(await cache.read('data|Example|en-US'), null);
+
+				await cache.clear();
+				assert.strictEqual(await cache.read('data|Example|fr-CA'), null);
+			} finally {
+				fs.rmSync(storagePath, { recursive: true, force: true });
+			}
+		});
+	});
+
+	suite('Cache Dependencies', () => {
+		test('Should evict only the entries reading a changed file or folder', () => {
+			const moduleRoot = path.join(os.tmpdir(), 'Example');
+			const graph = new LocalizationDependencyGraph();
+			graph.setDependencies('calls|Example', [path.join(moduleRoot, 'Example.psm1')]);
+			graph.setDependencies('data|Example|fr-FR', [
+				path.join(moduleRoot, 'Example.psm1'),
+				path.join(moduleRoot, 'fr-FR', 'Example.psd1')
+			]);
+			graph.setDependencies('data|Example|fr-CA', [
+				path.join(moduleRoot, 'Example.psm1'),
+				path.join(moduleRoot, 'fr-CA', 'Example.psd1'),
+				path.join(moduleRoot, 'fr', 'Example.psd1'),
+				path.join(moduleRoot, 'Example.psd1')
+			]);
+
+			assert.deepStrictEqual(graph.getDependents(path.join(moduleRoot, 'fr-FR', 'Example.psd1')), ['data|Example|fr-FR']);
+			assert.deepStrictEqual(graph.getDependents(path.join(moduleRoot, 'fr-CA')), ['data|Example|fr-CA']);
+			assert.deepStrictEqual(graph.getDependents(path.join(moduleRoot, 'fr-FR-old')), []);
+			assert.strictEqual(graph.getDependents(moduleRoot).length, 3);
+
+			graph.removeEntry('data|Example|fr-CA');
+			assert.deepStrictEqual(graph.getDependents(path.join(moduleRoot, 'fr-CA')), []);
+		});
+	});
+
+	suite('Data File Parser', () => {
+		test('Should parse ConvertFrom-StringData data files', () => {
+			const fixturePath = path.join(__dirname, '..', '..', 'tests', 'fixtures', 'Example', 'fr-FR', 'Example.psd1');
+			const data = LocalizationDataFileParser.parse(fs.readFileSync(fixturePath, 'utf8'));
+
+			assert.deepStrictEqual(data, { Key1: 'Valeur1', Key2: 'Valeur2', Key3: 'Valeur3' });
+		});
+
+		test('Should parse hashtable literals with nested values and escapes', () => {
+			const content = [
+				'# Messages',
+				'@{',
+				"  Quoted = 'It''s'; Expandable = \"Tab`there \"\"q\"\"\"",
+				'  Nested = @{ Inner = 42 } <# inline #>',
+				"  List = 'a', 'b'",
+				'  Enabled = $true',
+				"  Here = @'",
+				'line1',
+				'line2',
+				"'@",
+				'}'
+			].join('\r\n');
+
+			assert.deepStrictEqual(LocalizationDataFileParser.parse(content), {
+				Quoted: 'It\'s',
+				Expandable: 'Tab\there "q"',
+				Nested: { Inner: 42 },
+				List: ['a', 'b'],
+				Enabled: true,
+				Here: 'line1\nline2'
+			});
+		});
+
+		test('Should reject constructs that need PowerShell', () => {
+			assert.throws(() => LocalizationDataFileParser.parse('@{ Greeting = "Hello $env:USERNAME" }'), /Variable expansion/);
+			assert.throws(() => LocalizationDataFileParser.parse('@{ Today = Get-Date }'), /Unsupported value/);
+			assert.throws(() => LocalizationDataFileParser.parse("@{ Key = 'a'; key = 'b' }"), /Duplicate key/);
+		});
+	});
+
+	suite('Localization Call Parser', () => {
+		const fixturesPath = path.join(__dirname, '..', '..', 'tests', 'fixtures');
+
+		test('Should resolve calls statically with the scope of each call', () => {
+			const modulePath = path.join(fixturesPath, 'LocalizedFolder', 'LocalizedFolder.psm1');
+			const localizationFolder = path.join(fixturesPath, 'LocalizedFolder', 'Localization');
+
+			const [messages, dynamic, errors] = LocalizationCallParser.parse(fs.readFileSync(modulePath, 'utf8'), modulePath);
+
+			assert.ok(!('unresolved' in messages) && !('unresolved' in errors));
+			assert.deepStrictEqual(
+				[messages.bindingVariable, messages.fileName, messages.baseDirectory, messages.culture, messages.scope],
+				['Messages', 'Messages.psd1', localizationFolder, 'en-US', null]
+			);
+			assert.deepStrictEqual([errors.fileName, errors.scope?.startLine, errors.scope?.endLine], ['Errors.psd1', 9, 13]);
+			assert.ok('unresolved' in dynamic && /Get-MessageFileName/.test(dynamic.reason));
+		});
+
+		test('Should follow splatting, assignments and path commands', () => {
+			const modulePath = path.join(fixturesPath, 'Example', 'Example.psm1');
+			const script = [
+				'$folder = Split-Path -Path $PSScriptRoot\\Sub\\Script.ps1 -Parent',
+				'$splat = @{ FileName = "$(\'Exa\' + \'mple\').psd1"; BaseDirectory = (Join-Path $folder \'..\') }',
+				'$Data = Import-LocalizedData @splat',
+				'Import-LocalizedData -BindingVariable Other -FileName $env:FILE_NAME'
+			].join('\n');
+
+			const [data, other] = LocalizationCallParser.parse(script, modulePath);
+
+			assert.ok(!('unresolved' in data));
+			assert.deepStrictEqual(
+				[data.bindingVariable, data.fileName, data.baseDirectory, data.filePath],
+				['Data', 'Example.psd1', path.dirname(modulePath), path.join(path.dirname(modulePath), 'en-US', 'Example.psd1')]
+			);
+			assert.ok('unresolved' in other);
+		});
+
+		test('Should list the calls of a module without PowerShell', async () => {
+			const service = new LocalizationService();
+			const calls = await service.getLocalizationCalls(path.join(fixturesPath, 'Example', 'Example.psm1'));
+
+			assert.deepStrictEqual(calls?.map(call => call.bindingVariable), ['LocalizedData', 'AsSplat']);
+		});
+
+		test('Should read the culture declared with -UICulture instead of the current one', async () => {
+			const moduleRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'psloc-uiculture-'));
+			try {
+				const modulePath = path.join(moduleRoot, 'Declared.psm1');
+				const script = [
+					"Import-LocalizedData -BindingVariable Data -UICulture fr-FR -FileName 'Declared.psd1'",
+					"Import-LocalizedData -BindingVariable Current -UICulture $PSUICulture -FileName 'Declared.psd1'"
+				].join('\n');
+				fs.writeFileSync(modulePath, script);
+				fs.mkdirSync(path.join(moduleRoot, 'en-US'));
+				fs.writeFileSync(path.join(moduleRoot, 'en-US', 'Declared.psd1'), "@{\n  Greeting = 'Hello'\n}");
+				fs.mkdirSync(path.join(moduleRoot, 'fr-FR'));
+				fs.writeFileSync(path.join(moduleRoot, 'fr-FR', 'Declared.psd1'), "@{\n  Greeting = 'Bonjour'\n}");
+
+				const [data, current] = LocalizationCallParser.parse(script, modulePath, 'fr-FR');
+				assert.ok(!('unresolved' in data) && !('unresolved' in current));
+				assert.deepStrictEqual([data.uiCulture, current.uiCulture], ['fr-FR', 'fr-FR']);
+
+				const service = new LocalizationService();
+				assert.deepStrictEqual(await service.getLocalizationData(modulePath, 'en-US'), {
+					Data: { Greeting: 'Bonjour' },
+					Current: { Greeting: 'Hello' }
+				});
+				assert.deepStrictEqual((await service.getLocalizationData(modulePath, 'fr-FR'))?.Current, { Greeting: 'Bonjour' });
+			} finally {
+				fs.rmSync(moduleRoot, { recursive: true, force: true });
+			}
+		});
+	});
+
+	suite('Scoped Data Sources', () => {
+		const moduleFolder = path.join(__dirname, '..', '..', 'tests', 'fixtures', 'LocalizedFolder');
+		const modulePath = path.join(moduleFolder, 'LocalizedFolder.psm1');
+
+		test('Should check usages against the data file of their own scope', async () => {
+			const document = await vscode.workspace.openTextDocument(modulePath);
+			const provider = new LocalizationDiagnosticsProvider(new LocalizationService());
+
+			try {
+				const diagnostics = await provider.createDiagnostics(document);
+				assert.deepStrictEqual(diagnostics.map(diagnostic => diagnostic.message), []);
+
+				const dataSources = await new LocalizationService().getDataSources(modulePath, 12);
+				assert.strictEqual(dataSources?.Messages.fileName, 'Errors.psd1');
+			} finally {
+				provider.dispose();
+			}
+		});
+
+		test('Should report every data file of a module, including function-scoped ones', async () => {
+			const checker = new LocalizationParityChecker(new LocalizationService(), new PowerShellModuleScanner());
+
+			try {
+				const report = await checker.checkModule(modulePath, moduleFolder);
+				assert.deepStrictEqual(report.dataFiles.map(dataFile => dataFile.fileName).sort(), ['Errors.psd1', 'Messages.psd1']);
+				assert.deepStrictEqual(report.dataFiles.map(dataFile => dataFile.cultures), [['en-US', 'fr-FR'], ['en-US', 'fr-FR']]);
+			} finally {
+				checker.dispose();
+			}
+		});
+	});
+
+	suite('Missing Key Diagnostics', () => {
+		let moduleRoot: string;
+
+		suiteSetup(() => {
+			moduleRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'psloc-diagnostics-'));
+			fs.writeFileSync(path.join(moduleRoot, 'Case.psm1'), [
+				"Import-LocalizedData -BindingVariable LocalizedData -FileName 'Case.psd1'",
+				'Write-Host $LocalizedData.KEY1 $LocalizedData.key2 $LocalizedData.Missing'
+			].join('\n'));
+			fs.mkdirSync(path.join(moduleRoot, 'en-US'));
+			fs.writeFileSync(path.join(moduleRoot, 'en-US', 'Case.psd1'), "ConvertFrom-StringData @'\nKey1 = One\nKey2 = Two\n'@");
+			fs.mkdirSync(path.join(moduleRoot, 'fr-FR'));
+			fs.writeFileSync(path.join(moduleRoot, 'fr-FR', 'Case.psd1'), "@{\n  Key1 = 'Un'\n}");
+		});
+
+		suiteTeardown(() => {
+			fs.rmSync(moduleRoot, { recursive: true, force: true });
+		});
+
+		test('Should look keys up ignoring case like PowerShell', async () => {
+			const document = await vscode.workspace.openTextDocument(path.join(moduleRoot, 'Case.psm1'));
+			const provider = new LocalizationDiagnosticsProvider(new LocalizationService());
+
+			try {
+				const diagnostics = await provider.createDiagnostics(document);
+				assert.deepStrictEqual(diagnostics.map(diagnostic => [diagnostic.severity, diagnostic.message]), [
+					[vscode.DiagnosticSeverity.Warning, "Localization key 'key2' is missing from culture(s): fr-FR."],
+					[vscode.DiagnosticSeverity.Error, "Localization key 'Missing' is not defined in the default culture (en-US) for $LocalizedData."]
+				]);
+			} finally {
+				provider.dispose();
+			}
+		});
+	});
+
+	suite('Localization Key Scanner', () => {
+		test('Should locate keys in ConvertFrom-StringData here-strings', () => {
+			const fixturePath = path.join(__dirname, '..', '..', 'tests', 'fixtures', 'Example', 'en-US', 'Example.psd1');
+			const keys = LocalizationKeyScanner.findKeys(fs.readFileSync(fixturePath, 'utf8'));
+
+			assert.deepStrictEqual(keys, [
+				{ key: 'Key1', line: 1, character: 0 },
+				{ key: 'Key2', line: 2, character: 0 },
+				{ key: 'Key3', line: 3, character: 0 }
+			]);
+		});
+
+		test('Should locate keys in hashtable literals', () => {
+			const content = [
+				'# Greeting messages',
+				'@{',
+				"  Hello = 'Hello = world'",
+				'  \'Quoted Key\' = "Value"; Inline = \'Other\'',
+				'  Nested = @{ Inner = \'Ignored\' }',
+				'}'
+			].join('\n');
+
+			const keys = LocalizationKeyScanner.findKeys(content);
+
+			assert.deepStrictEqual(keys, [
+				{ key: 'Hello', line: 2, character: 2 },
+				{ key: 'Quoted Key', line: 3, character: 3 },
+				{ key: 'Inline', line: 3, character: 26 },
+				{ key: 'Nested', line: 4, character: 2 }
+			]);
+		});
+
+		test('Should find the binding variable usage under the cursor', () => {
+			const line = 'Write-Host $LocalizedData.Key3 $AsSplat';
+
+			const keyMatch = Utils.findBindingVariableMatchAt(line, 27, ['LocalizedData', 'AsSplat']);
+			assert.strictEqual(keyMatch?.variableName, 'LocalizedData');
+			assert.strictEqual(keyMatch?.key, 'Key3');
+			assert.strictEqual(keyMatch?.keyStart, 26);
+
+			const variableMatch = Utils.findBindingVariableMatchAt(line, 33, ['LocalizedData', 'AsSplat']);
+			assert.strictEqual(variableMatch?.variableName, 'AsSplat');
+			assert.strictEqual(variableMatch?.key, undefined);
+		});
+
+		test('Should follow property chains and string indexers', () => {
+			const bindingVarRegex = Utils.createBindingVariableRegex(['LocalizedData']);
+			const [chain, indexer] = Utils.findBindingVariableMatches(
+				"$LocalizedData.Errors.NotFound + $LocalizedData[ 'Key 1' ]",
+				bindingVarRegex
+			);
+
+			assert.deepStrictEqual(chain.path.map(segment => segment.name), ['Errors', 'NotFound']);
+			assert.deepStrictEqual([chain.keyStart, chain.keyEnd, chain.end], [15, 21, 30]);
+			assert.strictEqual(indexer.key, 'Key 1');
+			assert.strictEqual(indexer.keyStart, 50);
+		});
+
+		test('Should resolve and format nested localization values', () => {
+			const data = { Errors: { NotFound: 'Not found', Codes: [404, 410] }, Enabled: true };
+
+			assert.strictEqual(Utils.resolvePropertyPath(data, ['errors', 'NotFound']), 'Not found');
+			assert.strictEqual(Utils.resolvePropertyPath(data, ['Errors', 'Missing']), undefined);
+			assert.strictEqual(
+				Utils.formatLocalizationValue(data),
+				'{Errors: {NotFound: "Not found", Codes: @(404, 410)}, Enabled: $true}'
+			);
+		});
+	});
+
+	suite('Localization References', () => {
+		const baseDirectory = path.join(__dirname, '..', '..', 'tests', 'fixtures', 'Example');
+		const sourceFile = path.join(baseDirectory, 'Example.psm1');
+		const createCall = (bindingVariable: string, fileName: string, startLine: number, scope: SourceRange | null = null): LocalizationCall => ({
+			bindingVariable,
+			fileName,
+			baseDirectory,
+			sourceFile,
+			range: { startLine, startCharacter: 0, endLine: startLine, endCharacter: 40 },
+			scope,
+			filePath: null,
+			culture: null
+		});
+
+		test('Should map a culture data file to every binding variable that reads it', () => {
+			const service = new LocalizationService();
+			const calls = [
+				createCall('LocalizedData', 'Example.psd1', 1),
+				createCall('AsSplat', 'Example.psd1', 7),
+				createCall('OtherData', 'Other.psd1', 9)
+			];
+
+			const variableNames = service.getBindingVariablesForDataFile(
+				calls,
+				path.join(baseDirectory, 'fr-FR', 'Example.psd1')
+			);
+
+			assert.deepStrictEqual(variableNames, ['LocalizedData', 'AsSplat']);
+		});
+
+		test('Should pick the call whose scope encloses the usage', () => {
+			const calls = [
+				createCall('Messages', 'Module.psd1', 1),
+				createCall('Messages', 'Errors.psd1', 11, { startLine: 10, startCharacter: 0, endLine: 20, endCharacter: 1 }),
+				createCall('Messages', 'Inner.psd1', 13, { startLine: 12, startCharacter: 2, endLine: 15, endCharacter: 3 })
+			];
+
+			assert.strictEqual(LocalizationService.selectCall(calls, 'Messages', sourceFile, 18)?.fileName, 'Errors.psd1');
+			assert.strictEqual(LocalizationService.selectCall(calls, 'Messages', sourceFile, 14)?.fileName, 'Inner.psd1');
+			assert.strictEqual(LocalizationService.selectCall(calls, 'Messages', sourceFile, 30)?.fileName, 'Module.psd1');
+			assert.strictEqual(LocalizationService.selectCall(calls, 'Messages', path.join(baseDirectory, 'Other.ps1'), 18)?.fileName, 'Module.psd1');
+		});
+
+		test('Should map data files in culture folders and in the base directory to their data source', () => {
+			const service = new LocalizationService();
+			const calls = [createCall('LocalizedData', 'Example.psd1', 1)];
+
+			assert.deepStrictEqual(
+				service.getDataSourceOfDataFile(path.join(baseDirectory, 'fr-FR', 'Example.psd1'), calls),
+				{ baseDirectory, fileName: 'Example.psd1' }
+			);
+			assert.deepStrictEqual(
+				service.getDataSourceOfDataFile(path.join(baseDirectory, 'Example.psd1'), calls),
+				{ baseDirectory, fileName: 'Example.psd1' }
+			);
+		});
+
+		test('Should not treat the module manifest as a data file', async () => {
+			const service = new LocalizationService();
+			const manifestModule = path.join(__dirname, '..', '..', 'tests', 'fixtures', 'ManifestModule');
+
+			assert.strictEqual(await service.isModuleManifest(path.join(manifestModule, 'ManifestModule.psd1')), true);
+			assert.strictEqual(await service.isModuleManifest(path.join(manifestModule, 'en-US', 'ManifestModule.psd1')), false);
+			const manifest = await vscode.workspace.openTextDocument(path.join(manifestModule, 'ManifestModule.psd1'));
+			assert.strictEqual(await service.findKeyAt(manifest, new vscode.Position(1, 4)), null);
+		});
+	});
+
+	suite('Localization Hover', () => {
+		let moduleRoot: string;
+		let document: vscode.TextDocument;
+		const token = new vscode.CancellationTokenSource().token;
+
+		suiteSetup(async () => {
+			moduleRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'psloc-hover-'));
+			const modulePath = path.join(moduleRoot, 'Hover.psm1');
+			fs.writeFileSync(modulePath, [
+				"Import-LocalizedData -BindingVariable LocalizedData -FileName 'Hover.psd1'",
+				'Write-Host ($LocalizedData.Greeting -f $name)',
+				'Write-Host $LocalizedData.Farewell',
+				'function Get-FrenchGreeting {',
+				"  Import-LocalizedData -BindingVariable French -FileName 'Hover.psd1' -UICulture fr-FR",
+				'  Write-Host $French.Greeting',
+				'}'
+			].join('\n'));
+			fs.mkdirSync(path.join(moduleRoot, 'en-US'));
+			fs.writeFileSync(path.join(moduleRoot, 'en-US', 'Hover.psd1'), "ConvertFrom-StringData @'\nGreeting = Hello {0}\nFarewell = Goodbye\n'@");
+			fs.mkdirSync(path.join(moduleRoot, 'fr-FR'));
+			fs.writeFileSync(path.join(moduleRoot, 'fr-FR', 'Hover.psd1'), "@{\n  Greeting = 'Bonjour {0}'\n}");
+			document = await vscode.workspace.openTextDocument(modulePath);
+		});
+
+		suiteTeardown(() => {
+			fs.rmSync(moduleRoot, { recursive: true, force: true });
+		});
+
+		const getMarkdown = async (position: vscode.Position) => {
+			const hover = await new LocalizationHoverProvider(new LocalizationService()).provideHover(document, position, token);
+			return (hover!.contents[0] as vscode.MarkdownString).value;
+		};
+
+		test('Should mark the cultures that lack the key as missing', async () => {
+			const rows = (await getMarkdown(new vscode.Position(2, 28))).split('\n').filter(line => /^\| (\*\*)?[a-z]{2}-[A-Z]{2}/.test(line));
+
+			assert.strictEqual(rows.length, 2);
+			assert.ok(rows[0].startsWith('| **en-US** (current) | Goodbye |'), rows[0]);
+			assert.ok(rows[1].startsWith('| fr-FR | $(warning) *missing* |'), rows[1]);
+		});
+
+		test('Should link each other culture to the command switching the UI culture', async () => {
+			const markdown = await getMarkdown(new vscode.Position(1, 30));
+			const args = encodeURIComponent(JSON.stringify(['fr-FR', document.uri.toString()]));
+
+			assert.ok(markdown.includes(`[Switch](command:${LocalizationHoverProvider.SET_UI_CULTURE_COMMAND}?${args} "Set uiCulture to fr-FR")`));
+			assert.ok(!markdown.includes(encodeURIComponent(JSON.stringify(['en-US', document.uri.toString()]))), 'The current culture should not offer a switch');
+			assert.ok(markdown.includes('Format arguments: \\{0\\} ← \\$name'), markdown);
+			assert.ok(markdown.includes('| fr-FR | Bonjour \\$name |'), markdown);
+		});
+
+		test('Should mark the culture declared with -UICulture as the current one', async () => {
+			const rows = (await getMarkdown(new vscode.Position(5, 23))).split('\n').filter(line => /^\| (\*\*)?[a-z]{2}-[A-Z]{2}/.test(line));
+
+			assert.ok(rows[0].startsWith('| en-US | Hello \\{0\\} |'), rows[0]);
+			assert.ok(rows[1].startsWith('| **fr-FR** (current) | Bonjour \\{0\\} |'), rows[1]);
+		});
+	});
+
+	suite('Localization Completion', () => {
+		let moduleRoot: string;
+		let document: vscode.TextDocument;
+		const token = new vscode.CancellationTokenSource().token;
+
+		suiteSetup(async () => {
+			moduleRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'psloc-completion-'));
+			fs.cpSync(path.join(__dirname, '..', '..', 'tests', 'fixtures', 'Example'), moduleRoot, { recursive: true });
+			const modulePath = path.join(moduleRoot, 'Example.psm1');
+			fs.appendFileSync(modulePath, '\nWrite-Host $LocalizedData.Ke\nWrite-Host ${script:localizedData}.');
+			document = await vscode.workspace.openTextDocument(modulePath);
+		});
+
+		suiteTeardown(() => {
+			fs.rmSync(moduleRoot, { recursive: true, force: true });
+		});
+
+		const getCompletions = async (position: vscode.Position) => {
+			const provider = new LocalizationCompletionProvider(new LocalizationService());
+			return (await provider.provideCompletionItems(document, position, token))!;
+		};
+		const toLabels = (items: vscode.CompletionItem[]) => items.map(item => [(item.label as vscode.CompletionItemLabel).label, item.detail]);
+
+		test('Should offer the keys of the data file replacing the typed part', async () => {
+			const items = await getCompletions(new vscode.Position(10, 28));
+			const range = items[0].range as vscode.Range;
+
+			assert.deepStrictEqual(toLabels(items), [['Key1', 'Value1'], ['Key2', 'Value2'], ['Key3', 'Value3']]);
+			assert.deepStrictEqual([range.start.character, range.end.character], [26, 28]);
+		});
+
+		test('Should offer the keys whatever the case, scope or braces of the variable', async () => {
+			const items = await getCompletions(new vscode.Position(11, 35));
+
+			assert.deepStrictEqual(toLabels(items), [['Key1', 'Value1'], ['Key2', 'Value2'], ['Key3', 'Value3']]);
+		});
+
+		test('Should offer the keys to a variable bound through splatting', async () => {
+			const items = await getCompletions(new vscode.Position(9, 20));
+
+			assert.deepStrictEqual(toLabels(items), [['Key1', 'Value1'], ['Key2', 'Value2'], ['Key3', 'Value3']]);
+		});
+	});
+
+	suite('Localization Explorer', () => {
+		let moduleRoot: string;
+		let explorer: LocalizationExplorerProvider;
+		let moduleNode: LocalizationExplorerNode;
+
+		suiteSetup(async () => {
+			// The French culture writes key1 in lowercase, lacks Key3 and copies Key2 from English
+			moduleRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'psloc-explorer-'));
+			fs.cpSync(path.join(__dirname, '..', '..', 'tests', 'fixtures', 'Example'), moduleRoot, { recursive: true });
+			fs.writeFileSync(path.join(moduleRoot, 'fr-FR', 'Example.psd1'), "ConvertFrom-StringData @'\nkey1 = Valeur1\nKey2 = Value2\n'@");
+
+			const service = new LocalizationService();
+			const modulePath = path.join(moduleRoot, 'Example.psm1');
+			explorer = new LocalizationExplorerProvider(service, new PowerShellModuleScanner(), new LocalizationExtractStringProvider(service));
+			moduleNode = { kind: 'module', modulePath, module: (await service.resolveModule(modulePath))! };
+		});
+
+		suiteTeardown(() => {
+			explorer.dispose();
+			fs.rmSync(moduleRoot, { recursive: true, force: true });
+		});
+
+		test('Should list the calls of a module and the keys of their data file', async () => {
+			const callNodes = await explorer.getChildren(moduleNode);
+			const callItems = callNodes.map(node => explorer.getTreeItem(node));
+
+			assert.deepStrictEqual(callItems.map(item => [item.label, item.description]), [
+				['$LocalizedData', 'Example.psd1 · Example.psm1:2'],
+				['$AsSplat', 'Example.psd1 · Example.psm1:8']
+			]);
+
+			const keyItems = (await explorer.getChildren(callNodes[0])).map(node => explorer.getTreeItem(node));
+			assert.deepStrictEqual(keyItems.map(item => [item.label, item.description, item.contextValue]), [
+				['Key1', '', 'key'],
+				['Key2', 'untranslated: fr-FR', 'key'],
+				['Key3', 'missing: fr-FR', 'keyWithMissingTranslations']
+			]);
+		});
+
+		test('Should show the status of each culture of a key', async () => {
+			const [callNode] = await explorer.getChildren(moduleNode);
+			const keyNodes = await explorer.getChildren(callNode);
+			const statuses = await Promise.all(keyNodes.map(async keyNode =>
+				(await explorer.getChildren(keyNode)).map(node => explorer.getTreeItem(node)).map(item => [item.label, item.description, item.contextValue])
+			));
+
+			assert.deepStrictEqual(statuses, [
+				[['en-US', '"Value1"', 'culture-present'], ['fr-FR', '"Valeur1"', 'culture-present']],
+				[['en-US', '"Value2"', 'culture-present'], ['fr-FR', '"Value2"', 'culture-untranslated']],
+				[['en-US', '"Value3"', 'culture-present'], ['fr-FR', 'missing', 'culture-missing']]
+			]);
+		});
+
+		test('Should compare keys across cultures ignoring their case', async () => {
+			const checker = new LocalizationParityChecker(new LocalizationService(), new PowerShellModuleScanner());
+
+			try {
+				const [dataFile] = (await checker.checkModule(path.join(moduleRoot, 'Example.psm1'), moduleRoot)).dataFiles;
+				assert.deepStrictEqual(dataFile.missingKeys, { 'fr-FR': ['Key3'] });
+				assert.deepStrictEqual(dataFile.extraKeys, {});
+				assert.deepStrictEqual(dataFile.untranslatedKeys, { 'fr-FR': ['Key2'] });
+			} finally {
+				checker.dispose();
+			}
+		});
+	});
+
+	suite('Localization Rename', () => {
+		let modulePath: string;
+		let moduleRoot: string;
+
+		suiteSetup(() => {
+			moduleRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'psloc-rename-'));
+			modulePath = path.join(moduleRoot, 'Rename.psm1');
+			fs.writeFileSync(modulePath, [
+				"Import-LocalizedData -BindingVariable LocalizedData -FileName 'Rename.psd1'",
+				'Write-Host $LocalizedData.Key1',
+				'Write-Host $LocalizedData.key1 $LocalizedData.Key2'
+			].join('\n'));
+			fs.mkdirSync(path.join(moduleRoot, 'en-US'));
+			fs.writeFileSync(path.join(moduleRoot, 'en-US', 'Rename.psd1'), "ConvertFrom-StringData @'\nKey1 = One\nKey2 = Two\n'@");
+			fs.mkdirSync(path.join(moduleRoot, 'fr-FR'));
+			fs.writeFileSync(path.join(moduleRoot, 'fr-FR', 'Rename.psd1'), "@{\n  Key1 = 'Un'\n  Key2 = 'Deux'\n}");
+		});
+
+		suiteTeardown(() => {
+			fs.rmSync(moduleRoot, { recursive: true, force: true });
+		});
+
+		test('Should rename the key in every culture and every usage whatever its case', async () => {
+			const provider = new LocalizationRenameProvider(new LocalizationService());
+			const document = await vscode.workspace.openTextDocument(modulePath);
+
+			const edit = await provider.provideRenameEdits(document, new vscode.Position(2, 28), 'Greeting', new vscode.CancellationTokenSource().token);
+
+			const edits = edit!.entries().flatMap(([uri, textEdits]) => textEdits.map(textEdit =>
+				`${path.relative(moduleRoot, uri.fsPath)}:${textEdit.range.start.line}:${textEdit.range.start.character}-${textEdit.range.end.character}`
+			)).sort();
+			assert.deepStrictEqual(edits, [
+				'Rename.psm1:1:26-30',
+				'Rename.psm1:2:26-30',
+				path.join('en-US', 'Rename.psd1') + ':1:0-4',
+				path.join('fr-FR', 'Rename.psd1') + ':1:2-6'
+			].sort());
+			assert.ok(edit!.entries().every(([, textEdits]) => textEdits.every(textEdit => textEdit.newText === 'Greeting')));
+		});
+
+		test('Should refuse a key that exists with another case but allow changing the case of the key', async () => {
+			const provider = new LocalizationRenameProvider(new LocalizationService());
+			const document = await vscode.workspace.openTextDocument(modulePath);
+			const token = new vscode.CancellationTokenSource().token;
+
+			await assert.rejects(
+				provider.provideRenameEdits(document, new vscode.Position(1, 28), 'key2', token),
+				/already exists in en-US/
+			);
+			const edit = await provider.provideRenameEdits(document, new vscode.Position(1, 28), 'KEY1', token);
+			assert.strictEqual(edit!.entries().flatMap(([, textEdits]) => textEdits).length, 4);
+		});
+
+		test('Should rename only the usages bound to the data file of the key', async () => {
+			const scopedRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'psloc-rename-scoped-'));
+			try {
+				const scopedPath = path.join(scopedRoot, 'Scoped.psm1');
+				fs.writeFileSync(scopedPath, [
+					"Import-LocalizedData -BindingVariable Msg -FileName 'Messages.psd1'",
+					'Write-Host $Msg.Title',
+					'function Get-ErrorTitle {',
+					"  Import-LocalizedData -BindingVariable Msg -FileName 'Errors.psd1'",
+					'  Write-Host $Msg.Title',
+					'}'
+				].join('\n'));
+				fs.mkdirSync(path.join(scopedRoot, 'en-US'));
+				fs.writeFileSync(path.join(scopedRoot, 'en-US', 'Messages.psd1'), "@{\n  Title = 'Message'\n}");
+				fs.writeFileSync(path.join(scopedRoot, 'en-US', 'Errors.psd1'), "@{\n  Title = 'Error'\n}");
+				const provider = new LocalizationRenameProvider(new LocalizationService());
+				const document = await vscode.workspace.openTextDocument(scopedPath);
+
+				const edit = await provider.provideRenameEdits(document, new vscode.Position(4, 19), 'Heading', new vscode.CancellationTokenSource().token);
+
+				const edits = edit!.entries().flatMap(([uri, textEdits]) => textEdits.map(textEdit =>
+					`${path.relative(scopedRoot, uri.fsPath)}:${textEdit.range.start.line}:${textEdit.range.start.character}`
+				)).sort();
+				assert.deepStrictEqual(edits, ['Scoped.psm1:4:18', path.join('en-US', 'Errors.psd1') + ':1:2'].sort());
+			} finally {
+				fs.rmSync(scopedRoot, { recursive: true, force: true });
+			}
+		});
+
+		test('Should rename the key in the data file of the base directory too', async () => {
+			const invariantRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'psloc-rename-invariant-'));
+			try {
+				const invariantPath = path.join(invariantRoot, 'S.psm1');
+				fs.writeFileSync(invariantPath, "Import-LocalizedData -BindingVariable S -FileName 'S.psd1'\nWrite-Host $S.Key1");
+				fs.writeFileSync(path.join(invariantRoot, 'S.psd1'), "@{\n  Key1 = 'One'\n}");
+				fs.mkdirSync(path.join(invariantRoot, 'fr-FR'));
+				fs.writeFileSync(path.join(invariantRoot, 'fr-FR', 'S.psd1'), "@{\n  Key1 = 'Un'\n}");
+				const provider = new LocalizationRenameProvider(new LocalizationService());
+				const document = await vscode.workspace.openTextDocument(invariantPath);
+
+				const edit = await provider.provideRenameEdits(document, new vscode.Position(1, 15), 'Greeting', new vscode.CancellationTokenSource().token);
+
+				const edits = edit!.entries().flatMap(([uri, textEdits]) => textEdits.map(textEdit =>
+					`${path.relative(invariantRoot, uri.fsPath)}:${textEdit.range.start.line}:${textEdit.range.start.character}`
+				)).sort();
+				assert.deepStrictEqual(edits, ['S.psd1:1:2', 'S.psm1:1:14', path.join('fr-FR', 'S.psd1') + ':1:2'].sort());
+			} finally {
+				fs.rmSync(invariantRoot, { recursive: true, force: true });
+			}
+		});
+	});
+
+	suite('Unused Localization Keys', () => {
+		test('Should remove whole lines for an entry alone on its line', () => {
+			const content = ['@{', "  Used = 'Value'", "  Unused = 'Value'", '}'].join('\n');
+			const entry = LocalizationKeyScanner.findEntries(content).find(candidate => candidate.key === 'Unused')!;
+
+			const range = LocalizationUnusedKeysProvider.getEntryRemovalRange(content, entry);
+			assert.deepStrictEqual(
+				[range.start.line, range.start.character, range.end.line, range.end.character],
+				[2, 0, 3, 0]
+			);
+		});
+
+		test('Should remove only the entry and its separator when sharing a line', () => {
+			const content = "@{ Unused = 'Value'; Used = 'Value' }";
+			const entry = LocalizationKeyScanner.findEntries(content).find(candidate => candidate.key === 'Unused')!;
+
+			const range = LocalizationUnusedKeysProvider.getEntryRemovalRange(content, entry);
+			assert.deepStrictEqual(
+				[range.start.line, range.start.character, range.end.line, range.end.character],
+				[0, 3, 0, 21]
+			);
+		});
+
+		test('Should collect used keys ignoring case and give up when the data is used as a whole', async () => {
+			const moduleRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'psloc-unused-'));
+			const modulePath = path.join(moduleRoot, 'Unused.psm1');
+			const writeModule = (usage: string) => fs.writeFileSync(modulePath, [
+				"$Data = Import-LocalizedData -FileName 'Unused.psd1'",
+				'Write-Host $Data.KEY1 $Data["Key2"] $DataFolder',
+				'Write-Host $script:data.Key3 ${Data}.Key4 ${global:DATA}.Key5',
+				usage
+			].join('\n'));
+
+			try {
+				const service = new LocalizationService();
+				writeModule('');
+				const module = (await service.resolveModule(modulePath))!;
+				assert.deepStrictEqual([...(await service.findUsedKeys(module, ['Data']))!], ['key1', 'key2', 'key3', 'key4', 'key5']);
+
+				for (const usage of [
+					'Show-Table $Data', 'Format-Message @Data', 'Write-Host $Data[$name]', 'Write-Host $Data.$name',
+					'Invoke-Command { $using:Data.Key1 }', 'Write-Host ${Data}[$name]'
+				]) {
+					writeModule(usage);
+					assert.strictEqual(await service.findUsedKeys(module, ['Data']), null, usage);
+				}
+			} finally {
+				fs.rmSync(moduleRoot, { recursive: true, force: true });
+			}
+		});
+	});
+
+	suite('Extract String', () => {
+		test('Should convert expandable strings to format strings', () => {
+			const line = 'Write-Warning "Could not connect to $server on {port} $($config.Port)"';
+			const literal = LocalizationExtractStringProvider.findStringLiteralAt(line, 20, 20);
+			assert.ok(literal);
+
+			const format = LocalizationExtractStringProvider.toFormatString(literal);
+			assert.strictEqual(format.value, 'Could not connect to {0} on {{port}} {1}');
+			assert.deepStrictEqual(format.args, ['$server', '$($config.Port)']);
+			assert.strictEqual(LocalizationExtractStringProvider.suggestKey(format.value), 'CouldNotConnectToOn');
+		});
+
+		test('Should suggest a key that differs from existing keys whatever their case', () => {
+			const existingKeys = new Set(['COULDNOTCONNECT', 'couldNotConnect2']);
+
+			assert.strictEqual(LocalizationExtractStringProvider.suggestKey('Could not connect', existingKeys), 'CouldNotConnect3');
+		});
+
+		test('Should add entries to both data file forms', () => {
+			const stringData = ['ConvertFrom-StringData @\'', 'Key1 = Value1', '\'@'].join('\n');
+			assert.deepStrictEqual(
+				LocalizationKeyScanner.findInsertionPoint(stringData),
+				{ form: 'stringData', line: 2, character: 0 }
+			);
+			assert.deepStrictEqual(
+				LocalizationKeyScanner.findInsertionPoint("@{\n  Key1 = 'Value1'\n}"),
+				{ form: 'hashtable', line: 2, character: 0 }
+			);
+			assert.strictEqual(
+				LocalizationExtractStringProvider.formatEntry('hashtable', 'Quote', "It's"),
+				"Quote = 'It''s'"
+			);
+			assert.strictEqual(
+				LocalizationExtractStringProvider.formatEntry('stringData', 'Path', 'C:\\Temp\nDone'),
+				'Path = C:\\\\Temp\\nDone'
+			);
+		});
+	});
+
+	suite('Format Strings', () => {
+		test('Should count and fill placeholders', () => {
+			assert.strictEqual(FormatStringAnalyzer.getExpectedArgumentCount('{0} not found in {1}'), 2);
+			assert.strictEqual(FormatStringAnalyzer.getExpectedArgumentCount('{{0}} took {2,-8:N1}s'), 3);
+			assert.strictEqual(FormatStringAnalyzer.getExpectedArgumentCount('No placeholders'), 0);
+			assert.strictEqual(
+				FormatStringAnalyzer.applyArguments('{0} not found in {1} {{literal}} {2}', ['$name', '$domain']),
+				'$name not found in $domain {literal} {2}'
+			);
+		});
+
+		test('Should find format arguments of binding variable usages', () => {
+			const regex = Utils.createBindingVariableRegex(['Data']);
+			const findUsage = (line: string) => FormatStringAnalyzer.findUsage(line, Utils.findBindingVariableMatches(line, regex)[0]);
+
+			assert.deepStrictEqual(
+				findUsage('throw ($Data.UserNotFound -f $name, $user.Domain, (Get-Date -Format "d, M"))'),
+				{ kind: 'operator', args: ['$name', '$user.Domain', '(Get-Date -Format "d, M")'], spread: false }
+			);
+			assert.deepStrictEqual(
+				findUsage('[string]::Format($Data.Errors.NotFound, \'a, b\', $id) | Write-Warning'),
+				{ kind: 'method', args: ['\'a, b\'', '$id'], spread: false }
+			);
+			assert.strictEqual(findUsage('$Data.UserNotFound -f $name,'), undefined);
+			assert.strictEqual(findUsage('Write-Host $Data.UserNotFound'), undefined);
+			assert.strictEqual(findUsage('$Data.Summary -f @($a, $b)')?.spread, true);
+		});
+	});
+
+	suite('Translation Grid', () => {
+		test('Should lay out keys in default culture order with a status per culture', () => {
+			const grid = TranslationGridEditorProvider.createGrid([
+				{ culture: 'de-DE', keys: ['Goodbye', 'Hello'], values: { Goodbye: 'Tschüss', Hello: 'Hello' } },
+				{ culture: 'en-US', keys: ['Hello', 'Goodbye', 'Nested'], values: { Hello: 'Hello', Goodbye: 'Goodbye', Nested: { A: '1' } } }
+			], 'en-US');
+
+			assert.deepStrictEqual(grid.cultures, ['en-US', 'de-DE']);
+			assert.deepStrictEqual(grid.rows.map(row => row.key), ['Hello', 'Goodbye', 'Nested']);
+			assert.deepStrictEqual(grid.rows[0].cells['de-DE'], { status: 'untranslated', value: 'Hello', editable: true });
+			assert.deepStrictEqual(grid.rows[2].cells['de-DE'], { status: 'missing', editable: true });
+			assert.strictEqual(grid.rows[2].cells['en-US'].editable, false);
+		});
+
+		test('Should show keys that differ only by case on one row', () => {
+			const grid = TranslationGridEditorProvider.createGrid([
+				{ culture: 'fr-FR', keys: ['hello'], values: { hello: 'Bonjour' } },
+				{ culture: 'en-US', keys: ['Hello'], values: { Hello: 'Hello' } }
+			], 'en-US');
+
+			assert.deepStrictEqual(grid.rows.map(row => row.key), ['Hello']);
+			assert.deepStrictEqual(grid.rows[0].cells['fr-FR'], { status: 'present', value: 'Bonjour', editable: true });
+		});
+
+		test('Should replace only the value, keeping the data file form and expandable strings', () => {
+			const hashtable = ['@{', '  # Greeting', '  Hello = "Hello $name"', "  'Good bye' = 'Bye'", '}'].join('\n');
+			const entries = LocalizationKeyScanner.findEntries(hashtable);
+			assert.deepStrictEqual([entries[0].valueLine, entries[0].valueCharacter], [2, 10]);
+			assert.deepStrictEqual([entries[1].valueLine, entries[1].valueCharacter], [3, 15]);
+			assert.strictEqual(TranslationGridEditorProvider.formatValueReplacement(hashtable, entries[0], 'Hi $you'), '"Hi `$you"');
+			assert.strictEqual(TranslationGridEditorProvider.formatValueReplacement(hashtable, entries[1], "It's"), "'It''s'");
+
+			const stringData = ['ConvertFrom-StringData @\'', 'Hello = Hello', "'@"].join('\n');
+			const entry = LocalizationKeyScanner.findEntries(stringData)[0];
+			assert.deepStrictEqual([entry.valueLine, entry.valueCharacter], [1, 8]);
+			assert.strictEqual(TranslationGridEditorProvider.formatValueReplacement(stringData, entry, 'Line\nTwo'), 'Line\\nTwo');
+		});
+	});
+
+	suite('Culture Scaffolding', () => {
+		test('Should mark or blank string values while keeping the layout of the default culture', () => {
+			const hashtable = [
+				'# Messages shown by the module',
+				'@{',
+				"    Hello   = 'Hello'    # greeting",
+				'    Expanded = "Line`n"',
+				'    Nested = @{ Inner = \'Value\' }',
+				'}'
+			].join('\r\n');
+
+			assert.strictEqual(LocalizationCultureScaffolder.scaffoldDataFile(hashtable, 'copy', 'TODO: '), hashtable);
+			assert.strictEqual(LocalizationCultureScaffolder.scaffoldDataFile(hashtable, 'todo', '[de] '), [
+				'# Messages shown by the module',
+				'@{',
+				"    Hello   = '[de] Hello'    # greeting",
+				'    Expanded = "[de] Line`n"',
+				'    Nested = @{ Inner = \'Value\' }',
+				'}'
+			].join('\r\n'));
+
+			const stringData = ['ConvertFrom-StringData @\'', '# Comment', 'Hello = Hello {0}', 'Bye = Bye', "'@"].join('\n');
+			assert.strictEqual(
+				LocalizationCultureScaffolder.scaffoldDataFile(stringData, 'blank', 'TODO: '),
+				['ConvertFrom-StringData @\'', '# Comment', 'Hello = ', 'Bye = ', "'@"].join('\n')
+			);
+		});
+	});
+
+	suite('Localization Parity Report', () => {
+		const report = {
+			generatedAt: '2025-08-12T00:00:00.000Z',
+			defaultCulture: 'en-US',
+			modules: [{
+				rootPath: '/modules/Example',
+				defaultCulture: 'en-US',
+				dataFiles: [{
+					fileName: 'Example.psd1',
+					baseDirectory: '/modules/Example',
+					variableNames: ['LocalizedData', 'AsSplat'],
+					cultures: ['en-US', 'fr-FR'],
+					missingKeys: { 'fr-FR': ['Key4'] },
+					extraKeys: {},
+					untranslatedKeys: { 'fr-FR': ['Key1'] }
+				}]
+			}]
+		};
+
+		test('Should render the report as Markdown', () => {
+			const markdown = LocalizationParityChecker.toMarkdown(report);
+
+			assert.ok(markdown.includes('### Example.psd1 ($LocalizedData, $AsSplat)'), 'Should list the data file and its binding variables');
+			assert.ok(markdown.includes('| fr-FR | 1 | 0 | 1 |'), 'Should summarize the counts per culture');
+			assert.ok(markdown.includes('- Missing: `Key4`'), 'Should list missing keys');
+			assert.ok(markdown.includes('- Untranslated: `Key1`'), 'Should list untranslated keys');
+		});
+
+		test('Should render the report as JSON', () => {
+			const parsed = JSON.parse(LocalizationParityChecker.toJson(report));
+
+			assert.deepStrictEqual(parsed, report);
+		});
+
+		test('Should recompute the diagnostics of a checked module when a culture data file changes', async function () {
+			this.timeout(10000);
+			const moduleRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'psloc-parity-'));
+			const modulePath = path.join(moduleRoot, 'Parity.psm1');
+			fs.writeFileSync(modulePath, "Import-LocalizedData -BindingVariable Data -FileName 'Parity.psd1'");
+			fs.mkdirSync(path.join(moduleRoot, 'en-US'));
+			fs.writeFileSync(path.join(moduleRoot, 'en-US', 'Parity.psd1'), "@{\n  Key1 = 'One'\n  Key2 = 'Two'\n}");
+			fs.mkdirSync(path.join(moduleRoot, 'fr-FR'));
+			const frenchUri = vscode.Uri.file(path.join(moduleRoot, 'fr-FR', 'Parity.psd1'));
+			fs.writeFileSync(frenchUri.fsPath, "@{\n  Key1 = 'Un'\n}");
+			const checker = new LocalizationParityChecker(new LocalizationService(), new PowerShellModuleScanner());
+			const getMessages = () => vscode.languages.getDiagnostics(frenchUri)
+				.filter(diagnostic => diagnostic.code === 'missingTranslation')
+				.map(diagnostic => diagnostic.message);
+
+			try {
+				checker.activate();
+				await checker.checkModule(modulePath, moduleRoot);
+				assert.deepStrictEqual(getMessages(), ["Key 'Key2' from the default culture (en-US) is missing from fr-FR."]);
+
+				const edit = new vscode.WorkspaceEdit();
+				edit.insert(frenchUri, new vscode.Position(2, 0), "  Key2 = 'Deux'\n");
+				assert.ok(await vscode.workspace.applyEdit(edit));
+				for (let attempt = 0; attempt < 50 && getMessages().length > 0; attempt++) {
+					await new Promise(resolve => setTimeout(resolve, 100));
+				}
+
+				assert.deepStrictEqual(getMessages(), []);
+				await (await vscode.workspace.openTextDocument(frenchUri)).save();
+			} finally {
+				checker.dispose();
+				fs.rmSync(moduleRoot, { recursive: true, force: true });
+			}
+		});
+	});
+
 	suite('Error Handling', () => {
 		test('Should handle malformed PowerShell files gracefully', async () => {
 			const malformedContent = `
@@ -437,6 +1686,23 @@ function Test-Function {
 			});
 		});
 
+		test('Should match binding variables whatever their case, scope or braces', () => {
+			const regex = Utils.createBindingVariableRegex(['LocalizedData']);
+			const line = 'Write-Host $LocalizedData.A $localizeddata.B $script:LocalizedData.C ${LocalizedData}.D ${private:localizedData}.E $LocalizedDataFolder';
+
+			const matches = Utils.findBindingVariableMatches(line, regex);
+			assert.deepStrictEqual(
+				matches.map(match => [match.variableName, match.key, line.substring(match.keyStart!, match.keyEnd!)]),
+				[
+					['LocalizedData', 'A', 'A'],
+					['LocalizedData', 'B', 'B'],
+					['LocalizedData', 'C', 'C'],
+					['LocalizedData', 'D', 'D'],
+					['LocalizedData', 'E', 'E']
+				]
+			);
+		});
+
 		test('Should handle empty exclude patterns', () => {
 			const path = 'C:/project/node_modules/package/file.psm1';
 			const emptyPatterns: string[] = [];
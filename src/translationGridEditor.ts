@@ -0,0 +1,356 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { Logger } from './logger';
+import { ConfigurationManager } from './configuration';
+import { LocalizationService } from './localizationService';
+import { LocalizationKeyScanner } from './localizationKeyScanner';
+import { LocalizationDataFileParser } from './dataFileParser';
+import { LocalizationExtractStringProvider } from './extractStringProvider';
+import { LocalizationParityChecker } from './parityChecker';
+import { CultureResolver } from './cultureResolver';
+import {
+  CultureDataFile,
+  CultureDataFileContent,
+  DataFileObject,
+  LocalizationDataSource,
+  LocalizationKeyEntry,
+  LocalizationKeyStatus,
+  TranslationGrid,
+  TranslationGridCell
+} from './types';
+import { DOCUMENT_CHANGE_DEBOUNCE_MS, Utils } from './utils';
+
+/**
+ * Message sent by the grid webview
+ */
+type TranslationGridMessage =
+  | { type: 'ready' }
+  | { type: 'edit'; key: string; culture: string; value: string }
+  | { type: 'reveal'; key: string; culture: string };
+
+/**
+ * Edits the translations of a culture data file side by side with every other culture
+ *
+ * The grid lists the keys of the data file across all culture folders of its
+ * module. Edited values are written back into each data file in place, keeping
+ * its comments, key order and form (hashtable literal or `ConvertFrom-StringData`).
+ */
+export class TranslationGridEditorProvider implements vscode.CustomTextEditorProvider {
+  public static readonly VIEW_TYPE = 'powershellLocalization.translationGrid';
+  public static readonly OPEN_COMMAND = 'powershellLocalization.openTranslationGrid';
+
+  private logger: Logger;
+
+  constructor(
+    private extensionUri: vscode.Uri,
+    private localizationService: LocalizationService,
+    private extractStringProvider: LocalizationExtractStringProvider
+  ) {
+    this.logger = Logger.getInstance();
+    this.logger.info('TranslationGridEditorProvider initialized');
+  }
+
+  /**
+   * Opens the grid for a culture data file, the active editor's by default
+   */
+  public async open(uri?: vscode.Uri): Promise<void> {
+    const target = uri ?? vscode.window.activeTextEditor?.document.uri;
+    if (!target || !Utils.isPowerShellDataFile(target.fsPath)) {
+      vscode.window.showWarningMessage('Open a culture data file (.psd1) to edit its translations.');
+      return;
+    }
+    await vscode.commands.executeCommand('vscode.openWith', target, TranslationGridEditorProvider.VIEW_TYPE);
+  }
+
+  /**
+   * Shows the grid of the data file in a webview and keeps it in sync with the culture data files
+   */
+  public async resolveCustomTextEditor(document: vscode.TextDocument, webviewPanel: vscode.WebviewPanel): Promise<void> {
+    const webview = webviewPanel.webview;
+    const mediaUri = vscode.Uri.joinPath(this.extensionUri, 'media');
+    webview.options = { enableScripts: true, localResourceRoots: [mediaUri] };
+
+    // Data files in the base directory itself belong to the grid of their data source too
+    const calls = await this.localizationService.getLocalizationCalls(document.uri.fsPath) ?? [];
+    const source = this.localizationService.getDataSourceOfDataFile(document.uri.fsPath, calls);
+    const isReadDataFile = this.localizationService.getBindingVariablesForSources(calls, [source]).length > 0 &&
+      !await this.localizationService.isModuleManifest(document.uri.fsPath);
+    if (!isReadDataFile && !CultureResolver.isValidCultureName(path.basename(path.dirname(document.uri.fsPath)))) {
+      webview.html = this.getMessageHtml(`${path.basename(document.uri.fsPath)} is not inside a culture folder.`);
+      return;
+    }
+
+    webview.html = this.getHtml(webview, mediaUri, source);
+
+    let timeout: NodeJS.Timeout | undefined;
+    // Edits are applied one at a time so each one sees the text left by the previous one
+    let pendingEdit = Promise.resolve();
+    const postGrid = () => {
+      clearTimeout(timeout);
+      timeout = setTimeout(async () => {
+        try {
+          await webview.postMessage({ type: 'grid', grid: await this.getGrid(source) });
+        } catch (error) {
+          this.logger.error(`Failed to load the translation grid of ${source.fileName}`, error as Error);
+        }
+      }, DOCUMENT_CHANGE_DEBOUNCE_MS);
+    };
+
+    // Any culture's data file changing, in an editor or on disk, changes the grid
+    const watcher = vscode.workspace.createFileSystemWatcher(
+      new vscode.RelativePattern(source.baseDirectory, `*/${source.fileName}`)
+    );
+    const disposables: vscode.Disposable[] = [
+      watcher,
+      watcher.onDidCreate(postGrid),
+      watcher.onDidChange(postGrid),
+      watcher.onDidDelete(postGrid),
+      vscode.workspace.onDidChangeTextDocument((event) => {
+        if (this.isDataFileOf(source, event.document.uri.fsPath)) {
+          postGrid();
+        }
+      }),
+      webview.onDidReceiveMessage(async (message: TranslationGridMessage) => {
+        switch (message.type) {
+          case 'ready':
+            postGrid();
+            break;
+          case 'edit':
+            pendingEdit = pendingEdit.then(() => this.setValue(source, message.culture, message.key, message.value));
+            await pendingEdit;
+            break;
+          case 'reveal':
+            await this.reveal(source, message.culture, message.key);
+            break;
+        }
+      })
+    ];
+
+    webviewPanel.onDidDispose(() => {
+      clearTimeout(timeout);
+      disposables.forEach(disposable => disposable.dispose());
+    });
+  }
+
+  /**
+   * Reads every culture data file of a data source into a grid
+   */
+  public async getGrid(source: LocalizationDataSource): Promise<TranslationGrid> {
+    const contents: CultureDataFileContent[] = [];
+    const errors: Record<string, string> = {};
+
+    for (const dataFile of await this.getDataFiles(source)) {
+      const text = await this.localizationService.readDocumentText(dataFile.filePath);
+      if (text === null) {
+        errors[dataFile.culture] = 'The data file could not be read.';
+        continue;
+      }
+
+      let values: DataFileObject = {};
+      try {
+        values = LocalizationDataFileParser.parse(text);
+      } catch (error) {
+        errors[dataFile.culture] = `Values are read-only: ${(error as Error).message}`;
+      }
+      contents.push({ culture: dataFile.culture, keys: LocalizationKeyScanner.findKeys(text).map(location => location.key), values });
+    }
+
+    return {
+      ...TranslationGridEditorProvider.createGrid(contents, ConfigurationManager.getDefaultCulture(vscode.Uri.file(source.baseDirectory))),
+      fileName: source.fileName,
+      errors
+    };
+  }
+
+  /**
+   * Lays out the keys of each culture as rows, the default culture's keys and column first
+   */
+  public static createGrid(
+    contents: CultureDataFileContent[],
+    defaultCulture: string
+  ): Pick<TranslationGrid, 'defaultCulture' | 'cultures' | 'rows'> {
+    const defaultContent = contents.find(content => content.culture === defaultCulture);
+    const ordered = defaultContent ? [defaultContent, ...contents.filter(content => content !== defaultContent)] : contents;
+    // Keys ignore case like PowerShell, each row shows the key as first written, the default culture first
+    const keys = new Map<string, string>();
+    for (const key of ordered.flatMap(content => content.keys)) {
+      keys.set(key.toLowerCase(), keys.get(key.toLowerCase()) ?? key);
+    }
+
+    return {
+      defaultCulture,
+      cultures: ordered.map(content => content.culture),
+      rows: [...keys.values()].map(key => {
+        const cells: Record<string, TranslationGridCell> = {};
+        for (const content of ordered) {
+          cells[content.culture] = this.createCell(content, defaultContent, key);
+        }
+        return { key, cells };
+      })
+    };
+  }
+
+  /**
+   * Creates the cell of a key for one culture
+   */
+  private static createCell(
+    content: CultureDataFileContent,
+    defaultContent: CultureDataFileContent | undefined,
+    key: string
+  ): TranslationGridCell {
+    if (!content.keys.some(candidate => candidate.toLowerCase() === key.toLowerCase())) {
+      return { status: 'missing', editable: true };
+    }
+
+    const value = Utils.resolvePropertyPath(content.values, [key]);
+    let status: LocalizationKeyStatus = 'present';
+    if (defaultContent && content !== defaultContent &&
+      LocalizationParityChecker.isUntranslated(Utils.resolvePropertyPath(defaultContent.values, [key]), value)) {
+      status = 'untranslated';
+    }
+
+    if (typeof value === 'string') {
+      return { status, value, editable: true };
+    }
+    return { status, value: value === undefined ? undefined : Utils.formatLocalizationValue(value), editable: false };
+  }
+
+  /**
+   * Formats the replacement of an entry's value, keeping the data file form and the quotes of expandable strings
+   */
+  public static formatValueReplacement(text: string, entry: LocalizationKeyEntry, value: string): string {
+    const form = LocalizationKeyScanner.findInsertionPoint(text)?.form ?? 'hashtable';
+    const currentValue = text.split(/\r?\n/)[entry.valueLine].substring(entry.valueCharacter);
+    return LocalizationExtractStringProvider.formatValue(form, value, currentValue.startsWith('"'));
+  }
+
+  /**
+   * Writes a value into a culture data file, adding the key when the culture is missing it
+   */
+  private async setValue(source: LocalizationDataSource, culture: string, key: string, value: string): Promise<void> {
+    try {
+      const dataFile = (await this.getDataFiles(source)).find(candidate => candidate.culture === culture);
+      const text = dataFile ? await this.localizationService.readDocumentText(dataFile.filePath) : null;
+      if (!dataFile || text === null) {
+        vscode.window.showErrorMessage(`No ${culture} culture data file (${source.fileName}) was found.`);
+        return;
+      }
+
+      const uri = vscode.Uri.file(dataFile.filePath);
+      const edit = new vscode.WorkspaceEdit();
+      const entry = LocalizationKeyScanner.findEntries(text).find(candidate => candidate.key.toLowerCase() === key.toLowerCase());
+      if (entry) {
+        edit.replace(
+          uri,
+          new vscode.Range(entry.valueLine, entry.valueCharacter, entry.endLine, entry.endCharacter),
+          TranslationGridEditorProvider.formatValueReplacement(text, entry, value)
+        );
+      } else if (!await this.extractStringProvider.addEntry(edit, dataFile, key, value)) {
+        vscode.window.showErrorMessage(`Could not find where to add '${key}' in ${dataFile.filePath}.`);
+        return;
+      }
+
+      // Save right away, unless the file already had unsaved changes of its own
+      const wasDirty = vscode.workspace.textDocuments.some(document => document.uri.fsPath === uri.fsPath && document.isDirty);
+      if (await vscode.workspace.applyEdit(edit) && !wasDirty) {
+        await (await vscode.workspace.openTextDocument(uri)).save();
+      }
+      this.logger.debug(`Set ${key} in ${dataFile.filePath}`);
+    } catch (error) {
+      this.logger.error(`Failed to set ${key} for ${culture}`, error as Error);
+      vscode.window.showErrorMessage(`Failed to update translation: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Opens a culture data file at the definition of a key
+   */
+  private async reveal(source: LocalizationDataSource, culture: string, key: string): Promise<void> {
+    const dataFile = (await this.getDataFiles(source)).find(candidate => candidate.culture === culture);
+    const definition = dataFile ? await this.localizationService.findKeyDefinition(dataFile, key) : undefined;
+    if (!dataFile) {
+      return;
+    }
+
+    const position = new vscode.Position(definition?.line ?? 0, definition?.character ?? 0);
+    await vscode.window.showTextDocument(vscode.Uri.file(dataFile.filePath), {
+      selection: new vscode.Range(position, position),
+      viewColumn: vscode.ViewColumn.Beside
+    });
+  }
+
+  /**
+   * Lists the culture data files of a data source, skipping folders that are not cultures
+   */
+  private async getDataFiles(source: LocalizationDataSource): Promise<CultureDataFile[]> {
+    return (await this.localizationService.getCultureDataFiles(source))
+      .filter(dataFile => CultureResolver.isValidCultureName(dataFile.culture));
+  }
+
+  /**
+   * Checks if a file is the data file of a data source for any culture
+   */
+  private isDataFileOf(source: LocalizationDataSource, filePath: string): boolean {
+    return path.basename(filePath) === source.fileName &&
+      path.relative(path.dirname(path.dirname(filePath)), source.baseDirectory) === '';
+  }
+
+  /**
+   * Builds the grid page, its script and styles loaded from the media folder
+   */
+  private getHtml(webview: vscode.Webview, mediaUri: vscode.Uri, source: LocalizationDataSource): string {
+    const nonce = crypto.randomBytes(16).toString('hex');
+    const scriptUri = webview.asWebviewUri(vscode.Uri.joinPath(mediaUri, 'translationGrid.js'));
+    const styleUri = webview.asWebviewUri(vscode.Uri.joinPath(mediaUri, 'translationGrid.css'));
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource}; script-src 'nonce-${nonce}';">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <link href="${styleUri}" rel="stylesheet">
+  <title>Translations: ${TranslationGridEditorProvider.escapeHtml(source.fileName)}</title>
+</head>
+<body>
+  <div class="toolbar">
+    <input id="search" type="search" placeholder="Filter keys and values">
+    <select id="status">
+      <option value="all">All keys</option>
+      <option value="incomplete">Missing or untranslated</option>
+      <option value="missing">Missing</option>
+      <option value="untranslated">Untranslated</option>
+    </select>
+    <span id="summary"></span>
+  </div>
+  <div id="errors"></div>
+  <table id="grid"></table>
+  <script nonce="${nonce}" src="${scriptUri}"></script>
+</body>
+</html>`;
+  }
+
+  /**
+   * Builds a page showing only a message
+   */
+  private getMessageHtml(message: string): string {
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none';">
+</head>
+<body>
+  <p>${TranslationGridEditorProvider.escapeHtml(message)}</p>
+</body>
+</html>`;
+  }
+
+  /**
+   * Escapes text for HTML
+   */
+  private static escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+  }
+}
@@ -2,10 +2,231 @@
  * Type definitions for the PowerShell Localization extension
  */
 
+export type DataFileValue = string | number | boolean | null | DataFileValue[] | DataFileObject;
+
+export interface DataFileObject {
+  [key: string]: DataFileValue;
+}
+
 export interface LocalizationData {
-  [variableName: string]: {
-    [key: string]: string;
-  };
+  [variableName: string]: DataFileObject;
+}
+
+export interface LocalizationDataSource {
+  fileName: string;
+  baseDirectory: string;
+}
+
+export interface LocalizationDataSources {
+  [variableName: string]: LocalizationDataSource;
+}
+
+/**
+ * Range of PowerShell source, with zero-based lines and characters
+ */
+export interface SourceRange {
+  startLine: number;
+  startCharacter: number;
+  endLine: number;
+  endCharacter: number;
+}
+
+/**
+ * Import-LocalizedData call of a module, as reported by the parser
+ */
+export interface LocalizationCall extends LocalizationDataSource {
+  bindingVariable: string;
+  sourceFile: string;
+  range: SourceRange;
+  /** Function or script block enclosing the call, null at script scope */
+  scope: SourceRange | null;
+  /** Data file read for the requested culture, null when no culture has one */
+  filePath: string | null;
+  culture: string | null;
+  /** Culture declared with -UICulture, which Import-LocalizedData reads instead of the current one */
+  uiCulture?: string;
+  /** Only present when the data was requested */
+  data?: LocalizationData[string] | null;
+}
+
+/**
+ * Import-LocalizedData call whose arguments could not be evaluated statically
+ */
+export interface UnresolvedLocalizationCall {
+  unresolved: true;
+  reason: string;
+  sourceFile: string;
+  range: SourceRange;
+  scope: SourceRange | null;
+  bindingVariable?: string;
+}
+
+export interface CultureDataFile {
+  culture: string;
+  filePath: string;
+}
+
+export interface LocalizationKeyLocation {
+  key: string;
+  line: number;
+  character: number;
+}
+
+export interface LocalizationKeyEntry extends LocalizationKeyLocation {
+  /** Start of the value, after the `=` and the blanks following it */
+  valueLine: number;
+  valueCharacter: number;
+  endLine: number;
+  endCharacter: number;
+}
+
+export type LocalizationDataFileForm = 'hashtable' | 'stringData';
+
+export interface LocalizationKeyInsertionPoint {
+  form: LocalizationDataFileForm;
+  line: number;
+  character: number;
+}
+
+export interface StringLiteral {
+  quote: '\'' | '"';
+  start: number;
+  end: number;
+  content: string;
+}
+
+export interface StringLiteralFormat {
+  value: string;
+  args: string[];
+}
+
+export interface FormatStringUsage {
+  /** `$Data.Key -f ...` or `[string]::Format($Data.Key, ...)` */
+  kind: 'operator' | 'method';
+  /** Source text of each argument */
+  args: string[];
+  /** Whether a single array expression supplies the arguments, so their count is unknown */
+  spread: boolean;
+}
+
+export interface LocalizationKeyDefinition extends CultureDataFile {
+  line: number;
+  character: number;
+}
+
+export interface LocalizationKeyTarget {
+  key: string;
+  variableNames: string[];
+  sources: LocalizationDataSource[];
+  line: number;
+  character: number;
+  /** Nested properties after the key, up to the one at the position */
+  nestedPath?: string[];
+}
+
+export interface LocalizationKeyUsage {
+  filePath: string;
+  variableName: string;
+  key: string;
+  line: number;
+  character: number;
+}
+
+/**
+ * Property name or string indexer following a binding variable
+ */
+export interface PropertySegment {
+  name: string;
+  start: number;
+  end: number;
+}
+
+export interface BindingVariableMatch {
+  variableName: string;
+  key?: string;
+  start: number;
+  keyStart?: number;
+  keyEnd?: number;
+  end: number;
+  /** Every segment after the variable, starting with the key */
+  path: PropertySegment[];
+}
+
+export interface LineDecoration {
+  character: number;
+  contentText: string;
+}
+
+export type LocalizationKeyStatus = 'present' | 'missing' | 'untranslated';
+
+/**
+ * What the values of a new culture start as: the default culture's, empty, or prefixed with the TODO prefix
+ */
+export type CultureScaffoldValueMode = 'copy' | 'blank' | 'todo';
+
+/**
+ * Keys of the reference culture a culture defines, over every data file of a module
+ */
+export interface CultureCoverage {
+  culture: string;
+  presentKeys: number;
+  totalKeys: number;
+}
+
+/**
+ * Keys and values read from one culture data file, in file order
+ */
+export interface CultureDataFileContent {
+  culture: string;
+  keys: string[];
+  values: DataFileObject;
+}
+
+export interface TranslationGridCell {
+  status: LocalizationKeyStatus;
+  value?: string;
+  /** Only string values can be edited, nested tables and arrays are shown as text */
+  editable: boolean;
+}
+
+export interface TranslationGridRow {
+  key: string;
+  cells: Record<string, TranslationGridCell>;
+}
+
+export interface TranslationGrid {
+  fileName: string;
+  defaultCulture: string;
+  cultures: string[];
+  rows: TranslationGridRow[];
+  /** Cultures whose data file could not be read, with the reason */
+  errors: Record<string, string>;
+}
+
+export interface CultureKeyList {
+  [culture: string]: string[];
+}
+
+export interface DataFileParityReport {
+  fileName: string;
+  baseDirectory: string;
+  variableNames: string[];
+  cultures: string[];
+  missingKeys: CultureKeyList;
+  extraKeys: CultureKeyList;
+  untranslatedKeys: CultureKeyList;
+}
+
+export interface ModuleParityReport {
+  rootPath: string;
+  defaultCulture: string;
+  dataFiles: DataFileParityReport[];
+}
+
+export interface LocalizationParityReport {
+  generatedAt: string;
+  defaultCulture: string;
+  modules: ModuleParityReport[];
 }
 
 export interface PowerShellModuleInfo {
@@ -13,12 +234,32 @@ export interface PowerShellModuleInfo {
   hasImportLocalizedData: boolean;
 }
 
+export interface LocalizationCacheEntry {
+  version: number;
+  key: string;
+  /** Content hash of every input file, null for files that did not exist */
+  inputs: Record<string, string | null>;
+  calls: LocalizationCall[];
+}
+
+export interface ModuleContext {
+  rootPath: string;
+  manifestPath?: string;
+  moduleFiles: string[];
+}
+
 export interface ExtensionConfig {
   enableInlineValues: boolean;
   enableDecorations: boolean;
   searchExclude: string[];
   logLevel: LogLevel;
   uiCulture: string;
+  enableDiagnostics: boolean;
+  defaultCulture: string;
+  /** Default culture of modules, keyed by module folder, manifest or root module path */
+  moduleDefaultCultures: Record<string, string>;
+  powerShellFallback: boolean;
+  todoPrefix: string;
 }
 
 export type LogLevel = 'error' | 'warn' | 'info' | 'debug';
@@ -0,0 +1,244 @@
+import * as vscode from 'vscode';
+import { Logger } from './logger';
+import { ConfigurationManager } from './configuration';
+import { LocalizationService } from './localizationService';
+import { LocalizationKeyScanner } from './localizationKeyScanner';
+import { LocalizationKeyEntry } from './types';
+import {
+  DOCUMENT_CHANGE_DEBOUNCE_MS,
+  EXTENSION_NAME,
+  POWERSHELL_LANGUAGE_ID,
+  Utils
+} from './utils';
+
+/**
+ * Greys out keys of culture data files that no binding variable of the owning module references,
+ * and offers a quick fix removing such a key from every culture
+ */
+export class LocalizationUnusedKeysProvider implements vscode.CodeActionProvider {
+  public static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+  private static readonly DIAGNOSTIC_CODE = 'unusedKey';
+
+  private logger: Logger;
+  private diagnosticCollection: vscode.DiagnosticCollection;
+  private disposables: vscode.Disposable[] = [];
+  private timeouts: Map<string, NodeJS.Timeout> = new Map();
+
+  constructor(private localizationService: LocalizationService) {
+    this.logger = Logger.getInstance();
+    this.diagnosticCollection = vscode.languages.createDiagnosticCollection('powershellLocalizationUnused');
+    this.logger.info('LocalizationUnusedKeysProvider initialized');
+  }
+
+  /**
+   * Activates unused key detection
+   */
+  public activate(): void {
+    this.disposables.push(
+      vscode.workspace.onDidOpenTextDocument((document) => {
+        this.triggerUpdateDiagnostics(document);
+      })
+    );
+
+    // Editing a data file rescans it, editing a script may add or drop usages of any open data file
+    this.disposables.push(
+      vscode.workspace.onDidChangeTextDocument((event) => {
+        if (Utils.isPowerShellDataFile(event.document.uri.fsPath)) {
+          this.triggerUpdateDiagnostics(event.document);
+        } else if (event.document.languageId === POWERSHELL_LANGUAGE_ID) {
+          this.refreshAll();
+        }
+      })
+    );
+
+    this.disposables.push(
+      vscode.workspace.onDidCloseTextDocument((document) => {
+        this.diagnosticCollection.delete(document.uri);
+      })
+    );
+
+    this.refreshAll();
+  }
+
+  /**
+   * Recomputes unused keys for every open culture data file
+   */
+  public refreshAll(): void {
+    vscode.workspace.textDocuments.forEach(document => this.triggerUpdateDiagnostics(document));
+  }
+
+  /**
+   * Provides a quick fix for each unused key diagnostic in range
+   */
+  public async provideCodeActions(
+    document: vscode.TextDocument,
+    _range: vscode.Range | vscode.Selection,
+    context: vscode.CodeActionContext,
+    token: vscode.CancellationToken
+  ): Promise<vscode.CodeAction[]> {
+    const actions: vscode.CodeAction[] = [];
+
+    try {
+      for (const diagnostic of context.diagnostics) {
+        if (diagnostic.source !== EXTENSION_NAME || diagnostic.code !== LocalizationUnusedKeysProvider.DIAGNOSTIC_CODE) {
+          continue;
+        }
+
+        const key = document.getText(diagnostic.range);
+        const edit = await this.createRemovalEdit(document, key);
+        if (!edit || token.isCancellationRequested) {
+          continue;
+        }
+
+        const action = new vscode.CodeAction(`Remove unused key '${key}' from all cultures`, vscode.CodeActionKind.QuickFix);
+        action.diagnostics = [diagnostic];
+        action.edit = edit;
+        action.isPreferred = true;
+        actions.push(action);
+      }
+    } catch (error) {
+      this.logger.error('Failed to provide unused key code actions', error as Error);
+    }
+
+    return actions;
+  }
+
+  /**
+   * Gets the range to delete to remove an entry from a culture data file
+   *
+   * An entry alone on its lines is removed with those lines and its trailing
+   * comment, otherwise only the entry and its trailing separator are removed.
+   */
+  public static getEntryRemovalRange(text: string, entry: LocalizationKeyEntry): vscode.Range {
+    const lines = text.split(/\r?\n/);
+    const before = lines[entry.line].substring(0, entry.character);
+    const after = lines[entry.endLine].substring(entry.endCharacter);
+
+    if (before.trim().length === 0 && /^\s*;?\s*(?:#.*)?$/.test(after)) {
+      return entry.endLine + 1 < lines.length
+        ? new vscode.Range(entry.line, 0, entry.endLine + 1, 0)
+        : new vscode.Range(entry.line, 0, entry.endLine, lines[entry.endLine].length);
+    }
+
+    const separator = /^\s*;?\s*/.exec(after)![0];
+    return new vscode.Range(entry.line, entry.character, entry.endLine, entry.endCharacter + separator.length);
+  }
+
+  /**
+   * Triggers an unused key update for a culture data file with debouncing
+   */
+  private triggerUpdateDiagnostics(document: vscode.TextDocument): void {
+    if (!Utils.isPowerShellDataFile(document.uri.fsPath)) {
+      return;
+    }
+
+    const key = document.uri.toString();
+    const timeout = this.timeouts.get(key);
+    if (timeout) {
+      clearTimeout(timeout);
+    }
+
+    this.timeouts.set(key, setTimeout(() => {
+      this.timeouts.delete(key);
+      this.updateDiagnostics(document);
+    }, DOCUMENT_CHANGE_DEBOUNCE_MS));
+  }
+
+  /**
+   * Updates unused key diagnostics for a culture data file
+   */
+  private async updateDiagnostics(document: vscode.TextDocument): Promise<void> {
+    try {
+      if (!ConfigurationManager.isDiagnosticsEnabled() || document.isClosed) {
+        this.diagnosticCollection.delete(document.uri);
+        return;
+      }
+
+      const diagnostics = await this.createDiagnostics(document);
+      this.diagnosticCollection.set(document.uri, diagnostics);
+
+      this.logger.debug(`Reported ${diagnostics.length} unused localization key(s) for: ${document.uri.fsPath}`);
+    } catch (error) {
+      this.logger.error('Failed to update unused localization keys', error as Error);
+    }
+  }
+
+  /**
+   * Creates a diagnostic for every key no binding variable of the data file references
+   */
+  private async createDiagnostics(document: vscode.TextDocument): Promise<vscode.Diagnostic[]> {
+    const filePath = document.uri.fsPath;
+    const calls = await this.localizationService.getLocalizationCalls(filePath);
+    const module = await this.localizationService.resolveModule(filePath);
+    if (!calls || !module || await this.localizationService.isModuleManifest(filePath)) {
+      return [];
+    }
+
+    // Not a culture data file read by the module (e.g. the module manifest)
+    const variableNames = this.localizationService.getBindingVariablesForDataFile(calls, filePath);
+    if (variableNames.length === 0) {
+      return [];
+    }
+
+    // Keys cannot be told apart once the whole data is passed around
+    const usedKeys = await this.localizationService.findUsedKeys(module, variableNames);
+    if (!usedKeys) {
+      return [];
+    }
+
+    const variables = variableNames.map(name => `$${name}`).join(', ');
+
+    return LocalizationKeyScanner.findKeys(document.getText())
+      .filter(location => !usedKeys.has(location.key.toLowerCase()))
+      .map(location => {
+        const range = new vscode.Range(location.line, location.character, location.line, location.character + location.key.length);
+        const diagnostic = new vscode.Diagnostic(
+          range,
+          `Localization key '${location.key}' is never referenced through ${variables}.`,
+          vscode.DiagnosticSeverity.Hint
+        );
+        diagnostic.source = EXTENSION_NAME;
+        diagnostic.code = LocalizationUnusedKeysProvider.DIAGNOSTIC_CODE;
+        diagnostic.tags = [vscode.DiagnosticTag.Unnecessary];
+        return diagnostic;
+      });
+  }
+
+  /**
+   * Builds a single edit removing a key from every culture data file of the data source
+   */
+  private async createRemovalEdit(document: vscode.TextDocument, key: string): Promise<vscode.WorkspaceEdit | undefined> {
+    const calls = await this.localizationService.getLocalizationCalls(document.uri.fsPath);
+    if (!calls || await this.localizationService.isModuleManifest(document.uri.fsPath) ||
+      this.localizationService.getBindingVariablesForDataFile(calls, document.uri.fsPath).length === 0) {
+      return undefined;
+    }
+
+    const edit = new vscode.WorkspaceEdit();
+    const source = this.localizationService.getDataSourceOfDataFile(document.uri.fsPath, calls);
+    for (const dataFile of await this.localizationService.getCultureDataFiles(source)) {
+      const text = await this.localizationService.readDocumentText(dataFile.filePath);
+      const entry = text !== null
+        ? LocalizationKeyScanner.findEntries(text).find(candidate => candidate.key.toLowerCase() === key.toLowerCase())
+        : undefined;
+      if (text !== null && entry) {
+        edit.delete(vscode.Uri.file(dataFile.filePath), LocalizationUnusedKeysProvider.getEntryRemovalRange(text, entry));
+      }
+    }
+
+    this.logger.debug(`Removing key ${key} from ${edit.size} culture data file(s)`);
+    return edit.size > 0 ? edit : undefined;
+  }
+
+  /**
+   * Disposes of all resources
+   */
+  public dispose(): void {
+    this.timeouts.forEach(timeout => clearTimeout(timeout));
+    this.timeouts.clear();
+
+    this.disposables.forEach(disposable => disposable.dispose());
+    this.diagnosticCollection.dispose();
+    this.logger.debug('LocalizationUnusedKeysProvider disposed');
+  }
+}
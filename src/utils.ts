@@ -3,6 +3,7 @@
  */
 
 import * as path from 'path';
+import { BindingVariableMatch, DataFileObject, DataFileValue, PropertySegment } from './types';
 
 export const EXTENSION_NAME = 'PowerShell Localization';
 export const POWERSHELL_LANGUAGE_ID = 'powershell';
@@ -10,18 +11,38 @@ export const POWERSHELL_MODULE_EXTENSION = '.psm1';
 export const POWERSHELL_DATA_EXTENSION = '.psd1';
 export const POWERSHELL_SCRIPT_EXTENSION = '.ps1';
 
+export const DOCUMENT_CHANGE_DEBOUNCE_MS = 500;
+
 export const CONFIGURATION_SECTION = 'Powershell Localization';
 export const CONFIGURATION_BASENAME = 'powershellLocalization';
 
 export const REGEX_PATTERNS = {
   IMPORT_LOCALIZED_DATA: /Import-LocalizedData/i,
   VARIABLE_OR_PROPERTY: /\$([A-Za-z_][A-Za-z0-9_]*)(?:\.([A-Za-z_][A-Za-z0-9_]*))?/g,
+  MANIFEST_MODULE_VERSION: /^\s*ModuleVersion\s*=/im,
+  MANIFEST_ROOT_MODULE: /^\s*(?:RootModule|ModuleToProcess)\s*=\s*['"]([^'"]+)['"]/im,
+  MANIFEST_NESTED_MODULES: /^\s*NestedModules\s*=\s*(@\([^)]*\)|['"][^'"]*['"])/im,
+  DOT_SOURCED_SCRIPT: /^\s*\.\s+["']?\$PSScriptRoot[\\/]([^"'\r\n]+?\.ps1)["']?\s*$/gim,
+  QUOTED_STRING: /(['"])([^'"]*)\1/g,
+  LOCALIZATION_KEY: /^[A-Za-z_][A-Za-z0-9_]*$/,
+  CULTURE_NAME: /^[A-Za-z]{2,3}(-[A-Za-z]{4})?(-([A-Za-z]{2}|[0-9]{3}))?$/,
 } as const;
 
+/** Characters written by the escape sequences of expandable strings, e.g. `` `n `` */
+export const ESCAPE_SEQUENCES: Readonly<Record<string, string>> = {
+  '0': '\0', 'a': '\x07', 'b': '\b', 'e': '\x1b', 'f': '\f', 'n': '\n', 'r': '\r', 't': '\t', 'v': '\v'
+};
+
 /**
  * Utility functions
  */
 export class Utils {
+  /** Optional scope of a variable reference, e.g. `$script:Data` */
+  private static readonly SCOPE_PREFIX = '(?:(?:script|global|local|private):)?';
+
+  /** Names of the binding variables as declared, by lowercase name, for each binding variable regex */
+  private static readonly declaredNames = new WeakMap<RegExp, Map<string, string>>();
+
   /**
    * Checks if a file path has a PowerShell extension
    */
@@ -42,6 +63,13 @@ export class Utils {
     return filePath.toLowerCase().endsWith(POWERSHELL_MODULE_EXTENSION);
   }
 
+  /**
+   * Checks if a file is a PowerShell data file
+   */
+  public static isPowerShellDataFile(filePath: string): boolean {
+    return filePath.toLowerCase().endsWith(POWERSHELL_DATA_EXTENSION);
+  }
+
   /**
    * Safely parses JSON with error handling
    */
@@ -70,6 +98,159 @@ export class Utils {
     return str.substring(0, maxLength - 3) + '...';
   }
 
+  /**
+   * Creates a regex matching the given binding variables with their property accesses
+   * Follows property chains and string indexers, e.g. `$Data.Errors.NotFound` or `$Data['Key']`.
+   * Like PowerShell, names ignore case and may carry a scope, e.g. `$script:data.Key` or `${Data}.Key`
+   */
+  public static createBindingVariableRegex(bindingVariableNames: string[]): RegExp {
+    const names = this.escapeVariableNames(bindingVariableNames);
+    const bindingVarPattern = `\\$(?:\\{${this.SCOPE_PREFIX}(${names})\\}|${this.SCOPE_PREFIX}(${names})(?![A-Za-z0-9_]))` +
+      `((?:\\.[A-Za-z_][A-Za-z0-9_]*|\\[\\s*(?:'[^']*'|"[^"]*")\\s*\\])*)`;
+    const regex = new RegExp(bindingVarPattern, 'gi');
+    this.declaredNames.set(regex, new Map(bindingVariableNames.map(name => [name.toLowerCase(), name])));
+    return regex;
+  }
+
+  /**
+   * Creates a regex matching any reference to the given variables, including forms the
+   * binding variable regex does not follow, e.g. `$using:Data`
+   */
+  public static createVariableReferenceRegex(bindingVariableNames: string[]): RegExp {
+    return new RegExp(`[$@]\\{?(?:[A-Za-z]+:)?(?:${this.escapeVariableNames(bindingVariableNames)})(?![A-Za-z0-9_])`, 'gi');
+  }
+
+  /**
+   * Gets a variable name as declared by its Import-LocalizedData call, whatever case it is written in
+   */
+  public static getDeclaredVariableName(variableName: string, declaredNames: Iterable<string>): string | undefined {
+    for (const declaredName of declaredNames) {
+      if (declaredName.toLowerCase() === variableName.toLowerCase()) {
+        return declaredName;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Escapes variable names into a regex alternation
+   */
+  private static escapeVariableNames(variableNames: string[]): string {
+    return variableNames.map(name => name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|');
+  }
+
+  /**
+   * Finds every binding variable usage in a line of text
+   */
+  public static findBindingVariableMatches(lineText: string, bindingVarRegex: RegExp): BindingVariableMatch[] {
+    const matches: BindingVariableMatch[] = [];
+    let match: RegExpExecArray | null;
+
+    // Reset regex lastIndex for each line
+    bindingVarRegex.lastIndex = 0;
+
+    const declaredNames = this.declaredNames.get(bindingVarRegex);
+    while ((match = bindingVarRegex.exec(lineText)) !== null) {
+      const writtenName = match[1] ?? match[2];
+      const pathText = match[3] ?? '';
+      // The segments start after the variable and its scope or braces
+      const path = this.parsePropertyPath(pathText, match.index + match[0].length - pathText.length);
+      matches.push({
+        variableName: declaredNames?.get(writtenName.toLowerCase()) ?? writtenName,
+        key: path[0]?.name,
+        start: match.index,
+        keyStart: path[0]?.start,
+        keyEnd: path[0]?.end,
+        end: match.index + match[0].length,
+        path
+      });
+    }
+
+    return matches;
+  }
+
+  /**
+   * Splits property accesses and string indexers into segments positioned from the given offset
+   */
+  public static parsePropertyPath(text: string, offset: number): PropertySegment[] {
+    const segments: PropertySegment[] = [];
+    const segmentRegex = /\.([A-Za-z_][A-Za-z0-9_]*)|\[\s*(['"])(.*?)\2\s*\]/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = segmentRegex.exec(text)) !== null) {
+      const name = match[1] ?? match[3];
+      // Skip the `.`, or the `[`, the spaces and the quote of an indexer
+      const start = offset + match.index + (match[1] !== undefined ? 1 : match[0].indexOf(match[2]) + 1);
+      segments.push({ name, start, end: start + name.length });
+    }
+
+    return segments;
+  }
+
+  /**
+   * Follows a property path through nested tables, ignoring case like PowerShell hashtables
+   */
+  public static resolvePropertyPath(value: DataFileValue | undefined, path: string[]): DataFileValue | undefined {
+    let current = value;
+    for (const name of path) {
+      if (!current || typeof current !== 'object' || Array.isArray(current)) {
+        return undefined;
+      }
+
+      const table: DataFileObject = current;
+      const key = Object.keys(table).find(candidate => candidate.toLowerCase() === name.toLowerCase());
+      if (key === undefined) {
+        return undefined;
+      }
+      current = table[key];
+    }
+    return current;
+  }
+
+  /**
+   * Formats a localized value on one line, showing the first entries of arrays and tables
+   */
+  public static formatLocalizationValue(value: DataFileValue, maxEntries: number = 3): string {
+    if (value === null) {
+      return '$null';
+    }
+    if (typeof value === 'string') {
+      return `"${value}"`;
+    }
+    if (typeof value === 'boolean') {
+      return value ? '$true' : '$false';
+    }
+    if (typeof value === 'number') {
+      return String(value);
+    }
+
+    const entries = Array.isArray(value)
+      ? value.map(item => this.formatLocalizationValue(item, maxEntries))
+      : Object.entries(value).map(([key, item]) => `${key}: ${this.formatLocalizationValue(item, maxEntries)}`);
+    const shown = entries.slice(0, maxEntries);
+    if (entries.length > maxEntries) {
+      shown.push(`...${entries.length - maxEntries} more`);
+    }
+    return Array.isArray(value) ? `@(${shown.join(', ')})` : `{${shown.join(', ')}}`;
+  }
+
+  /**
+   * Finds the binding variable usage at a character position in a line of text
+   */
+  public static findBindingVariableMatchAt(
+    lineText: string,
+    character: number,
+    bindingVariableNames: string[]
+  ): BindingVariableMatch | undefined {
+    if (bindingVariableNames.length === 0) {
+      return undefined;
+    }
+
+    const bindingVarRegex = this.createBindingVariableRegex(bindingVariableNames);
+    return this.findBindingVariableMatches(lineText, bindingVarRegex)
+      .find(match => character >= match.start && character <= match.end);
+  }
+
   /**
    * Checks if a file path should be excluded based on glob patterns
    */
@@ -11,6 +11,14 @@ Describe 'LocalizationParser' {
       )
       & "$PSScriptRoot\..\resources\LocalizationParser.ps1" -ModuleFile $ModuleFile -UICulture $UICulture
     }
+    # The parser reports one entry per call; later calls bind over earlier ones
+    function Get-Call {
+      param (
+        [object[]]$Calls,
+        [string]$BindingVariable
+      )
+      $Calls | Where-Object { $_.bindingVariable -eq $BindingVariable } | Select-Object -Last 1
+    }
 
     # Act
     $script:localizedText = Get-LocalizedText -ModuleFile $psm1Files.FullName | ConvertFrom-Json -AsHashtable
@@ -18,22 +26,36 @@ Describe 'LocalizationParser' {
   It 'Can Parse the Example folder' {
     # Assert
     $script:localizedText | Should -Not -BeNullOrEmpty
-    $script:localizedText | Should -BeOfType [hashtable]
+    $script:localizedText | Should -HaveCount 2
   }
 
   It 'Can parse the output' {
-    $script:localizedText.ContainsKey('LocalizedData') | Should -BeTrue
-    $script:localizedText['LocalizedData'] | Should -BeOfType [hashtable]
-    $script:localizedText['LocalizedData']['Key1'] | Should -Be 'Value1'
-    $script:localizedText['LocalizedData']['Key2'] | Should -Be 'Value2'
-    $script:localizedText['LocalizedData']['Key3'] | Should -Be 'Value3'
+    $call = Get-Call -Calls $script:localizedText -BindingVariable 'LocalizedData'
+    $call['data'] | Should -BeOfType [hashtable]
+    $call['data']['Key1'] | Should -Be 'Value1'
+    $call['data']['Key2'] | Should -Be 'Value2'
+    $call['data']['Key3'] | Should -Be 'Value3'
   }
 
   It 'Can parse the splatted version' {
-    $script:localizedText.ContainsKey('AsSplat') | Should -BeTrue
-    $script:localizedText['AsSplat']['Key1'] | Should -Be 'Value1'
-    $script:localizedText['AsSplat']['Key2'] | Should -Be 'Value2'
-    $script:localizedText['AsSplat']['Key3'] | Should -Be 'Value3'
+    $call = Get-Call -Calls $script:localizedText -BindingVariable 'AsSplat'
+    $call['data']['Key1'] | Should -Be 'Value1'
+    $call['data']['Key2'] | Should -Be 'Value2'
+    $call['data']['Key3'] | Should -Be 'Value3'
+  }
+
+  It 'Reports where each call is' {
+    $call = Get-Call -Calls $script:localizedText -BindingVariable 'LocalizedData'
+    $call['sourceFile'] | Should -Be $psm1Files.FullName
+    $call['range']['startLine'] | Should -Be 1
+    $call['range']['startCharacter'] | Should -Be 0
+    $call['scope'] | Should -BeNullOrEmpty
+  }
+
+  It 'Reports the data file and culture that supplied the data' {
+    $call = Get-Call -Calls $script:localizedText -BindingVariable 'LocalizedData'
+    $call['culture'] | Should -Be 'en-US'
+    $call['filePath'] | Should -Be (Join-Path -Path $psm1Files.DirectoryName -ChildPath 'en-US' -AdditionalChildPath 'Example.psd1')
   }
 
   Context 'When UICulture is set' {
@@ -42,19 +64,79 @@ Describe 'LocalizationParser' {
     }
 
     It 'Can parse the output in French' {
-      $script:frText.ContainsKey('LocalizedData') | Should -BeTrue
-      $script:frText['LocalizedData'] | Should -BeOfType [hashtable]
-      $script:frText['LocalizedData']['Key1'] | Should -Be 'Valeur1'
-      $script:frText['LocalizedData']['Key2'] | Should -Be 'Valeur2'
-      $script:frText['LocalizedData']['Key3'] | Should -Be 'Valeur3'
+      $call = Get-Call -Calls $script:frText -BindingVariable 'LocalizedData'
+      $call['data'] | Should -BeOfType [hashtable]
+      $call['data']['Key1'] | Should -Be 'Valeur1'
+      $call['data']['Key2'] | Should -Be 'Valeur2'
+      $call['data']['Key3'] | Should -Be 'Valeur3'
     }
 
     It 'Can parse the splatted version in French' {
-      $script:frText.ContainsKey('AsSplat') | Should -BeTrue
-      $script:frText['AsSplat']['Key1'] | Should -Be 'Valeur1'
-      $script:frText['AsSplat']['Key2'] | Should -Be 'Valeur2'
-      $script:frText['AsSplat']['Key3'] | Should -Be 'Valeur3'
+      $call = Get-Call -Calls $script:frText -BindingVariable 'AsSplat'
+      $call['data']['Key1'] | Should -Be 'Valeur1'
+      $call['data']['Key2'] | Should -Be 'Valeur2'
+      $call['data']['Key3'] | Should -Be 'Valeur3'
+    }
+  }
+
+  Context 'When ListDataFiles is set' {
+    BeforeAll {
+      $script:dataFiles = & "$PSScriptRoot\..\resources\LocalizationParser.ps1" -ModuleFile $psm1Files.FullName -ListDataFiles | ConvertFrom-Json -AsHashtable
+    }
+
+    It 'Reports the data file of each binding variable' {
+      (Get-Call -Calls $script:dataFiles -BindingVariable 'LocalizedData')['fileName'] | Should -Be 'Example.psd1'
+      (Get-Call -Calls $script:dataFiles -BindingVariable 'AsSplat')['fileName'] | Should -Be 'Example.psd1'
+    }
+
+    It 'Reports the module folder as the base directory' {
+      (Get-Call -Calls $script:dataFiles -BindingVariable 'LocalizedData')['baseDirectory'] | Should -Be $psm1Files.DirectoryName
+    }
+
+    It 'Does not import the data' {
+      (Get-Call -Calls $script:dataFiles -BindingVariable 'LocalizedData').Contains('data') | Should -BeFalse
     }
   }
 
-}
\ No newline at end of file
+  Context 'When the arguments are expressions' {
+    BeforeAll {
+      $script:localizedFolder = Join-Path -Path $script:fixturesFolder -ChildPath 'LocalizedFolder'
+      $moduleFile = Join-Path -Path $script:localizedFolder -ChildPath 'LocalizedFolder.psm1'
+      $script:enMessages = Get-LocalizedText -ModuleFile $moduleFile | ConvertFrom-Json -AsHashtable
+      $script:frMessages = Get-LocalizedText -ModuleFile $moduleFile -UICulture 'fr-FR' | ConvertFrom-Json -AsHashtable
+      $script:caMessages = Get-LocalizedText -ModuleFile $moduleFile -UICulture 'fr-CA' | ConvertFrom-Json -AsHashtable
+      $script:folderDataFiles = & "$PSScriptRoot\..\resources\LocalizationParser.ps1" -ModuleFile $moduleFile -ListDataFiles -WarningAction SilentlyContinue | ConvertFrom-Json -AsHashtable
+      $script:moduleMessages = $script:enMessages | Where-Object { $_.bindingVariable -eq 'Messages' -and -not $_.scope }
+      $script:functionMessages = $script:enMessages | Where-Object { $_.bindingVariable -eq 'Messages' -and $_.scope }
+    }
+
+    It 'Honors the declared base directory' {
+      $script:moduleMessages['data']['Greeting'] | Should -Be 'Hello'
+      $script:moduleMessages['baseDirectory'] | Should -Be (Join-Path -Path $script:localizedFolder -ChildPath 'Localization')
+      $script:moduleMessages['fileName'] | Should -Be 'Messages.psd1'
+    }
+
+    It 'Resolves $PSUICulture to the requested culture' {
+      ($script:frMessages | Where-Object { $_.fileName -eq 'Messages.psd1' })['data']['Greeting'] | Should -Be 'Bonjour'
+    }
+
+    It 'Leaves the data unset when no culture has a data file' {
+      $call = $script:caMessages | Where-Object { $_.fileName -eq 'Messages.psd1' }
+      $call['filePath'] | Should -BeNullOrEmpty
+      $call['data'] | Should -BeNullOrEmpty
+    }
+
+    It 'Reports each call binding the same variable separately' {
+      $script:functionMessages['fileName'] | Should -Be 'Errors.psd1'
+      $script:functionMessages['data']['NotFound'] | Should -Be 'The item was not found.'
+      $script:functionMessages['scope']['startLine'] | Should -Be 9
+    }
+
+    It 'Reports calls it cannot resolve' {
+      $call = $script:folderDataFiles | Where-Object { $_.bindingVariable -eq 'Dynamic' }
+      $call['unresolved'] | Should -BeTrue
+      $call['reason'] | Should -BeLike '*Get-MessageFileName*'
+      $call['range']['startLine'] | Should -Be 5
+    }
+  }
+}
@@ -0,0 +1,43 @@
+Describe 'PowerShellHost' {
+  BeforeAll {
+    # Arrange
+    $hostPath = Join-Path -Path $PSScriptRoot -ChildPath '..\resources\PowerShellHost.ps1'
+    $modulePath = Join-Path -Path $PSScriptRoot -ChildPath 'fixtures\Example\Example.psm1'
+    $requests = @(
+      @{ id = 1; command = 'version' }
+      @{ id = 2; command = 'parse'; parameters = @{ ModuleFile = $modulePath; UICulture = 'fr-FR' } }
+      @{ id = 3; command = 'parse'; parameters = @{ ModuleFile = $modulePath; ListDataFiles = $true } }
+      @{ id = 4; command = 'unknown' }
+    ) | ForEach-Object { $_ | ConvertTo-Json -Compress -Depth 5 }
+
+    # Act
+    $script:responses = @{}
+    $requests | & pwsh -NoLogo -NoProfile -NonInteractive -File $hostPath | ForEach-Object {
+      $response = $_ | ConvertFrom-Json -AsHashtable
+      $script:responses[[int]$response.id] = $response
+    }
+  }
+
+  It 'Answers every request on its own line' {
+    $script:responses.Count | Should -Be 4
+  }
+
+  It 'Reports the PowerShell version' {
+    $script:responses[1].output | Should -Be $PSVersionTable.PSVersion.ToString()
+    $script:responses[1].error | Should -BeNullOrEmpty
+  }
+
+  It 'Parses the localization data of a module' {
+    $calls = $script:responses[2].output | ConvertFrom-Json -AsHashtable
+    ($calls | Where-Object { $_.bindingVariable -eq 'LocalizedData' })['data']['Key1'] | Should -Be 'Valeur1'
+  }
+
+  It 'Lists the data files of a module' {
+    $calls = $script:responses[3].output | ConvertFrom-Json -AsHashtable
+    ($calls | Where-Object { $_.bindingVariable -eq 'LocalizedData' })['fileName'] | Should -Be 'Example.psd1'
+  }
+
+  It 'Reports errors without stopping' {
+    $script:responses[4].error | Should -BeLike '*Unknown command*'
+  }
+}
@@ -0,0 +1,3 @@
+function Get-Greeting {
+  Write-Output $Messages.Greeting
+}